@@ -0,0 +1,16 @@
+-- Speakers table: Persistent per-task speaker roster
+-- label is the canonical diarization label after chunk reconciliation (e.g. 話者A),
+-- display_name is the staff-assigned name (e.g. 山崎先生)
+CREATE TABLE IF NOT EXISTS speakers (
+  task_id TEXT NOT NULL,
+  label TEXT NOT NULL,
+  display_name TEXT,
+  first_seen_ms INTEGER,
+  utterance_count INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (task_id, label),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_speakers_task_id ON speakers(task_id);
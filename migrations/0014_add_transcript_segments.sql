@@ -0,0 +1,17 @@
+-- Transcript segments table: Structured utterances parsed from chunk and merged transcripts
+-- Rows for a chunk are written when the chunk completes and replaced by the merged result
+CREATE TABLE IF NOT EXISTS transcript_segments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  start_ms INTEGER NOT NULL,
+  end_ms INTEGER NOT NULL,
+  speaker TEXT,
+  text TEXT NOT NULL,
+  confidence REAL,
+  created_at TEXT NOT NULL,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_task_start ON transcript_segments(task_id, start_ms);
+CREATE INDEX IF NOT EXISTS idx_transcript_segments_task_speaker ON transcript_segments(task_id, speaker);
@@ -0,0 +1,16 @@
+-- Transcript revisions table: Every version of transcripts.content
+-- Revision 1 is the AI-generated original; edits, speaker renames and restores append new revisions
+CREATE TABLE IF NOT EXISTS transcript_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  revision INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  diff TEXT,
+  source TEXT NOT NULL CHECK(source IN ('ai', 'manual', 'speaker_rename', 'restore')),
+  author TEXT,
+  created_at TEXT NOT NULL,
+  UNIQUE (task_id, revision),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_revisions_task_id ON transcript_revisions(task_id, revision DESC);
@@ -0,0 +1,26 @@
+-- Minutes versions table: Every generated or edited draft of the minutes
+-- minutes.content keeps the current draft (the final version if one is marked, otherwise the latest)
+CREATE TABLE IF NOT EXISTS minutes_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  source TEXT NOT NULL CHECK(source IN ('ai', 'manual')),
+  model TEXT,
+  template_id TEXT,
+  author TEXT,
+  is_final INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  UNIQUE (task_id, version),
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_minutes_versions_task_id ON minutes_versions(task_id, version DESC);
+
+ALTER TABLE minutes ADD COLUMN version INTEGER;
+
+-- Existing minutes become version 1
+INSERT OR IGNORE INTO minutes_versions (task_id, version, content, source, model, template_id, author, is_final, created_at)
+SELECT task_id, 1, content, 'ai', NULL, NULL, NULL, 0, created_at FROM minutes;
+
+UPDATE minutes SET version = 1 WHERE version IS NULL;
@@ -0,0 +1,148 @@
+-- Minutes templates table: Section layouts for minutes generation per meeting type / client
+-- instructions may contain placeholders such as {{clientName}}, {{fiscalYear}}, {{meetingDate}}
+CREATE TABLE IF NOT EXISTS minutes_templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  meeting_type TEXT NOT NULL DEFAULT 'general' CHECK(meeting_type IN ('general', 'monthly_review', 'settlement', 'inheritance', 'internal')),
+  client_id TEXT,
+  instructions TEXT NOT NULL,
+  is_builtin INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_minutes_templates_meeting_type ON minutes_templates(meeting_type);
+CREATE INDEX IF NOT EXISTS idx_minutes_templates_client_id ON minutes_templates(client_id);
+
+-- Built-in templates
+INSERT OR IGNORE INTO minutes_templates (id, name, description, meeting_type, client_id, instructions, is_builtin, created_at, updated_at) VALUES
+('builtin:tax-office-v1', '標準議事録', '税理士事務所向けの標準レイアウト', 'general', NULL,
+'Required sections:
+
+📋 会議の要約
+(Brief overview of the meeting in 2-3 sentences)
+
+💡 主要な議題
+(Bullet list of main topics discussed)
+• Topic 1
+• Topic 2
+• Topic 3
+
+✅ 決定事項
+(Bullet list of decisions made)
+• Decision 1
+• Decision 2
+
+📝 TODO
+(Table format with assignee and deadline)
+| 担当者 | タスク内容 | 期限 | ステータス |
+| --- | --- | --- | --- |
+| 山田 | レポート作成 | 2/15 | 未着手 |
+
+⚠️ 懸念点・リスク
+(Bullet list of concerns and risks)
+• Risk 1
+• Risk 2
+
+🔄 次回までのフォローアップ
+(Actions to take before next meeting)
+• Action 1
+• Action 2
+
+⏰ 重要タイムライン
+(Key timestamps from the transcript)
+• 00:05 - Event 1
+• 00:15 - Event 2', 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+('builtin:monthly-review-v1', '月次巡回監査', '月次の記帳・試算表レビュー', 'monthly_review', NULL,
+'Meeting context: 顧問先 {{clientName}} の月次巡回監査（{{fiscalYear}}年度、{{meetingDate}}）
+
+Required sections:
+
+📋 今月の概況
+(Sales, expenses and cash position discussed, 2-3 sentences)
+
+📊 試算表の確認事項
+(Bullet list of account balances or entries that were reviewed or questioned)
+
+🧾 記帳・証憑の不備
+(Missing receipts, misclassified entries, items to correct)
+
+💡 経営上の相談事項
+(Advice requested by the client)
+
+📝 TODO
+| 担当者 | タスク内容 | 期限 | ステータス |
+| --- | --- | --- | --- |
+
+⏰ 重要タイムライン
+(Key timestamps from the transcript)', 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+('builtin:settlement-v1', '決算打合せ', '決算・申告に向けた打合せ', 'settlement', NULL,
+'Meeting context: 顧問先 {{clientName}} の決算打合せ（{{fiscalYear}}年度、{{meetingDate}}）
+
+Required sections:
+
+📋 決算見込みの要約
+(Expected profit, tax amount and key figures discussed)
+
+🧮 決算整理事項
+(Depreciation, accruals, inventory, provisions and other adjustments)
+
+💴 節税・納税計画
+(Tax planning measures discussed and payment schedule)
+
+✅ 決定事項
+(Bullet list of decisions made)
+
+📝 TODO
+| 担当者 | タスク内容 | 期限 | ステータス |
+| --- | --- | --- | --- |
+
+⚠️ 懸念点・リスク
+(Tax audit risks, open questions)
+
+⏰ 重要タイムライン
+(Key timestamps from the transcript)', 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+('builtin:inheritance-v1', '相続相談', '相続税申告・相続対策の相談', 'inheritance', NULL,
+'Meeting context: {{clientName}} 様の相続相談（{{meetingDate}}）
+
+Required sections:
+
+📋 相談の要約
+(Purpose of the consultation in 2-3 sentences)
+
+👪 相続関係
+(Decedent, heirs and family relationships mentioned)
+
+🏠 財産・債務の概要
+(Real estate, securities, deposits, debts and their approximate values)
+
+📅 期限・手続き
+(Filing deadlines and procedures discussed)
+
+📝 TODO
+| 担当者 | タスク内容 | 期限 | ステータス |
+| --- | --- | --- | --- |
+
+⚠️ 懸念点・リスク
+(Disputes among heirs, valuation issues, missing documents)', 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+('builtin:internal-v1', '所内ミーティング', '事務所内のスタッフミーティング', 'internal', NULL,
+'Meeting context: 所内ミーティング（{{meetingDate}}）
+
+Required sections:
+
+📋 会議の要約
+(Brief overview of the meeting in 2-3 sentences)
+
+📣 共有事項
+(Announcements and information shared with staff)
+
+👥 顧問先ごとの進捗
+(Status per client mentioned in the meeting)
+
+✅ 決定事項
+(Bullet list of decisions made)
+
+📝 TODO
+| 担当者 | タスク内容 | 期限 | ステータス |
+| --- | --- | --- | --- |', 1, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
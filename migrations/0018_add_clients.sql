@@ -0,0 +1,17 @@
+-- Clients table: 顧問先 master
+CREATE TABLE IF NOT EXISTS clients (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  code TEXT UNIQUE,
+  fiscal_year_end_month INTEGER CHECK(fiscal_year_end_month BETWEEN 1 AND 12),
+  assigned_staff TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_clients_name ON clients(name);
+
+-- Link meetings to clients
+ALTER TABLE tasks ADD COLUMN client_id TEXT REFERENCES clients(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_client_id ON tasks(client_id, created_at DESC);
@@ -0,0 +1,58 @@
+-- Full-text search over transcripts and minutes
+-- trigram tokenizer: works for Japanese without word segmentation (queries need 3+ characters to use the index)
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  task_id UNINDEXED,
+  source UNINDEXED,
+  content,
+  tokenize = 'trigram'
+);
+
+-- Keep the index in sync with transcripts
+-- (INSERT OR REPLACE does not fire DELETE triggers, so inserts clear the previous row themselves)
+CREATE TRIGGER IF NOT EXISTS search_index_transcript_insert
+AFTER INSERT ON transcripts
+BEGIN
+  DELETE FROM search_index WHERE task_id = NEW.task_id AND source = 'transcript';
+  INSERT INTO search_index (task_id, source, content) VALUES (NEW.task_id, 'transcript', NEW.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_index_transcript_update
+AFTER UPDATE OF content ON transcripts
+BEGIN
+  DELETE FROM search_index WHERE task_id = OLD.task_id AND source = 'transcript';
+  INSERT INTO search_index (task_id, source, content) VALUES (NEW.task_id, 'transcript', NEW.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_index_transcript_delete
+AFTER DELETE ON transcripts
+BEGIN
+  DELETE FROM search_index WHERE task_id = OLD.task_id AND source = 'transcript';
+END;
+
+-- Keep the index in sync with minutes
+CREATE TRIGGER IF NOT EXISTS search_index_minutes_insert
+AFTER INSERT ON minutes
+BEGIN
+  DELETE FROM search_index WHERE task_id = NEW.task_id AND source = 'minutes';
+  INSERT INTO search_index (task_id, source, content) VALUES (NEW.task_id, 'minutes', NEW.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_index_minutes_update
+AFTER UPDATE OF content ON minutes
+BEGIN
+  DELETE FROM search_index WHERE task_id = OLD.task_id AND source = 'minutes';
+  INSERT INTO search_index (task_id, source, content) VALUES (NEW.task_id, 'minutes', NEW.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_index_minutes_delete
+AFTER DELETE ON minutes
+BEGIN
+  DELETE FROM search_index WHERE task_id = OLD.task_id AND source = 'minutes';
+END;
+
+-- Index existing data
+INSERT INTO search_index (task_id, source, content)
+SELECT task_id, 'transcript', content FROM transcripts;
+
+INSERT INTO search_index (task_id, source, content)
+SELECT task_id, 'minutes', content FROM minutes;
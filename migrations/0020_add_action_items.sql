@@ -0,0 +1,23 @@
+-- Action items extracted from the minutes TODO section
+CREATE TABLE IF NOT EXISTS action_items (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  client_id TEXT,
+  minutes_version INTEGER,
+  assignee TEXT,
+  description TEXT NOT NULL,
+  due_date TEXT,                      -- YYYY-MM-DD when the deadline could be resolved
+  due_text TEXT,                      -- deadline as written in the minutes (e.g. 2/15, 次回まで)
+  status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'in_progress', 'done', 'cancelled')),
+  timestamp_ms INTEGER,               -- where the item was discussed in the recording
+  edited INTEGER NOT NULL DEFAULT 0,  -- 1 once staff changed the item; kept when minutes are re-extracted
+  updated_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+  FOREIGN KEY (client_id) REFERENCES clients(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_action_items_task_id ON action_items(task_id);
+CREATE INDEX IF NOT EXISTS idx_action_items_assignee_status ON action_items(assignee, status, due_date);
+CREATE INDEX IF NOT EXISTS idx_action_items_client_status ON action_items(client_id, status, due_date);
@@ -0,0 +1,20 @@
+-- Audit events: who did what, from where (kept after the task or user is deleted, so no foreign keys)
+CREATE TABLE IF NOT EXISTS audit_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  occurred_at TEXT NOT NULL,
+  actor_id TEXT,
+  actor_email TEXT,
+  action TEXT NOT NULL,               -- e.g. admin.health, admin.fix_chunk_states
+  task_id TEXT,
+  client_id TEXT,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  status INTEGER NOT NULL,
+  ip TEXT,
+  user_agent TEXT,
+  details TEXT                        -- JSON
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_task_id ON audit_events(task_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON audit_events(actor_id, occurred_at DESC);
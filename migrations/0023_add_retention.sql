@@ -0,0 +1,27 @@
+-- Retention policy: per-client overrides of the global AUDIO_RETENTION_DAYS / TRANSCRIPT_RETENTION_YEARS
+ALTER TABLE clients ADD COLUMN audio_retention_days INTEGER CHECK(audio_retention_days > 0);
+ALTER TABLE clients ADD COLUMN transcript_retention_years INTEGER CHECK(transcript_retention_years > 0);
+
+-- Legal hold blocks purging; purge timestamps keep the meeting record after its content is gone
+ALTER TABLE tasks ADD COLUMN legal_hold INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tasks ADD COLUMN legal_hold_reason TEXT;
+ALTER TABLE tasks ADD COLUMN audio_purged_at TEXT;
+ALTER TABLE tasks ADD COLUMN content_purged_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_retention ON tasks(legal_hold, created_at);
+
+-- What each purge removed (kept after the task is deleted, so no foreign key)
+CREATE TABLE IF NOT EXISTS retention_purges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  client_id TEXT,
+  kind TEXT NOT NULL CHECK(kind IN ('audio', 'transcript')),
+  retention TEXT NOT NULL,            -- policy applied, e.g. "90 days", "7 years"
+  r2_objects_deleted INTEGER NOT NULL DEFAULT 0,
+  rows_deleted INTEGER NOT NULL DEFAULT 0,
+  triggered_by TEXT NOT NULL CHECK(triggered_by IN ('scheduled', 'manual')),
+  purged_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_purges_purged_at ON retention_purges(purged_at DESC);
+CREATE INDEX IF NOT EXISTS idx_retention_purges_task_id ON retention_purges(task_id);
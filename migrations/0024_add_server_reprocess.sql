@@ -0,0 +1,5 @@
+-- Server-side reprocess: chunk jobs may use a model other than the default transcription model
+ALTER TABLE chunk_jobs ADD COLUMN model TEXT;
+
+-- Tasks whose chunks were created by the server are merged by the queue consumer once every chunk is done
+ALTER TABLE tasks ADD COLUMN merge_on_complete INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,15 @@
+-- Chunk audio is kept until the task completes (plus CHUNK_AUDIO_GRACE_DAYS) so single chunks can be retranscribed
+ALTER TABLE tasks ADD COLUMN completed_at TEXT;
+ALTER TABLE tasks ADD COLUMN chunk_audio_purged_at TEXT;
+
+UPDATE tasks SET completed_at = updated_at WHERE status = 'completed';
+
+-- completed_at follows every transition into 'completed' (merge, minutes generation, retries)
+CREATE TRIGGER IF NOT EXISTS tasks_set_completed_at
+AFTER UPDATE OF status ON tasks
+WHEN NEW.status = 'completed' AND OLD.status != 'completed'
+BEGIN
+  UPDATE tasks SET completed_at = NEW.updated_at WHERE id = NEW.id;
+END;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_chunk_audio_gc ON tasks(status, completed_at) WHERE chunk_audio_purged_at IS NULL;
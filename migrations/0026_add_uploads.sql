@@ -0,0 +1,31 @@
+-- Resumable uploads of the original audio, backed by R2 multipart uploads
+CREATE TABLE IF NOT EXISTS uploads (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  r2_key TEXT NOT NULL,
+  r2_upload_id TEXT NOT NULL,
+  filename TEXT,
+  content_type TEXT NOT NULL,
+  total_size INTEGER,                 -- bytes; NULL while a recording is still growing
+  part_size INTEGER NOT NULL,         -- every part except the last must be exactly this size
+  status TEXT NOT NULL DEFAULT 'uploading', -- uploading | completed | aborted
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  completed_at TEXT,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_uploads_task_id ON uploads(task_id, status);
+
+CREATE TABLE IF NOT EXISTS upload_parts (
+  upload_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  part_number INTEGER NOT NULL,
+  etag TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (upload_id, part_number),
+  FOREIGN KEY (upload_id) REFERENCES uploads(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_parts_task_id ON upload_parts(task_id);
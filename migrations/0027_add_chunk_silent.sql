@@ -0,0 +1,2 @@
+-- Chunks found silent by the pre-flight check are completed without calling Gemini
+ALTER TABLE chunks ADD COLUMN silent INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- Per-task engine choice; NULL means the TRANSCRIPTION_PROVIDER / SUMMARIZATION_PROVIDER default
+ALTER TABLE tasks ADD COLUMN transcription_provider TEXT;
+ALTER TABLE tasks ADD COLUMN summarization_provider TEXT;
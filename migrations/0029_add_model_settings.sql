@@ -0,0 +1,15 @@
+-- Runtime settings editable from the admin API (overrides the wrangler vars of the same purpose)
+CREATE TABLE IF NOT EXISTS settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  updated_by TEXT
+);
+
+-- Per-task model choice; NULL means the settings row / TRANSCRIPTION_MODEL / MINUTES_MODEL default
+ALTER TABLE tasks ADD COLUMN transcription_model TEXT;
+ALTER TABLE tasks ADD COLUMN minutes_model TEXT;
+
+-- Model that produced each result
+ALTER TABLE chunks ADD COLUMN model TEXT;
+ALTER TABLE minutes ADD COLUMN model TEXT;
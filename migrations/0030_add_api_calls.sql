@@ -0,0 +1,23 @@
+-- One row per Gemini generateContent response, with the token counts from usageMetadata.
+-- Kept after the task is deleted (no foreign key) so monthly and per-client costs stay complete.
+CREATE TABLE IF NOT EXISTS api_calls (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT,
+  client_id TEXT,
+  chunk_index INTEGER,
+  kind TEXT NOT NULL,                 -- transcription | minutes | action_items
+  model TEXT NOT NULL,
+  status INTEGER NOT NULL,            -- HTTP status of the response
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  audio_tokens INTEGER NOT NULL DEFAULT 0,   -- part of prompt_tokens billed at the audio rate
+  candidate_tokens INTEGER NOT NULL DEFAULT 0,
+  thoughts_tokens INTEGER NOT NULL DEFAULT 0, -- billed as output
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL,                      -- NULL when the model has no entry in the price table
+  latency_ms INTEGER NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_calls_task_id ON api_calls(task_id);
+CREATE INDEX IF NOT EXISTS idx_api_calls_client_id ON api_calls(client_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_api_calls_created_at ON api_calls(created_at);
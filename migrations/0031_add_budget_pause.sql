@@ -0,0 +1,4 @@
+-- Chunk jobs held back because the API budget was exceeded; re-enqueued once spend is under the cap again
+ALTER TABLE chunk_jobs ADD COLUMN paused_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_chunk_jobs_paused_at ON chunk_jobs(paused_at);
@@ -9,15 +9,29 @@ const runtimeConfig = {
   chunkSizeBytes: defaultConfig.chunkSizeBytes,
   overlapSeconds: defaultConfig.overlapSeconds,
   uploadConcurrency: defaultConfig.uploadConcurrency,
-  statusHistoryLimit: defaultConfig.statusHistoryLimit
+  statusHistoryLimit: defaultConfig.statusHistoryLimit,
+  transcriptionModel: null
 }
 
 const MAX_DURATION_MS = 3 * 60 * 60 * 1000 // 3 hours
 const SERVER_LOG_EMPTY_TEXT = 'サーバーログはまだありません。'
 const STATUS_POLL_INTERVAL_MS = 6000  // Poll every 6 seconds
 const MERGE_RETRY_DELAY_MS = 6000  // Wait 6 seconds between status checks
+const SERVER_CHUNKING_EXTENSIONS = ['webm', 'ogg', 'opus', 'mp3', 'wav']  // cut on the server from the container timeline
+const UPLOAD_PART_MAX_ATTEMPTS = 5  // per part; waits 2s, 4s, 8s... between attempts
 const AUTO_REPROCESS_THRESHOLD = 300  // 300 checks × 6s = 1800s (30 minutes without progress)
 
+// 未ログイン（401）になったAPI呼び出しはログイン画面へ誘導する
+const nativeFetch = window.fetch.bind(window)
+window.fetch = async (input, init) => {
+  const response = await nativeFetch(input, init)
+  const url = typeof input === 'string' ? input : input.url
+  if (response.status === 401 && !url.includes('/api/auth/')) {
+    window.location.href = `/login?next=${encodeURIComponent(window.location.pathname + window.location.hash)}`
+  }
+  return response
+}
+
 const elements = {
   recordStart: document.getElementById('record-start'),
   recordStop: document.getElementById('record-stop'),
@@ -117,6 +131,10 @@ function updateRuntimeConfigFromServer(data) {
   if (isFiniteNumber(data.statusHistoryLimit)) {
     runtimeConfig.statusHistoryLimit = clampConfigNumber(data.statusHistoryLimit, 20, 500)
   }
+
+  if (typeof data.transcriptionModel === 'string' && data.transcriptionModel) {
+    runtimeConfig.transcriptionModel = data.transcriptionModel
+  }
 }
 
 function applyRuntimeConfigToUI() {
@@ -186,19 +204,33 @@ if (elements.generateMinutes) {
 }
 
 if (elements.downloadTranscript) {
-  elements.downloadTranscript.addEventListener('click', () => {
+  elements.downloadTranscript.addEventListener('click', async () => {
     if (!state.transcript) return
-    downloadText(state.transcript, 'transcript.txt')
+    const data = await fetchExport(state.taskId, 'transcript')
+    downloadText(data?.transcript || state.transcript, 'transcript.txt')
   })
 }
 
 if (elements.downloadMinutes) {
-  elements.downloadMinutes.addEventListener('click', () => {
+  elements.downloadMinutes.addEventListener('click', async () => {
     if (!state.minutes) return
-    downloadText(state.minutes, 'minutes.md')
+    const data = await fetchExport(state.taskId, 'minutes')
+    downloadText(data?.content || data?.minutes || state.minutes, 'minutes.md')
   })
 }
 
+// ダウンロードはサーバーから `?export=1` で取得し直し、監査ログにエクスポートとして記録させる
+async function fetchExport(taskId, kind) {
+  if (!taskId) return null
+  try {
+    const response = await fetch(`/api/tasks/${taskId}/${kind}?export=1`)
+    return response.ok ? await response.json() : null
+  } catch (error) {
+    console.warn('エクスポートの取得に失敗しました', error)
+    return null
+  }
+}
+
 if (elements.copyTranscript) {
   elements.copyTranscript.addEventListener('click', async () => {
     if (!state.transcript) return
@@ -578,16 +610,17 @@ async function processAudioFile(file) {
       throw new Error('録音時間が3時間を超えています')
     }
 
-    const plan = planChunks(file, durationMs)
-    state.totalChunks = plan.chunks.length
-    elements.chunkInfo.textContent = getChunkInfoText()
-    logStatus(`音声を${state.totalChunks}チャンクに分割します。`) 
+    const serverChunking = SERVER_CHUNKING_EXTENSIONS.includes(detectExtension(file))
+    const plan = serverChunking ? null : planChunks(file, durationMs)
+    if (plan) {
+      state.totalChunks = plan.chunks.length
+      elements.chunkInfo.textContent = getChunkInfoText()
+      logStatus(`音声を${state.totalChunks}チャンクに分割します。`) 
+    }
 
-    const task = await createTask({
-      totalChunks: state.totalChunks,
-      filename: file.name,
-      durationMs
-    })
+    const task = await createTask(serverChunking
+      ? { chunking: 'server', filename: file.name, durationMs }
+      : { totalChunks: state.totalChunks, filename: file.name, durationMs })
 
     state.taskId = task.id
     state.latestStatus = null
@@ -603,23 +636,16 @@ async function processAudioFile(file) {
     // 処理完了時にインターバルをクリア
     window.historyUpdateInterval = historyUpdateInterval
     
+    if (serverChunking) {
+      await processSourceOnServer(state.taskId, file)
+      return
+    }
+
     // Upload original audio file to R2 for playback
     try {
       logStatus('元の音声ファイルを保存中...')
-      const formData = new FormData()
-      formData.append('audio', file)
-      
-      const uploadResponse = await fetch(`/api/tasks/${state.taskId}/original-audio`, {
-        method: 'POST',
-        body: formData
-      })
-      
-      if (uploadResponse.ok) {
-        logStatus('音声ファイルの保存が完了しました。')
-      } else {
-        console.warn('Failed to upload original audio:', await uploadResponse.text())
-        logStatus('音声ファイルの保存に失敗しましたが、処理は続行します。')
-      }
+      await uploadFileResumable(state.taskId, file)
+      logStatus('音声ファイルの保存が完了しました。')
     } catch (error) {
       console.warn('Failed to upload original audio:', error)
       logStatus('音声ファイルの保存に失敗しましたが、処理は続行します。')
@@ -702,6 +728,120 @@ async function processAudioFile(file) {
   }
 }
 
+// Send the whole file; the server stores it as the original, cuts the chunks and merges when they are done
+async function processSourceOnServer(taskId, file) {
+  logStatus('音声ファイルをサーバーへ送信中...')
+  const upload = await uploadFileResumable(taskId, file)
+  const response = await fetch(`/api/tasks/${taskId}/source`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ uploadId: upload.id })
+  })
+  const data = await response.json().catch(() => ({}))
+  logResponse(data)
+  if (!response.ok) {
+    throw new Error(data?.error || '音声ファイルの送信に失敗しました')
+  }
+
+  state.totalChunks = data.totalChunks
+  elements.chunkInfo.textContent = getChunkInfoText()
+  logStatus(`サーバーで音声を${state.totalChunks}チャンクに分割しました。`)
+  startStatusPolling(taskId)
+  await fetchTaskLogs(taskId)
+
+  state.waitingForMerge = true
+  state.queueStalledCount = 0
+  await waitForServerMerge(taskId)
+  const transcriptResponse = await fetch(`/api/tasks/${taskId}/transcript`)
+  const transcript = await transcriptResponse.json().catch(() => ({}))
+  if (!transcriptResponse.ok) {
+    throw new Error(transcript?.error || '文字起こしの取得に失敗しました')
+  }
+  await fetchTaskLogs(taskId)
+
+  applyMergedTranscript(transcript)
+  updateProgress(state.totalChunks, state.totalChunks, state.latestStatus?.chunkSummary)
+  logStatus('全文文字起こしが完了しました。議事録生成ボタンからステップ2を実行できます。')
+}
+
+// Upload a file in parts; parts that fail are retried with backoff, and a reconnecting client resumes the
+// upload the server already has for the task instead of starting over
+async function uploadFileResumable(taskId, file) {
+  const contentType = file.type || 'application/octet-stream'
+  let upload = await sendUploadRequest(`/api/tasks/${taskId}/uploads`, 'POST', {
+    filename: file.name,
+    contentType,
+    totalSize: file.size
+  })
+  if (upload.totalSize !== file.size || upload.contentType !== contentType) {
+    await sendUploadRequest(`/api/tasks/${taskId}/uploads/${upload.id}`, 'DELETE')
+    upload = await sendUploadRequest(`/api/tasks/${taskId}/uploads`, 'POST', {
+      filename: file.name,
+      contentType,
+      totalSize: file.size
+    })
+  }
+  if (upload.parts.length > 0) {
+    logStatus(`前回の送信を再開します（${upload.parts.length} / ${upload.expectedParts} パート送信済み）。`)
+  }
+
+  for (const partNumber of upload.missingParts) {
+    const start = (partNumber - 1) * upload.partSize
+    const blob = file.slice(start, Math.min(file.size, start + upload.partSize))
+    elements.progressSummary.textContent = `音声ファイル送信中: ${partNumber} / ${upload.expectedParts} パート`
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/uploads/${upload.id}/parts/${partNumber}`, {
+          method: 'PUT',
+          body: blob
+        })
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(data?.error || `パート${partNumber}の送信に失敗しました`)
+        }
+        break
+      } catch (error) {
+        if (attempt >= UPLOAD_PART_MAX_ATTEMPTS) throw error
+        console.warn(`[Upload] Part ${partNumber} failed (attempt ${attempt})`, error)
+        await sleep(2000 * 2 ** (attempt - 1))
+      }
+    }
+  }
+
+  return sendUploadRequest(`/api/tasks/${taskId}/uploads/${upload.id}/complete`, 'POST')
+}
+
+async function sendUploadRequest(url, method, payload) {
+  const response = await fetch(url, {
+    method,
+    headers: payload ? { 'Content-Type': 'application/json' } : undefined,
+    body: payload ? JSON.stringify(payload) : undefined
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data?.error || '音声ファイルの送信に失敗しました')
+  }
+  return data.upload
+}
+
+async function waitForServerMerge(taskId) {
+  while (true) {
+    const status = await fetchTaskStatus(taskId).catch(() => null)
+    if (status) {
+      handleStatusUpdate(status)
+      if (status.hasMergedTranscript && status.task?.status !== 'transcribing') {
+        return status
+      }
+      if ((status.chunkSummary?.error ?? 0) > 0 || status.task?.status === 'error') {
+        throw new Error(status.task?.error || 'チャンク処理でエラーが発生しています。再処理ボタンから復旧してください。')
+      }
+    }
+    await sleep(MERGE_RETRY_DELAY_MS)
+  }
+}
+
 function planChunks(file, durationMs) {
   const config = getConfig()
   const chunkSizeBytes = config.chunkSizeBytes
@@ -2325,7 +2465,7 @@ function updateProgressTaskInfo() {
   if (chunksEl) chunksEl.textContent = `${state.latestStatus?.processedChunks || 0}/${state.totalChunks}`
   if (overlapEl) overlapEl.textContent = `${runtimeConfig.overlapSeconds}秒`
   if (parallelEl) parallelEl.textContent = `${runtimeConfig.transcriptionConcurrency}個`
-  if (modelEl) modelEl.textContent = 'Flash Preview (3.0)'
+  if (modelEl) modelEl.textContent = state.latestStatus?.task?.transcriptionModel || runtimeConfig.transcriptionModel || '-'
   
   // ステータスとプログレスバーを更新
   updateProgressStatus()
@@ -2457,41 +2597,19 @@ async function showMinutesDetailModal(taskId) {
     }
     
     document.getElementById('detail-reprocess').onclick = async () => {
-      if (confirm('このタスクを最初から再処理しますか？\n\n元の音声ファイルから完全に再処理します。\n既存のデータは削除されます。')) {
+      if (confirm('このタスクを最初から再処理しますか？\n\nサーバーに保存された元の音声ファイルから再処理します。\n現在の文字起こし・議事録は過去のバージョンとして残ります。')) {
         try {
           const reprocessResponse = await fetch(`/api/tasks/${taskId}/reprocess`, {
-            method: 'POST'
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({})
           })
           const result = await reprocessResponse.json()
           
-          if (reprocessResponse.ok && result.hasOriginalAudio) {
-            // Get original audio from R2
-            const audioResponse = await fetch(`/api/tasks/${taskId}/audio`)
-            if (audioResponse.ok) {
-              const audioBlob = await audioResponse.blob()
-              const audioFile = new File([audioBlob], result.audioInfo.filename || 'audio.webm', {
-                type: audioBlob.type
-              })
-              
-              // Set the file as selected and start processing
-              state.selectedFile = audioFile
-              state.selectedSource = 'file'
-              
-              // Close modal and start processing
-              document.getElementById('minutes-detail-modal').style.display = 'none'
-              
-              // Show file summary
-              elements.fileSummary.textContent = `選択: ${audioFile.name} (${(audioFile.size / 1024 / 1024).toFixed(2)} MB)`
-              if (elements.startProcessing) elements.startProcessing.disabled = false
-              if (elements.startProcessing) elements.startProcessing.classList.remove('opacity-50', 'cursor-not-allowed')
-              
-              // Auto-start processing
-              if (confirm('元の音声ファイルを取得しました。\n再処理を開始しますか？')) {
-                await processAudioFile(audioFile)
-              }
-            } else {
-              alert('元の音声ファイルの取得に失敗しました')
-            }
+          if (reprocessResponse.ok) {
+            document.getElementById('minutes-detail-modal').style.display = 'none'
+            alert(`再処理を開始しました（${result.totalChunks}チャンク）。\nこの画面を閉じても処理は続行され、完了すると履歴に反映されます。`)
+            loadMeetingHistory()
           } else {
             alert(result.error || '再処理の開始に失敗しました')
           }
@@ -2504,7 +2622,7 @@ async function showMinutesDetailModal(taskId) {
     
     document.getElementById('detail-download-minutes').onclick = async () => {
       try {
-        const minutesResponse = await fetch(`/api/tasks/${taskId}/minutes`)
+        const minutesResponse = await fetch(`/api/tasks/${taskId}/minutes?export=1`)
         if (minutesResponse.ok) {
           const minutesData = await minutesResponse.json()
           downloadText(minutesData.content || minutesData.minutes || '', `minutes-${taskId}.md`)
@@ -2519,7 +2637,7 @@ async function showMinutesDetailModal(taskId) {
     
     document.getElementById('detail-download-transcript').onclick = async () => {
       try {
-        const transcriptResponse = await fetch(`/api/tasks/${taskId}/transcript`)
+        const transcriptResponse = await fetch(`/api/tasks/${taskId}/transcript?export=1`)
         if (transcriptResponse.ok) {
           const transcriptData = await transcriptResponse.json()
           downloadText(transcriptData.transcript || '', `transcript-${taskId}.txt`)
@@ -2745,6 +2863,14 @@ async function loadDailyStatsChart() {
 }
 
 // Refresh stats button
+const logoutBtn = document.getElementById('logout-button')
+if (logoutBtn) {
+  logoutBtn.addEventListener('click', async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => {})
+    window.location.href = '/login'
+  })
+}
+
 const refreshStatsBtn = document.getElementById('refresh-stats')
 if (refreshStatsBtn) {
   refreshStatsBtn.addEventListener('click', loadUsageStats)
@@ -1,11 +1,39 @@
 import { Hono } from 'hono'
+import type { Context, MiddlewareHandler } from 'hono'
 import { cors } from 'hono/cors'
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie'
 
 const GEMINI_FLASH_MODEL = 'gemini-2.5-flash'
 const GEMINI_PRO_MODEL = 'gemini-3-pro-preview'
 const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com'
+const OPENAI_API_BASE = 'https://api.openai.com/v1'
+const WHISPER_DEFAULT_MODEL = 'whisper-1'
+const WHISPER_TIMEOUT_MS = 120_000
+const WHISPER_MAX_RETRIES = 3
+const MOCK_UTTERANCE_INTERVAL_MS = 15_000
+const TRANSCRIPTION_PROVIDERS: TranscriptionProviderName[] = ['gemini', 'whisper', 'mock']
+const SUMMARIZATION_PROVIDERS: SummarizationProviderName[] = ['gemini', 'mock']
+const TRANSCRIPTION_MODEL_OPTIONS = ['gemini-2.5-flash', 'gemini-3-flash-preview', 'gemini-2.5-pro', GEMINI_PRO_MODEL]
+const MINUTES_MODEL_OPTIONS = ['gemini-2.5-flash', 'gemini-3-flash-preview', 'gemini-2.5-pro', GEMINI_PRO_MODEL]
+const DEFAULT_TRANSCRIPTION_MODEL = GEMINI_FLASH_MODEL
+const DEFAULT_MINUTES_MODEL = GEMINI_FLASH_MODEL
+const SETTING_KEYS = ['transcription_model', 'minutes_model', 'model_prices', 'budget_monthly_usd', 'budget_daily_usd'] as const
+const BUDGET_RESUME_CRON = '0 0 * * *' // start of the UTC day the daily budget window uses; keep in sync with wrangler.toml
+const BUDGET_WARNING_RATIO = 0.8 // warn in task logs from 80% of a cap
+// USD per 1M tokens (Gemini API paid tier, prompts up to 200k tokens); overridable via PUT /api/admin/settings
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.30, audioInput: 1.00, output: 2.50 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-3-flash-preview': { input: 0.50, audioInput: 1.00, output: 3.00 },
+  'gemini-3-pro-preview': { input: 2.00, output: 12.00 }
+}
+const API_CALL_TOTALS_COLUMNS = `COUNT(*) as calls, SUM(CASE WHEN status >= 400 THEN 1 ELSE 0 END) as errors,
+  SUM(prompt_tokens) as prompt_tokens, SUM(audio_tokens) as audio_tokens, SUM(candidate_tokens) as candidate_tokens,
+  SUM(thoughts_tokens) as thoughts_tokens, SUM(total_tokens) as total_tokens, SUM(cost_usd) as cost_usd,
+  SUM(CASE WHEN cost_usd IS NULL THEN 1 ELSE 0 END) as unpriced_calls, AVG(latency_ms) as avg_latency_ms`
 
 const TIMESTAMP_PATTERN = /^\s*(\d{2}):(\d{2})(?::(\d{2}))?/ // Supports mm:ss or hh:mm:ss
+const SPEAKER_LINE_PATTERN = /^(\s*\d{1,2}:\d{2}(?::\d{2})?\s+)([^:：\n]{1,40}?)(\s*[:：])(.*)$/ // "MM:SS 話者名: 発言内容"
 
 const GEMINI_FLASH_TIMEOUT_MS = 120_000  // 2 minutes (increased from 60s to handle larger chunks)
 const GEMINI_PRO_TIMEOUT_MS = 90_000
@@ -15,13 +43,149 @@ const GEMINI_BACKOFF_BASE_MS = 2_000
 const GEMINI_RETRYABLE_STATUS_CODES = new Set<number>([408, 429, 500, 502, 503, 504, 524])
 const TASK_LOG_LIMIT = 200
 const DEFAULT_CHUNK_SIZE_BYTES = 2 * 1024 * 1024
+const MIN_CHUNK_SIZE_BYTES = 128 * 1024
+const MAX_CHUNK_SIZE_BYTES = 8 * 1024 * 1024
 const DEFAULT_CHUNK_OVERLAP_SECONDS = 5
+const DEFAULT_CHUNK_DURATION_SECONDS = 270
+const MIN_CHUNK_DURATION_SECONDS = 30
+const MAX_CHUNK_DURATION_SECONDS = 900
+const AUDIO_CUE_INTERVAL_MS = 500 // granularity of server-side chunk boundaries
+const AUDIO_READ_WINDOW_BYTES = 4 * 1024 * 1024
+const AUDIO_MAX_RESYNC_BYTES = 64 * 1024 // give up on an MP3 stream after this much garbage
+const AUDIO_MIN_CHUNK_DURATION_MS = 30_000
+const AUDIO_MIN_TAIL_MS = 15_000 // shorter remainders are folded into the last chunk
+const WEBM_LAST_BLOCK_DURATION_MS = 20 // WebM has no block durations for audio; assume one Opus frame
+const AUDIO_PREFLIGHT_MIN_DURATION_MS = 5_000 // shorter chunks skip the duration check
+const AUDIO_PREFLIGHT_MIN_DURATION_RATIO = 0.5 // measured / expected duration below this is treated as truncated
+const AUDIO_SILENCE_MAX_RMS_DBFS = -50
+const AUDIO_SILENCE_MAX_OPUS_BITRATE = 4_000 // Opus/Vorbis at digital silence stays far below speech bitrates
+const AUDIO_SILENCE_WINDOW_MS = 2_000 // silence must hold in every window, so a few seconds of speech keep the chunk
+const SOURCE_UPLOAD_PART_SIZE = 10 * 1024 * 1024 // R2 multipart parts must be at least 5 MiB except the last
+const MIN_UPLOAD_PART_SIZE = 5 * 1024 * 1024
+const MAX_UPLOAD_PART_SIZE = 50 * 1024 * 1024
+const MAX_UPLOAD_PARTS = 10_000 // R2 multipart limit
 const DEFAULT_TRANSCRIPTION_CONCURRENCY = 4
 const DEFAULT_CHUNK_JOB_MAX_ATTEMPTS = 6
+const QUEUE_MAX_DELAY_SECONDS = 12 * 60 * 60 // Cloudflare Queues limit for delaySeconds
+const CHUNK_PROCESSING_STALE_MS = 15 * 60 * 1000 // longer than GEMINI_FLASH_TIMEOUT_MS × GEMINI_FLASH_MAX_RETRIES
+const CHUNK_JOB_COLUMNS = `chunk_index, start_ms, end_ms, mime_type, r2_key, audio_base64, size_bytes, model, attempts, status,
+  last_error, processing_by, retry_at, paused_at, created_at, updated_at`
+const CHUNK_PREVIOUS_CONTEXT_CHARS = 1500 // tail of the previous chunk passed to the model for continuity
+const CHUNK_RETRY_INSTRUCTIONS_MAX_LENGTH = 1000
 const DEFAULT_UPLOAD_CONCURRENCY = 5
 const CHUNK_QUEUE_BATCH_MULTIPLIER = 2
 const MAX_CONCURRENCY_LIMIT = 8
 const MAX_CHUNK_JOB_ATTEMPTS_LIMIT = 12
+const SPEAKER_MATCH_TOLERANCE_MS = 3_000
+const SPEAKER_MATCH_MIN_SIMILARITY = 0.5
+const SPEAKER_NAME_MAX_LENGTH = 40
+const SEGMENT_QUERY_DEFAULT_LIMIT = 500
+const SEGMENT_QUERY_MAX_LIMIT = 2000
+const REVISION_AUTHOR_MAX_LENGTH = 100
+const MINUTES_PROMPT_TEMPLATE_ID = 'builtin:tax-office-v1'
+const LINE_DIFF_MAX_CELLS = 1_000_000
+const MINUTES_MEETING_TYPES: MinutesMeetingType[] = ['general', 'monthly_review', 'settlement', 'inheritance', 'internal']
+const MINUTES_TEMPLATE_NAME_MAX_LENGTH = 100
+const MINUTES_TEMPLATE_INSTRUCTIONS_MAX_LENGTH = 8000
+const CLIENT_FIELD_MAX_LENGTH = 100
+const SEARCH_QUERY_MAX_LENGTH = 200
+const SEARCH_TRIGRAM_MIN_LENGTH = 3 // FTS5 trigram tokenizer cannot MATCH shorter terms
+const SEARCH_SNIPPET_RADIUS = 24 // characters shown on each side of a hit
+const SEARCH_HIGHLIGHT_START = '\u0001'
+const SEARCH_HIGHLIGHT_END = '\u0002'
+const HEALTH_PROBE_TIMEOUT_MS = 10000
+const HEALTH_PROBE_R2_KEY = 'health-probe' // read-only HEAD; never written
+const RETENTION_PURGE_BATCH_SIZE = 25 // tasks per kind per run; the daily cron catches up on the rest
+const DEFAULT_CHUNK_AUDIO_GRACE_DAYS = 7
+const CHUNK_AUDIO_SWEEP_BATCH_SIZE = 50
+const BULK_DELETE_MAX_TASKS = 50
+const USER_ROLES: UserRole[] = ['admin', 'staff', 'viewer']
+const SESSION_COOKIE_NAME = 'tax_minutes_session'
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000 // limit last_seen_at writes
+const PASSWORD_MIN_LENGTH = 10
+const PASSWORD_HASH_ITERATIONS = 100000 // Workers caps PBKDF2 at 100k iterations
+const PUBLIC_API_PATHS = ['/api/healthz', '/api/auth/login', '/api/auth/setup']
+const ACTION_ITEM_STATUSES: ActionItemStatus[] = ['open', 'in_progress', 'done', 'cancelled']
+const ACTION_ITEM_TEXT_MAX_LENGTH = 500
+const ACTION_ITEM_DUPLICATE_MIN_SIMILARITY = 0.8 // re-extracted items this close to an edited one are dropped
+const MINUTES_TEMPLATE_PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+const DEFAULT_TRANSCRIPTION_OUTPUT_MODE: TranscriptionOutputMode = 'json'
+const DEFAULT_TRANSCRIPTION_PROVIDER: TranscriptionProviderName = 'gemini'
+const DEFAULT_SUMMARIZATION_PROVIDER: SummarizationProviderName = 'gemini'
+const JSON_TRANSCRIPTION_OFFSET_TOLERANCE_SECONDS = 10
+
+// Fallback when the built-in template row is missing (same layout as migration 0017)
+const DEFAULT_MINUTES_TEMPLATE_INSTRUCTIONS = [
+  'Required sections:',
+  '',
+  '📋 会議の要約',
+  '(Brief overview of the meeting in 2-3 sentences)',
+  '',
+  '💡 主要な議題',
+  '(Bullet list of main topics discussed)',
+  '• Topic 1',
+  '• Topic 2',
+  '• Topic 3',
+  '',
+  '✅ 決定事項',
+  '(Bullet list of decisions made)',
+  '• Decision 1',
+  '• Decision 2',
+  '',
+  '📝 TODO',
+  '(Table format with assignee and deadline)',
+  '| 担当者 | タスク内容 | 期限 | ステータス |',
+  '| --- | --- | --- | --- |',
+  '| 山田 | レポート作成 | 2/15 | 未着手 |',
+  '',
+  '⚠️ 懸念点・リスク',
+  '(Bullet list of concerns and risks)',
+  '• Risk 1',
+  '• Risk 2',
+  '',
+  '🔄 次回までのフォローアップ',
+  '(Actions to take before next meeting)',
+  '• Action 1',
+  '• Action 2',
+  '',
+  '⏰ 重要タイムライン',
+  '(Key timestamps from the transcript)',
+  '• 00:05 - Event 1',
+  '• 00:15 - Event 2'
+].join('\n')
+
+// Gemini responseSchema (OpenAPI subset) for JSON transcription mode
+const TRANSCRIPTION_RESPONSE_SCHEMA = {
+  type: 'ARRAY',
+  items: {
+    type: 'OBJECT',
+    properties: {
+      offsetSeconds: { type: 'NUMBER', description: 'Seconds from the start of this audio chunk' },
+      speaker: { type: 'STRING', description: 'Speaker label such as 話者A' },
+      text: { type: 'STRING', description: 'Verbatim utterance' }
+    },
+    required: ['offsetSeconds', 'speaker', 'text'],
+    propertyOrdering: ['offsetSeconds', 'speaker', 'text']
+  }
+}
+
+const ACTION_ITEMS_RESPONSE_SCHEMA = {
+  type: 'ARRAY',
+  items: {
+    type: 'OBJECT',
+    properties: {
+      assignee: { type: 'STRING', description: 'Person responsible; empty if not stated' },
+      description: { type: 'STRING', description: 'What has to be done' },
+      dueDate: { type: 'STRING', description: 'Deadline as YYYY-MM-DD; empty if it cannot be resolved to a date' },
+      dueText: { type: 'STRING', description: 'Deadline exactly as written in the minutes' },
+      status: { type: 'STRING', enum: ['open', 'in_progress', 'done'] },
+      timestamp: { type: 'STRING', description: 'mm:ss or hh:mm:ss where the item was discussed; empty if unknown' }
+    },
+    required: ['description', 'status'],
+    propertyOrdering: ['assignee', 'description', 'dueDate', 'dueText', 'status', 'timestamp']
+  }
+}
 
 interface Bindings {
   GEMINI_API_KEY: string
@@ -31,9 +195,22 @@ interface Bindings {
   ASSETS: Fetcher
   CHUNK_SIZE_BYTES?: string
   CHUNK_OVERLAP_SECONDS?: string
+  CHUNK_DURATION_SECONDS?: string
   TRANSCRIPTION_MAX_CONCURRENCY?: string
   CHUNK_JOB_MAX_ATTEMPTS?: string
   UPLOAD_CONCURRENCY?: string
+  TRANSCRIPTION_OUTPUT_MODE?: string
+  AUDIO_RETENTION_DAYS?: string
+  TRANSCRIPT_RETENTION_YEARS?: string
+  CHUNK_AUDIO_GRACE_DAYS?: string
+  TRANSCRIPTION_PROVIDER?: string
+  SUMMARIZATION_PROVIDER?: string
+  OPENAI_API_KEY?: string
+  OPENAI_API_BASE?: string
+  WHISPER_MODEL?: string
+  TRANSCRIPTION_MODEL?: string
+  MINUTES_MODEL?: string
+  SETUP_TOKEN?: string
 }
 
 type TaskLogLevel = 'info' | 'warn' | 'error'
@@ -55,6 +232,9 @@ type ChunkJobMessage = {
   endMs: number
   mimeType: string
   sizeBytes: number
+  model?: string // overrides the task's transcription model (reprocess and chunk retry option)
+  instructions?: string // extra prompt text for a single retry
+  skipPreflight?: boolean // send to Gemini whatever the pre-flight check finds (silent or corrupt; chunk retry option)
 }
 
 type TaskStatus =
@@ -75,20 +255,285 @@ type TaskRecord = {
   createdAt: string
   updatedAt: string
   error?: string
+  clientId?: string
+  ownerId?: string
+  legalHold?: boolean
+  legalHoldReason?: string
+  audioPurgedAt?: string
+  contentPurgedAt?: string
+  chunkAudioPurgedAt?: string
+  completedAt?: string
+  transcriptionProvider?: TranscriptionProviderName
+  summarizationProvider?: SummarizationProviderName
+  transcriptionModel?: string
+  minutesModel?: string
+}
+
+type ClientRecord = {
+  id: string
+  name: string
+  code?: string
+  fiscalYearEndMonth?: number
+  assignedStaff?: string
+  audioRetentionDays?: number
+  transcriptRetentionYears?: number
+  createdAt: string
+  updatedAt: string
+}
+
+type UploadStatus = 'uploading' | 'completed' | 'aborted'
+
+type UploadRecord = {
+  id: string
+  taskId: string
+  r2Key: string
+  filename?: string
+  contentType: string
+  totalSize?: number
+  partSize: number
+  status: UploadStatus
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+type UploadProgress = UploadRecord & {
+  parts: { partNumber: number; sizeBytes: number }[]
+  uploadedBytes: number
+  expectedParts?: number
+  missingParts?: number[]
+}
+
+type RetentionPurgeKind = 'audio' | 'transcript'
+
+type RetentionPurgeResult = {
+  taskId: string
+  clientId?: string
+  kind: RetentionPurgeKind
+  retention: string
+  r2ObjectsDeleted: number
+  rowsDeleted: number
+}
+
+type TaskDeletionReport = {
+  taskId: string
+  filename?: string
+  clientId?: string
+  r2ObjectsDeleted: number
+  r2BytesDeleted: number
+  rowsDeleted: Record<string, number>
+  usageStatsDeducted: UsageStatsDeduction
+  deletedAt: string
+}
+
+/**
+ * What a deleted task had added to usage_stats / daily_usage_stats. Gemini call and error counts are not
+ * deducted: those calls were made and billed (their api_calls rows are kept too).
+ */
+type UsageStatsDeduction = {
+  tasks: number
+  audioDurationMs: number
+  chunksProcessed: number
+  transcriptCharacters: number
+  transcriptsGenerated: number
+  minutesGenerated: number
+}
+
+type TranscriptMergeResult =
+  | { ok: true; transcript: string; speakers: SpeakerRecord[]; debug: ReturnType<typeof mergeChunks>['debug'] }
+  | { ok: false; status: 400 | 409; body: Record<string, unknown> }
+
+type AuditRequest = {
+  actor?: UserRecord
+  method: string
+  path: string
+  ip?: string
+  userAgent?: string
+}
+
+type ChunkAudioSweepReport = {
+  graceDays: number
+  candidates: string[]
+  swept: Array<{ taskId: string; objectsDeleted: number; bytesDeleted: number }>
+  orphans: Array<{ taskId: string; objectsDeleted: number; bytesDeleted: number }>
+  failed: Array<{ taskId: string; error: string }>
+}
+
+type SearchSource = 'transcript' | 'minutes'
+
+type SearchHit = {
+  taskId: string
+  filename?: string
+  clientId?: string
+  createdAt: string
+  source: SearchSource
+  snippet: string
+  timestampMs: number | null
+  timestamp: string | null
+}
+
+type UserRole = 'admin' | 'staff' | 'viewer'
+
+type UserRecord = {
+  id: string
+  email: string
+  displayName: string
+  role: UserRole
+  disabled: boolean
+  lastLoginAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+type UserRow = {
+  id: string
+  email: string
+  display_name: string
+  role: UserRole
+  password_hash: string
+  disabled: number
+  last_login_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+type AppEnv = {
+  Bindings: Bindings
+  Variables: {
+    user: UserRecord
+    taskScope?: { ownerId: string | null; clientId: string | null }
+  }
+}
+
+type ActionItemStatus = 'open' | 'in_progress' | 'done' | 'cancelled'
+
+type ActionItemRecord = {
+  id: string
+  taskId: string
+  clientId?: string
+  minutesVersion?: number
+  assignee?: string
+  description: string
+  dueDate?: string
+  dueText?: string
+  status: ActionItemStatus
+  timestampMs?: number
+  edited: boolean
+  updatedBy?: string
+  createdAt: string
+  updatedAt: string
+}
+
+type ActionItemRow = {
+  id: string
+  task_id: string
+  client_id: string | null
+  minutes_version: number | null
+  assignee: string | null
+  description: string
+  due_date: string | null
+  due_text: string | null
+  status: ActionItemStatus
+  timestamp_ms: number | null
+  edited: number
+  updated_by: string | null
+  created_at: string
+  updated_at: string
 }
 
+type ExtractedActionItem = Pick<ActionItemRecord, 'assignee' | 'description' | 'dueDate' | 'dueText' | 'status' | 'timestampMs'>
+
 type ChunkRecord = {
   index: number
   startMs: number
   endMs: number
   text: string
   rawResponse?: unknown
+  silent?: boolean
+  model?: string
   createdAt: string
 }
 
 type MinutesRecord = {
   content: string
   createdAt: string
+  version?: number
+  model?: string
+}
+
+type MinutesMeetingType = 'general' | 'monthly_review' | 'settlement' | 'inheritance' | 'internal'
+
+type MinutesTemplateRecord = {
+  id: string
+  name: string
+  description?: string
+  meetingType: MinutesMeetingType
+  clientId?: string
+  instructions: string
+  isBuiltin: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+type MinutesVersionSource = 'ai' | 'manual'
+
+type MinutesVersionRecord = {
+  version: number
+  source: MinutesVersionSource
+  model?: string
+  templateId?: string
+  author?: string
+  isFinal: boolean
+  content?: string
+  createdAt: string
+}
+
+type TranscriptSegment = {
+  id?: number
+  chunkIndex: number
+  startMs: number
+  endMs: number
+  speaker?: string
+  speakerName?: string
+  text: string
+  confidence?: number
+}
+
+type TranscriptRevisionSource = 'ai' | 'manual' | 'speaker_rename' | 'restore'
+
+type LineDiffHunk = {
+  line: number
+  removed: string[]
+  added: string[]
+}
+
+type TranscriptRevisionRecord = {
+  revision: number
+  source: TranscriptRevisionSource
+  author?: string
+  diff: LineDiffHunk[]
+  content?: string
+  createdAt: string
+}
+
+type SpeakerRecord = {
+  label: string
+  displayName?: string
+  firstSeenMs?: number
+  utteranceCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+type SpeakerStat = {
+  label: string
+  firstSeenMs: number | null
+  utteranceCount: number
+}
+
+type SpeakerLabelMapping = {
+  chunkIndex: number
+  mapping: Record<string, string>
 }
 
 type ChunkJobStatus = 'queued' | 'processing' | 'completed' | 'error'
@@ -98,8 +543,10 @@ type ChunkJobRecord = {
   startMs: number
   endMs: number
   mimeType: string
-  audioBase64: string
+  r2Key?: string
+  audioBase64?: string // jobs queued before chunk audio moved to R2
   sizeBytes: number
+  model?: string
   attempts: number
   status: ChunkJobStatus
   createdAt: string
@@ -107,8 +554,57 @@ type ChunkJobRecord = {
   lastError?: string
   processingBy?: string
   retryAt?: string
+  pausedAt?: string
+}
+
+type ChunkJobRow = {
+  chunk_index: number
+  start_ms: number
+  end_ms: number
+  mime_type: string
+  r2_key: string | null
+  audio_base64: string | null
+  size_bytes: number
+  model: string | null
+  attempts: number
+  status: ChunkJobStatus
+  last_error: string | null
+  processing_by: string | null
+  retry_at: string | null
+  paused_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+type ChunkAudio = {
+  bytes: Uint8Array
+  base64: string
+}
+
+/**
+ * Where a chunk job's audio is read from: R2 (`r2_key`, every current upload path) or inline base64 in `chunk_jobs.audio_base64`.
+ */
+type ChunkAudioStorage = {
+  kind: 'r2' | 'inline'
+  load: () => Promise<ChunkAudio | null>
 }
 
+type RunChunkJobOptions = {
+  r2Key?: string // queue messages: the job must still point at this object, otherwise it was replaced by a reprocess
+  model?: string
+  instructions?: string
+  skipPreflight?: boolean
+}
+
+type ChunkJobOutcome =
+  | { status: 'completed'; silent: boolean }
+  | { status: 'skipped'; reason: 'already_completed' | 'superseded' | 'not_queued' }
+  | { status: 'busy'; staleAt: string } // another worker holds the job; it can be taken over from staleAt
+  | { status: 'deferred'; retryAt: string } // retry_at has not been reached yet
+  | { status: 'paused' }
+  | { status: 'retry'; retryAt: string }
+  | { status: 'failed'; error: string }
+
 type ChunkStateRecord = {
   index: number
   status: ChunkJobStatus
@@ -117,6 +613,20 @@ type ChunkStateRecord = {
   lastError?: string
 }
 
+type ChunkListItem = {
+  index: number
+  status: ChunkJobStatus | 'missing'
+  startMs?: number
+  endMs?: number
+  attempts: number
+  lastError?: string
+  textLength: number | null
+  silent?: boolean
+  model?: string
+  retryable: boolean
+  updatedAt?: string
+}
+
 type ChunkSummary = {
   total: number
   queued: number
@@ -125,31 +635,159 @@ type ChunkSummary = {
   error: number
 }
 
-type ProcessQueueOptions = {
-  maxIterations?: number
+type AudioContainerFormat = 'webm' | 'ogg' | 'mp3' | 'wav'
+
+type AudioCuePoint = {
+  offset: number
+  timeMs: number
+  prefix?: Uint8Array // bytes to insert before offset when a chunk starts here (e.g. a WebM cluster header)
 }
 
-type EnqueueChunkJobInput = {
-  index: number
+type AudioContainerLayout = {
+  format: AudioContainerFormat
+  mimeType: string
+  extension: string
+  durationMs: number
+  dataStart: number
+  dataEnd: number
+  cues: AudioCuePoint[] // ascending; the last entry marks the end of the audio data
+  header: (dataLength: number) => Uint8Array
+  pcmBitsPerSample?: number // set for uncompressed WAV, whose samples can be measured directly
+}
+
+type AudioPreflightResult = {
+  status: 'ok' | 'silent' | 'corrupt' | 'unchecked'
+  format?: AudioContainerFormat
+  measuredDurationMs?: number
+  rmsDbfs?: number // loudest window
+  averageBitrate?: number
+  peakBitrate?: number // highest window
+  reason?: string
+}
+
+type AudioChunkPlan = {
   startMs: number
   endMs: number
-  mimeType: string
-  audioBase64: string
-  sizeBytes: number
+  prefix: Uint8Array
+  offset: number
+  length: number
+}
+
+type ProcessQueueOptions = {
+  maxIterations?: number
+}
+
+type TranscriptionOutputMode = 'json' | 'text'
+
+type TranscriptionProviderName = 'gemini' | 'whisper' | 'mock'
+
+type SummarizationProviderName = 'gemini' | 'mock'
+
+type SettingKey = typeof SETTING_KEYS[number]
+
+/**
+ * Gemini models in effect. Resolution order: task override, settings row, TRANSCRIPTION_MODEL / MINUTES_MODEL, built-in default.
+ */
+type ModelSettings = {
+  transcriptionModel: string
+  minutesModel: string
+}
+
+/**
+ * USD per 1M tokens. `audioInput` applies to the audio part of the prompt (defaults to `input`);
+ * thinking tokens are billed at `output`.
+ */
+type ModelPrice = {
+  input: number
+  audioInput?: number
+  output: number
+}
+
+type ApiCallKind = 'transcription' | 'minutes' | 'action_items'
+
+type BudgetState = 'ok' | 'warning' | 'exceeded'
+
+/**
+ * Spend against one cap. Windows start at 00:00 UTC (daily) and on the 1st of the month (monthly).
+ */
+type BudgetWindow = {
+  capUsd: number | null
+  spentUsd: number
+  since: string
+  state: BudgetState
+}
+
+type BudgetStatus = {
+  state: BudgetState
+  daily: BudgetWindow
+  monthly: BudgetWindow
+}
+
+type ApiCallTotals = {
+  calls: number
+  errors: number
+  promptTokens: number
+  audioTokens: number
+  candidateTokens: number
+  thoughtsTokens: number
+  totalTokens: number
+  costUsd: number
+  unpricedCalls: number
+  averageLatencyMs: number
 }
 
 type RuntimeConfig = {
   chunkSizeBytes: number
   overlapSeconds: number
+  chunkDurationSeconds: number
   transcriptionConcurrency: number
   chunkJobMaxAttempts: number
   uploadConcurrency: number
+  transcriptionOutputMode: TranscriptionOutputMode
+  transcriptionProvider: TranscriptionProviderName
+  summarizationProvider: SummarizationProviderName
+  transcriptionModel: string
+  minutesModel: string
+  audioRetentionDays: number | null
+  transcriptRetentionYears: number | null
+  chunkAudioGraceDays: number
 }
 
-const app = new Hono<{ Bindings: Bindings }>()
+const app = new Hono<AppEnv>()
 
 app.use('/api/*', cors())
 
+// Authentication: every /api route except PUBLIC_API_PATHS needs a session (cookie or Bearer token)
+app.use('/api/*', async (c, next) => {
+  if (c.req.method === 'OPTIONS' || PUBLIC_API_PATHS.includes(c.req.path)) {
+    return next()
+  }
+
+  const token = getSessionToken(c.req.header('Authorization'), getCookie(c, SESSION_COOKIE_NAME))
+  const user = token ? await getSessionUser(c.env, token) : null
+  if (!user) {
+    return c.json({ error: 'ログインが必要です' }, 401)
+  }
+  if (user.role === 'viewer' && c.req.method !== 'GET' && c.req.method !== 'HEAD' && !c.req.path.startsWith('/api/auth/')) {
+    return c.json({ error: '閲覧専用ユーザーは変更できません' }, 403)
+  }
+
+  c.set('user', user)
+  await next()
+})
+
+// Task-scoped routes: only the owner or an admin can see the task (others get 404, not 403)
+app.use('/api/tasks/:taskId/*', async (c, next) => {
+  const scope = await getTaskScope(c.env, c.req.param('taskId'))
+  if (scope && !canAccessTask(c.get('user'), scope.ownerId)) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+  if (scope) {
+    c.set('taskScope', scope)
+  }
+  await next()
+})
+
 // Serve static files from Assets
 app.get('/static/*', async (c) => {
   const url = new URL(c.req.url)
@@ -164,14 +802,174 @@ app.get('/favicon.ico', async (c) => {
   return c.env.ASSETS.fetch(new URL('/favicon.ico', c.req.url))
 })
 
-app.get('/api/config', (c) => {
+app.get('/login', async (c) => {
+  return c.env.ASSETS.fetch(new URL('/login.html', c.req.url))
+})
+
+// First-run check: setup is only possible while no user exists
+app.get('/api/auth/setup', async (c) => {
+  const count = await c.env.DB.prepare('SELECT COUNT(*) as count FROM users').first<{ count: number }>()
+  return c.json({ required: (count?.count ?? 0) === 0 })
+})
+
+// Create the first admin account. The route is public, so the caller must also know SETUP_TOKEN
+app.post('/api/auth/setup', async (c) => {
+  if (!c.env.SETUP_TOKEN) {
+    return c.json({ error: '初期設定トークン（SETUP_TOKEN）が設定されていません' }, 403)
+  }
+
+  const payload = await c.req.json().catch(() => null)
+  const setupToken = typeof payload?.setupToken === 'string' ? payload.setupToken : ''
+  if (!constantTimeEqual(setupToken, c.env.SETUP_TOKEN)) {
+    return c.json({ error: '初期設定トークンが正しくありません' }, 403)
+  }
+  const parsed = parseUserInput({ ...payload, role: 'admin' })
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+
+  const user = await createUser(c.env, parsed.value, { onlyIfNoUsers: true })
+  if (!user) {
+    return c.json({ error: 'ユーザーは既に登録されています' }, 409)
+  }
+  const session = await createSession(c.env, user.id, c.req.header('User-Agent'))
+  setSessionCookie(c, session.token)
+  return c.json({ user, token: session.token, expiresAt: session.expiresAt }, 201)
+})
+
+app.post('/api/auth/login', async (c) => {
+  const payload = await c.req.json().catch(() => null)
+  const email = typeof payload?.email === 'string' ? payload.email.trim() : ''
+  const password = typeof payload?.password === 'string' ? payload.password : ''
+  if (!email || !password) {
+    return c.json({ error: 'メールアドレスとパスワードを入力してください' }, 400)
+  }
+
+  const row = await c.env.DB.prepare('SELECT * FROM users WHERE email = ?').bind(email).first<UserRow>()
+  // Same message for unknown, disabled and wrong password so accounts cannot be probed
+  if (!row || row.disabled || !(await verifyPassword(password, row.password_hash))) {
+    return c.json({ error: 'メールアドレスまたはパスワードが正しくありません' }, 401)
+  }
+
+  const session = await createSession(c.env, row.id, c.req.header('User-Agent'))
+  setSessionCookie(c, session.token)
+  return c.json({ user: toUserRecord(row), token: session.token, expiresAt: session.expiresAt })
+})
+
+app.post('/api/auth/logout', async (c) => {
+  const token = getSessionToken(c.req.header('Authorization'), getCookie(c, SESSION_COOKIE_NAME))
+  if (token) {
+    await c.env.DB.prepare('DELETE FROM sessions WHERE id = ?').bind(await sha256Hex(token)).run()
+  }
+  deleteCookie(c, SESSION_COOKIE_NAME, { path: '/' })
+  return c.json({ success: true })
+})
+
+app.get('/api/auth/me', (c) => {
+  return c.json({ user: c.get('user') })
+})
+
+app.put('/api/auth/password', async (c) => {
+  const user = c.get('user')
+  const payload = await c.req.json().catch(() => null)
+  const currentPassword = typeof payload?.currentPassword === 'string' ? payload.currentPassword : ''
+  const newPassword = typeof payload?.newPassword === 'string' ? payload.newPassword : ''
+  if (newPassword.length < PASSWORD_MIN_LENGTH) {
+    return c.json({ error: `パスワードは${PASSWORD_MIN_LENGTH}文字以上で指定してください` }, 400)
+  }
+
+  const row = await c.env.DB.prepare('SELECT password_hash FROM users WHERE id = ?').bind(user.id).first<{ password_hash: string }>()
+  if (!row || !(await verifyPassword(currentPassword, row.password_hash))) {
+    return c.json({ error: '現在のパスワードが正しくありません' }, 400)
+  }
+
+  // Other sessions are signed out; the current one stays valid
+  const currentToken = getSessionToken(c.req.header('Authorization'), getCookie(c, SESSION_COOKIE_NAME)) ?? ''
+  const now = new Date().toISOString()
+  await c.env.DB.batch([
+    c.env.DB.prepare('UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?').bind(await hashPassword(newPassword), now, user.id),
+    c.env.DB.prepare('DELETE FROM sessions WHERE user_id = ? AND id != ?').bind(user.id, await sha256Hex(currentToken))
+  ])
+  return c.json({ success: true })
+})
+
+app.get('/api/users', requireRole('admin'), async (c) => {
+  const results = await c.env.DB.prepare('SELECT * FROM users ORDER BY created_at').all<UserRow>()
+  return c.json({ users: (results.results || []).map(toUserRecord) })
+})
+
+app.post('/api/users', requireRole('admin'), async (c) => {
+  const payload = await c.req.json().catch(() => null)
+  const parsed = parseUserInput(payload)
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+  const existing = await c.env.DB.prepare('SELECT id FROM users WHERE email = ?').bind(parsed.value.email).first()
+  if (existing) {
+    return c.json({ error: 'このメールアドレスは既に登録されています' }, 409)
+  }
+
+  const user = await createUser(c.env, parsed.value)
+  return c.json({ user }, 201)
+})
+
+app.patch('/api/users/:userId', requireRole('admin'), async (c) => {
+  const userId = c.req.param('userId')
+  const row = await c.env.DB.prepare('SELECT * FROM users WHERE id = ?').bind(userId).first<UserRow>()
+  if (!row) {
+    return c.json({ error: 'ユーザーが見つかりません' }, 404)
+  }
+
+  const payload = await c.req.json().catch(() => null)
+  const current = toUserRecord(row)
+  const displayName = typeof payload?.displayName === 'string' ? payload.displayName.trim() : current.displayName
+  const role = payload?.role ?? current.role
+  const disabled = typeof payload?.disabled === 'boolean' ? payload.disabled : current.disabled
+  const password = typeof payload?.password === 'string' ? payload.password : undefined
+
+  if (!displayName || displayName.length > CLIENT_FIELD_MAX_LENGTH) {
+    return c.json({ error: `displayNameは${CLIENT_FIELD_MAX_LENGTH}文字以内で指定してください` }, 400)
+  }
+  if (!USER_ROLES.includes(role)) {
+    return c.json({ error: `roleは${USER_ROLES.join(', ')}のいずれかを指定してください` }, 400)
+  }
+  if (password !== undefined && password.length < PASSWORD_MIN_LENGTH) {
+    return c.json({ error: `パスワードは${PASSWORD_MIN_LENGTH}文字以上で指定してください` }, 400)
+  }
+  // Keep at least one way back in: admins cannot demote or disable themselves
+  if (userId === c.get('user').id && (role !== 'admin' || disabled)) {
+    return c.json({ error: '自分自身の管理者権限は変更できません' }, 400)
+  }
+
+  const now = new Date().toISOString()
+  const statements = [
+    c.env.DB.prepare(
+      'UPDATE users SET display_name = ?, role = ?, disabled = ?, password_hash = ?, updated_at = ? WHERE id = ?'
+    ).bind(displayName, role, disabled ? 1 : 0, password !== undefined ? await hashPassword(password) : row.password_hash, now, userId)
+  ]
+  if (disabled || password !== undefined) {
+    statements.push(c.env.DB.prepare('DELETE FROM sessions WHERE user_id = ?').bind(userId))
+  }
+  await c.env.DB.batch(statements)
+
+  return c.json({ user: { ...current, displayName, role, disabled, updatedAt: now } })
+})
+
+app.get('/api/config', async (c) => {
   const config = getRuntimeConfig(c.env)
+  const models = await getModelSettings(c.env)
   return c.json({
     chunkSizeBytes: config.chunkSizeBytes,
     overlapSeconds: config.overlapSeconds,
+    chunkDurationSeconds: config.chunkDurationSeconds,
     transcriptionConcurrency: config.transcriptionConcurrency,
     chunkJobMaxAttempts: config.chunkJobMaxAttempts,
     uploadConcurrency: config.uploadConcurrency,
+    transcriptionOutputMode: config.transcriptionOutputMode,
+    transcriptionProvider: config.transcriptionProvider,
+    summarizationProvider: config.summarizationProvider,
+    transcriptionModel: getTranscriptionModelName(c.env, config.transcriptionProvider, models.transcriptionModel),
+    minutesModel: getSummarizationModelName(config.summarizationProvider, models.minutesModel),
     geminiFlashTimeoutMs: GEMINI_FLASH_TIMEOUT_MS,
     geminiProTimeoutMs: GEMINI_PRO_TIMEOUT_MS
   })
@@ -179,26 +977,68 @@ app.get('/api/config', (c) => {
 
 app.post('/api/tasks', async (c) => {
   const payload = await c.req.json().catch(() => null)
-  if (!payload || typeof payload.totalChunks !== 'number' || payload.totalChunks <= 0) {
+  // Server-side chunking (POST /api/tasks/:taskId/source) decides totalChunks after the upload
+  const serverChunking = payload?.chunking === 'server'
+  if (!payload || (!serverChunking && (typeof payload.totalChunks !== 'number' || payload.totalChunks <= 0))) {
     return c.json({ error: 'totalChunksは必須で、0より大きい値を指定してください' }, 400)
   }
+  const totalChunks = serverChunking ? 0 : payload.totalChunks
 
   const taskId = crypto.randomUUID()
   const now = new Date().toISOString()
   const filename = typeof payload.filename === 'string' ? payload.filename : null
   const durationMs = typeof payload.durationMs === 'number' ? payload.durationMs : null
+  const clientId = typeof payload.clientId === 'string' && payload.clientId ? payload.clientId : null
+  if (clientId && !(await getClient(c.env, clientId))) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
+  }
+  const transcriptionProvider = payload.transcriptionProvider ?? undefined
+  if (transcriptionProvider !== undefined && !TRANSCRIPTION_PROVIDERS.includes(transcriptionProvider)) {
+    return c.json({ error: `transcriptionProviderは${TRANSCRIPTION_PROVIDERS.join('・')}のいずれかを指定してください` }, 400)
+  }
+  const summarizationProvider = payload.summarizationProvider ?? undefined
+  if (summarizationProvider !== undefined && !SUMMARIZATION_PROVIDERS.includes(summarizationProvider)) {
+    return c.json({ error: `summarizationProviderは${SUMMARIZATION_PROVIDERS.join('・')}のいずれかを指定してください` }, 400)
+  }
+  // Model overrides pick a Gemini model, so they only apply when Gemini does the work
+  const config = getRuntimeConfig(c.env)
+  const transcriptionModel = payload.transcriptionModel ?? undefined
+  if (transcriptionModel !== undefined) {
+    if (!TRANSCRIPTION_MODEL_OPTIONS.includes(transcriptionModel)) {
+      return c.json({ error: `transcriptionModelは${TRANSCRIPTION_MODEL_OPTIONS.join('・')}のいずれかを指定してください` }, 400)
+    }
+    if ((transcriptionProvider ?? config.transcriptionProvider) !== 'gemini') {
+      return c.json({ error: 'transcriptionModelは文字起こしプロバイダーがgeminiの場合のみ指定できます' }, 400)
+    }
+  }
+  const minutesModel = payload.minutesModel ?? undefined
+  if (minutesModel !== undefined) {
+    if (!MINUTES_MODEL_OPTIONS.includes(minutesModel)) {
+      return c.json({ error: `minutesModelは${MINUTES_MODEL_OPTIONS.join('・')}のいずれかを指定してください` }, 400)
+    }
+    if ((summarizationProvider ?? config.summarizationProvider) !== 'gemini') {
+      return c.json({ error: 'minutesModelは議事録プロバイダーがgeminiの場合のみ指定できます' }, 400)
+    }
+  }
+  const ownerId = c.get('user').id
   
   await c.env.DB.prepare(
-    'INSERT INTO tasks (id, filename, total_chunks, processed_chunks, duration_ms, status, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
-  ).bind(taskId, filename, payload.totalChunks, 0, durationMs, 'initialized', now, now).run()
+    'INSERT INTO tasks (id, filename, total_chunks, processed_chunks, duration_ms, status, client_id, owner_id, transcription_provider, summarization_provider, transcription_model, minutes_model, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  ).bind(taskId, filename, totalChunks, 0, durationMs, 'initialized', clientId, ownerId, transcriptionProvider ?? null, summarizationProvider ?? null, transcriptionModel ?? null, minutesModel ?? null, now, now).run()
   
   const task: TaskRecord = {
     id: taskId,
     filename: filename || undefined,
-    totalChunks: payload.totalChunks,
+    totalChunks,
     processedChunks: 0,
     durationMs: durationMs || undefined,
     status: 'initialized',
+    clientId: clientId || undefined,
+    ownerId,
+    transcriptionProvider,
+    summarizationProvider,
+    transcriptionModel,
+    minutesModel,
     createdAt: now,
     updatedAt: now
   }
@@ -209,7 +1049,9 @@ app.post('/api/tasks', async (c) => {
     context: {
       totalChunks: task.totalChunks,
       filename: task.filename,
-      durationMs: task.durationMs
+      durationMs: task.durationMs,
+      clientId: task.clientId,
+      ownerId
     }
   })
 
@@ -237,9 +1079,8 @@ app.post('/api/tasks/:taskId/original-audio', async (c) => {
   
   // Save original audio to R2
   const r2Key = `${taskId}/merged.webm`
-  const audioBuffer = await audio.arrayBuffer()
   
-  await c.env.AUDIO_CHUNKS.put(r2Key, audioBuffer, {
+  await c.env.AUDIO_CHUNKS.put(r2Key, audio, {
     httpMetadata: {
       contentType: audio.type || 'audio/webm'
     },
@@ -264,29 +1105,332 @@ app.post('/api/tasks/:taskId/original-audio', async (c) => {
   return c.json({ success: true, r2Key })
 })
 
-app.get('/api/tasks/:taskId/status', async (c) => {
+// Resumable upload of the original audio: create (or resume) → PUT numbered parts → complete
+app.post('/api/tasks/:taskId/uploads', async (c) => {
   const taskId = c.req.param('taskId')
   const task = await getTask(c.env, taskId)
   if (!task) {
     return c.json({ error: 'タスクが見つかりません' }, 404)
   }
 
-  const transcriptResult = await c.env.DB.prepare(
-    'SELECT task_id FROM transcripts WHERE task_id = ?'
-  ).bind(taskId).first()
-  const minutesResult = await c.env.DB.prepare(
-    'SELECT task_id FROM minutes WHERE task_id = ?'
-  ).bind(taskId).first()
-  const logs = await getTaskLogs(c.env, taskId, 40)
-  const chunkSummary = await getChunkSummary(c.env, taskId)
+  const payload = await c.req.json().catch(() => ({}))
+  const contentType = typeof payload?.contentType === 'string' && payload.contentType ? payload.contentType : 'application/octet-stream'
+  const filename = typeof payload?.filename === 'string' && payload.filename ? payload.filename : task.filename ?? null
+  const totalSize = payload?.totalSize ?? null
+  if (totalSize !== null && (!Number.isInteger(totalSize) || totalSize <= 0)) {
+    return c.json({ error: 'totalSizeは正の整数で指定してください' }, 400)
+  }
+  const partSize = payload?.partSize ?? SOURCE_UPLOAD_PART_SIZE
+  if (!Number.isInteger(partSize) || partSize < MIN_UPLOAD_PART_SIZE || partSize > MAX_UPLOAD_PART_SIZE) {
+    return c.json({ error: `partSizeは${MIN_UPLOAD_PART_SIZE}〜${MAX_UPLOAD_PART_SIZE}の整数を指定してください` }, 400)
+  }
+  if (totalSize !== null && Math.ceil(totalSize / partSize) > MAX_UPLOAD_PARTS) {
+    return c.json({ error: `パート数が上限（${MAX_UPLOAD_PARTS}）を超えます。partSizeを大きくしてください` }, 400)
+  }
 
-  return c.json({
-    task,
-    hasMergedTranscript: transcriptResult !== null,
-    hasMinutes: minutesResult !== null,
-    logs,
-    chunkSummary
-  })
+  // A client that reconnects gets the upload it already started instead of a new one
+  const active = await c.env.DB.prepare(
+    "SELECT * FROM uploads WHERE task_id = ? AND status = 'uploading' ORDER BY created_at DESC LIMIT 1"
+  ).bind(taskId).first<UploadRow>()
+  if (active) {
+    return c.json({ upload: await getUploadProgress(c.env, toUploadRecord(active)), resumed: true })
+  }
+
+  const r2Key = `${taskId}/merged.webm`
+  const multipart = await c.env.AUDIO_CHUNKS.createMultipartUpload(r2Key, {
+    httpMetadata: { contentType },
+    customMetadata: { taskId, filename: filename || '', uploadedAt: new Date().toISOString() }
+  })
+  const uploadId = crypto.randomUUID()
+  const now = new Date().toISOString()
+  await c.env.DB.prepare(
+    `INSERT INTO uploads (id, task_id, r2_key, r2_upload_id, filename, content_type, total_size, part_size, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'uploading', ?, ?)`
+  ).bind(uploadId, taskId, r2Key, multipart.uploadId, filename, contentType, totalSize, partSize, now, now).run()
+
+  await appendTaskLog(c.env, taskId, {
+    level: 'info',
+    message: 'Resumable upload started',
+    context: { uploadId, totalSize, partSize, contentType }
+  })
+
+  const upload = await getUploadRow(c.env, taskId, uploadId)
+  return c.json({ upload: await getUploadProgress(c.env, toUploadRecord(upload!)), resumed: false }, 201)
+})
+
+app.get('/api/tasks/:taskId/uploads/:uploadId', async (c) => {
+  const upload = await getUploadRow(c.env, c.req.param('taskId'), c.req.param('uploadId'))
+  if (!upload) {
+    return c.json({ error: 'アップロードが見つかりません' }, 404)
+  }
+  return c.json({ upload: await getUploadProgress(c.env, toUploadRecord(upload)) })
+})
+
+// Parts may arrive in any order and be sent again; the latest copy of a part number wins
+app.put('/api/tasks/:taskId/uploads/:uploadId/parts/:partNumber', async (c) => {
+  const taskId = c.req.param('taskId')
+  const upload = await getUploadRow(c.env, taskId, c.req.param('uploadId'))
+  if (!upload) {
+    return c.json({ error: 'アップロードが見つかりません' }, 404)
+  }
+  if (upload.status !== 'uploading') {
+    return c.json({ error: `このアップロードは${upload.status === 'completed' ? '完了' : '中止'}済みです` }, 409)
+  }
+
+  const partNumber = Number(c.req.param('partNumber'))
+  const expectedParts = upload.total_size !== null ? Math.ceil(upload.total_size / upload.part_size) : MAX_UPLOAD_PARTS
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > expectedParts) {
+    return c.json({ error: `パート番号は1〜${expectedParts}の整数を指定してください` }, 400)
+  }
+
+  const body = await c.req.arrayBuffer()
+  const isLastPart = upload.total_size !== null && partNumber === expectedParts
+  const expectedSize = isLastPart ? upload.total_size! - (expectedParts - 1) * upload.part_size : upload.part_size
+  // Without a total size the last part can only be recognized at completion, so shorter parts are accepted here
+  if (body.byteLength === 0 || body.byteLength > upload.part_size || (upload.total_size !== null && body.byteLength !== expectedSize)) {
+    return c.json({ error: `パート${partNumber}のサイズが不正です`, expectedSizeBytes: expectedSize, receivedSizeBytes: body.byteLength }, 400)
+  }
+
+  try {
+    const part = await c.env.AUDIO_CHUNKS.resumeMultipartUpload(upload.r2_key, upload.r2_upload_id).uploadPart(partNumber, body)
+    const now = new Date().toISOString()
+    await c.env.DB.batch([
+      c.env.DB.prepare(
+        'INSERT OR REPLACE INTO upload_parts (upload_id, task_id, part_number, etag, size_bytes, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+      ).bind(upload.id, taskId, partNumber, part.etag, body.byteLength, now),
+      c.env.DB.prepare('UPDATE uploads SET updated_at = ? WHERE id = ?').bind(now, upload.id)
+    ])
+    return c.json({ partNumber, sizeBytes: body.byteLength, etag: part.etag })
+  } catch (error) {
+    console.error('Failed to upload part:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({
+      error: 'Failed to upload part',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+app.post('/api/tasks/:taskId/uploads/:uploadId/complete', async (c) => {
+  const taskId = c.req.param('taskId')
+  const row = await getUploadRow(c.env, taskId, c.req.param('uploadId'))
+  if (!row) {
+    return c.json({ error: 'アップロードが見つかりません' }, 404)
+  }
+  const upload = toUploadRecord(row)
+  if (upload.status === 'completed') {
+    return c.json({ upload: await getUploadProgress(c.env, upload) })
+  }
+  if (upload.status === 'aborted') {
+    return c.json({ error: 'このアップロードは中止済みです' }, 409)
+  }
+
+  const progress = await getUploadProgress(c.env, upload)
+  const lastPartNumber = progress.expectedParts ?? progress.parts.length
+  const missingParts = progress.missingParts ?? progress.parts
+    .map((_, index) => index + 1)
+    .filter((partNumber, index) => progress.parts[index].partNumber !== partNumber)
+  const shortParts = progress.parts
+    .filter(part => part.partNumber < lastPartNumber && part.sizeBytes !== upload.partSize)
+    .map(part => part.partNumber)
+  if (progress.parts.length === 0 || missingParts.length > 0 || shortParts.length > 0) {
+    return c.json({ error: '未送信または不完全なパートがあります', missingParts, shortParts }, 409)
+  }
+
+  try {
+    const etags = await c.env.DB.prepare(
+      'SELECT part_number, etag FROM upload_parts WHERE upload_id = ? ORDER BY part_number'
+    ).bind(upload.id).all<{ part_number: number; etag: string }>()
+    const object = await c.env.AUDIO_CHUNKS.resumeMultipartUpload(upload.r2Key, row.r2_upload_id).complete(
+      (etags.results ?? []).map(part => ({ partNumber: part.part_number, etag: part.etag }))
+    )
+    const now = new Date().toISOString()
+    await c.env.DB.prepare(
+      "UPDATE uploads SET status = 'completed', total_size = ?, completed_at = ?, updated_at = ? WHERE id = ?"
+    ).bind(object.size, now, now, upload.id).run()
+
+    await appendTaskLog(c.env, taskId, {
+      level: 'info',
+      message: 'Resumable upload completed',
+      context: { uploadId: upload.id, r2Key: upload.r2Key, sizeBytes: object.size, parts: progress.parts.length }
+    })
+
+    const completed = await getUploadRow(c.env, taskId, upload.id)
+    return c.json({ upload: await getUploadProgress(c.env, toUploadRecord(completed!)) })
+  } catch (error) {
+    console.error('Failed to complete upload:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({
+      error: 'Failed to complete upload',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+app.delete('/api/tasks/:taskId/uploads/:uploadId', async (c) => {
+  const taskId = c.req.param('taskId')
+  const upload = await getUploadRow(c.env, taskId, c.req.param('uploadId'))
+  if (!upload) {
+    return c.json({ error: 'アップロードが見つかりません' }, 404)
+  }
+  if (upload.status !== 'uploading') {
+    return c.json({ error: `このアップロードは${upload.status === 'completed' ? '完了' : '中止'}済みです` }, 409)
+  }
+
+  await c.env.AUDIO_CHUNKS.resumeMultipartUpload(upload.r2_key, upload.r2_upload_id).abort()
+  const now = new Date().toISOString()
+  await c.env.DB.batch([
+    c.env.DB.prepare('DELETE FROM upload_parts WHERE upload_id = ?').bind(upload.id),
+    c.env.DB.prepare("UPDATE uploads SET status = 'aborted', updated_at = ? WHERE id = ?").bind(now, upload.id)
+  ])
+  await appendTaskLog(c.env, taskId, {
+    level: 'info',
+    message: 'Resumable upload aborted',
+    context: { uploadId: upload.id }
+  })
+  return c.json({ success: true })
+})
+
+// Upload the whole recording and let the server cut chunks on the audio timeline (WebM/Ogg/MP3/WAV)
+app.post('/api/tasks/:taskId/source', async (c) => {
+  const taskId = c.req.param('taskId')
+
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+  if (task.status !== 'initialized') {
+    return c.json({ error: 'このタスクは既に音声がアップロードされています' }, 409)
+  }
+
+  // The original is stored under the same key as /original-audio so playback and reprocess keep working
+  const r2Key = `${taskId}/merged.webm`
+  const contentType = c.req.header('Content-Type') || ''
+  let filename = task.filename
+
+  if (contentType.startsWith('application/json')) {
+    // The file was already stored through a resumable upload (POST /api/tasks/:taskId/uploads)
+    const payload = await c.req.json().catch(() => null)
+    const upload = typeof payload?.uploadId === 'string' ? await getUploadRow(c.env, taskId, payload.uploadId) : null
+    if (!upload) {
+      return c.json({ error: 'アップロードが見つかりません' }, 404)
+    }
+    if (upload.status !== 'completed') {
+      return c.json({ error: 'アップロードが完了していません' }, 409)
+    }
+  } else if (contentType.startsWith('multipart/form-data')) {
+    const formData = await c.req.formData().catch(() => null)
+    const audio = formData?.get('audio')
+    if (!(audio instanceof File)) {
+      return c.json({ error: '音声ファイルが必要です' }, 400)
+    }
+    filename = filename || audio.name
+    await c.env.AUDIO_CHUNKS.put(r2Key, audio, {
+      httpMetadata: { contentType: audio.type || 'application/octet-stream' },
+      customMetadata: { taskId, filename: filename || '', uploadedAt: new Date().toISOString() }
+    })
+  } else if (contentType.startsWith('audio/') || contentType.startsWith('application/octet-stream')) {
+    if (!c.req.raw.body) {
+      return c.json({ error: '音声ファイルが必要です' }, 400)
+    }
+    await putStreamAsMultipart(c.env, r2Key, c.req.raw.body, {
+      httpMetadata: { contentType },
+      customMetadata: { taskId, filename: filename || '', uploadedAt: new Date().toISOString() }
+    })
+  } else {
+    return c.json({ error: 'multipart/form-data、音声ファイルの本文、または{ uploadId }を送信してください' }, 415)
+  }
+
+  const source = await c.env.AUDIO_CHUNKS.head(r2Key)
+  if (!source || source.size === 0) {
+    return c.json({ error: '音声ファイルが空です' }, 400)
+  }
+
+  try {
+    const layout = await analyzeAudioContainer(createR2RangeReader(c.env, source))
+    if (!layout) {
+      await appendTaskLog(c.env, taskId, {
+        level: 'warn',
+        message: 'Source audio format not supported for server-side chunking',
+        context: { r2Key, sizeBytes: source.size, contentType }
+      })
+      return c.json({ error: '対応していない音声形式です（WebM・Ogg・MP3・WAVに対応）' }, 415)
+    }
+
+    const config = getRuntimeConfig(c.env)
+    const chunkDurationMs = getContainerChunkDurationMs(layout, config, config.chunkSizeBytes)
+    const plans = planContainerChunks(layout, { chunkDurationMs, overlapMs: config.overlapSeconds * 1000 })
+    const durationMs = Math.round(layout.durationMs)
+    const now = new Date().toISOString()
+
+    // Claim the task so a concurrent upload cannot queue a second set of chunks
+    const claimed = await c.env.DB.prepare(
+      "UPDATE tasks SET total_chunks = ?, duration_ms = ?, status = 'transcribing', merge_on_complete = 1, updated_at = ? WHERE id = ? AND status = 'initialized'"
+    ).bind(plans.length, durationMs, now, taskId).run()
+    if (!claimed.meta.changes) {
+      return c.json({ error: 'このタスクは既に音声がアップロードされています' }, 409)
+    }
+
+    await queueAudioChunks(c.env, taskId, source, plans, {
+      mimeType: layout.mimeType,
+      extension: layout.extension,
+      keyPrefix: `source-${Date.now().toString(36)}`
+    })
+
+    await appendTaskLog(c.env, taskId, {
+      level: 'info',
+      message: 'Source audio chunked on the server',
+      context: {
+        format: layout.format,
+        sizeBytes: source.size,
+        durationMs,
+        totalChunks: plans.length,
+        chunkDurationMs,
+        overlapSeconds: config.overlapSeconds
+      }
+    })
+
+    return c.json({
+      taskId,
+      format: layout.format,
+      durationMs,
+      totalChunks: plans.length,
+      chunks: plans.map((plan, index) => ({ index, startMs: plan.startMs, endMs: plan.endMs, sizeBytes: plan.prefix.length + plan.length }))
+    }, 202)
+  } catch (error) {
+    console.error('Failed to chunk source audio:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    await setTaskError(c.env, taskId, errorMessage)
+    return c.json({
+      error: 'Failed to chunk source audio',
+      details: errorMessage
+    }, 500)
+  }
+})
+
+app.get('/api/tasks/:taskId/status', async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const transcriptResult = await c.env.DB.prepare(
+    'SELECT task_id FROM transcripts WHERE task_id = ?'
+  ).bind(taskId).first()
+  const minutesResult = await c.env.DB.prepare(
+    'SELECT task_id FROM minutes WHERE task_id = ?'
+  ).bind(taskId).first()
+  const logs = await getTaskLogs(c.env, taskId, 40)
+  const chunkSummary = await getChunkSummary(c.env, taskId)
+
+  return c.json({
+    task,
+    hasMergedTranscript: transcriptResult !== null,
+    hasMinutes: minutesResult !== null,
+    logs,
+    chunkSummary
+  })
 })
 
 app.get('/api/tasks/:taskId/logs', async (c) => {
@@ -389,9 +1533,9 @@ app.post('/api/tasks/:taskId/chunks', async (c) => {
     return c.json({ error: 'startMsとendMsは有効な数値を指定してください' }, 400)
   }
 
-  const apiKey = c.env.GEMINI_API_KEY
-  if (!apiKey) {
-    return c.json({ error: 'Gemini APIキーが設定されていません' }, 500)
+  const models = await getModelSettings(c.env, task)
+  if (!getTranscriptionProvider(c.env, task.transcriptionProvider, models.transcriptionModel)) {
+    return c.json({ error: '文字起こしプロバイダーのAPIキーが設定されていません' }, 500)
   }
 
   const existingChunk = await getChunk(c.env, taskId, chunkIndex)
@@ -497,158 +1641,287 @@ app.post('/api/tasks/:taskId/merge', async (c) => {
     return c.json({ error: 'タスクが見つかりません' }, 404)
   }
 
-  const summary = await getChunkSummary(c.env, taskId)
-  const totalChunks = task.totalChunks
-  const pendingChunks = (summary.processing ?? 0) + (summary.queued ?? 0)
-  const completedChunks = summary.completed ?? 0
-  const summaryTotal = summary.total ?? 0
-
-  if ((summary.error ?? 0) > 0) {
-    await appendTaskLog(c.env, taskId, {
-      level: 'warn',
-      message: 'Transcript merge blocked: chunk errors remain',
-      context: {
-        summary
-      }
-    })
-    return c.json({
-      error: '一部のチャンクの文字起こしに失敗しました。失敗したチャンクを再試行してください。',
-      chunkSummary: summary
-    }, 409)
+  const result = await mergeTaskTranscript(c.env, task)
+  if (!result.ok) {
+    return c.json(result.body, result.status)
   }
 
-  if (totalChunks === 0) {
-    return c.json({ error: 'マージするチャンクがありません' }, 400)
+  return c.json({ 
+    transcript: result.transcript,
+    speakers: result.speakers,
+    debug: result.debug
+  })
+})
+
+app.get('/api/tasks/:taskId/chunks', async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
   }
 
-  if (pendingChunks > 0 || completedChunks < totalChunks || summaryTotal < totalChunks) {
-    await appendTaskLog(c.env, taskId, {
-      level: 'info',
-      message: 'Transcript merge deferred: chunks still pending',
-      context: {
-        summary
-      }
-    })
-    return c.json({
-      error: 'Transcription is not complete yet',
-      chunkSummary: summary
-    }, 409)
+  const chunks = await listTaskChunks(c.env, task)
+  return c.json({ chunks, chunkSummary: await getChunkSummary(c.env, taskId) })
+})
+
+// Recorded Gemini tokens and cost of the task, by model and by chunk (retries included)
+app.get('/api/tasks/:taskId/costs', async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
   }
 
-  await appendTaskLog(c.env, taskId, {
-    level: 'info',
-    message: 'Transcript merge started',
-    context: {
-      totalChunks: task.totalChunks
-    }
+  const [totals, byModel, byChunk] = await c.env.DB.batch([
+    c.env.DB.prepare(`SELECT ${API_CALL_TOTALS_COLUMNS} FROM api_calls WHERE task_id = ?`).bind(taskId),
+    c.env.DB.prepare(
+      `SELECT kind, model, ${API_CALL_TOTALS_COLUMNS} FROM api_calls WHERE task_id = ? GROUP BY kind, model ORDER BY kind, model`
+    ).bind(taskId),
+    c.env.DB.prepare(
+      `SELECT chunk_index, ${API_CALL_TOTALS_COLUMNS} FROM api_calls
+       WHERE task_id = ? AND chunk_index IS NOT NULL GROUP BY chunk_index ORDER BY chunk_index`
+    ).bind(taskId)
+  ])
+
+  return c.json({
+    taskId,
+    clientId: task.clientId,
+    totals: toApiCallTotals(totals.results?.[0] as Record<string, unknown>),
+    byModel: (byModel.results as Array<Record<string, unknown>>).map(row => ({
+      kind: row.kind as ApiCallKind,
+      model: row.model as string,
+      ...toApiCallTotals(row)
+    })),
+    chunks: (byChunk.results as Array<Record<string, unknown>>).map(row => ({
+      chunkIndex: row.chunk_index as number,
+      ...toApiCallTotals(row)
+    }))
   })
+})
 
-  const chunkRecords: ChunkRecord[] = []
-  for (let i = 0; i < task.totalChunks; i++) {
-    const record = await getChunk(c.env, taskId, i)
-    if (!record) {
-      // Get existing state from DB
-      const stateResult = await c.env.DB.prepare(
-        'SELECT status, updated_at FROM chunk_states WHERE task_id = ? AND chunk_index = ?'
-      ).bind(taskId, i).first<{ status: ChunkJobStatus, updated_at: string }>()
-      
-      await saveChunkState(c.env, taskId, {
-        index: i,
-        status: 'error',
-        attempts: 0,
-        updatedAt: new Date().toISOString(),
-        lastError: 'Chunk missing before merge'
-      })
-      await appendTaskLog(c.env, taskId, {
-        level: 'error',
-        message: 'Transcript merge failed: chunk missing',
-        context: {
-          chunkIndex: i
-        }
-      })
-      const updatedSummary = await getChunkSummary(c.env, taskId)
-      return c.json({
-        error: `Missing chunk ${i}. Please reprocess this chunk.`,
-        chunkIndex: i,
-        chunkSummary: updatedSummary
-      }, 409)
-    }
-    chunkRecords.push(record)
+// Retry (or retranscribe a completed) chunk from its stored R2 audio, optionally with another model or extra instructions
+app.post('/api/tasks/:taskId/chunks/:index/retry', auditAction('chunk.retry'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const chunkIndex = Number(c.req.param('index'))
+  if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= task.totalChunks) {
+    return c.json({ error: `チャンク番号は0〜${task.totalChunks - 1}の整数を指定してください` }, 400)
+  }
+
+  const payload = await c.req.json().catch(() => ({}))
+  const model = payload?.model ?? undefined
+  if (model !== undefined && !TRANSCRIPTION_MODEL_OPTIONS.includes(model)) {
+    return c.json({ error: `modelは${TRANSCRIPTION_MODEL_OPTIONS.join('・')}のいずれかを指定してください` }, 400)
+  }
+  const instructions = typeof payload?.prompt === 'string' ? payload.prompt.trim() : ''
+  if (instructions.length > CHUNK_RETRY_INSTRUCTIONS_MAX_LENGTH) {
+    return c.json({ error: `promptは${CHUNK_RETRY_INSTRUCTIONS_MAX_LENGTH}文字以内で指定してください` }, 400)
+  }
+  const skipPreflight = payload?.skipPreflight === true
+
+  const job = await c.env.DB.prepare(
+    'SELECT start_ms, end_ms, mime_type, r2_key, size_bytes, model, status, updated_at FROM chunk_jobs WHERE task_id = ? AND chunk_index = ?'
+  ).bind(taskId, chunkIndex).first<{
+    start_ms: number
+    end_ms: number
+    mime_type: string
+    r2_key: string | null
+    size_bytes: number
+    model: string | null
+    status: ChunkJobStatus
+    updated_at: string
+  }>()
+  if (!job) {
+    const completed = await getChunk(c.env, taskId, chunkIndex)
+    return completed
+      ? c.json({ error: 'このチャンクの音声は保存されていないため再文字起こしできません。タスクを再処理してください' }, 409)
+      : c.json({ error: 'チャンクの処理ジョブが見つかりません。音声を再アップロードするか、タスクを再処理してください' }, 404)
+  }
+  if (job.status === 'processing' && Date.now() - new Date(job.updated_at).getTime() < CHUNK_PROCESSING_STALE_MS) {
+    return c.json({ error: 'このチャンクは処理中です。しばらく待ってから再試行してください' }, 409)
+  }
+  if (!job.r2_key || !(await c.env.AUDIO_CHUNKS.head(job.r2_key))) {
+    return c.json({ error: 'チャンクの音声が見つかりません。タスクを再処理してください' }, 410)
   }
 
-  const result = mergeChunks(chunkRecords)
   const now = new Date().toISOString()
-  
-  // Save transcript to D1
+  const retryModel = model ?? job.model ?? undefined
+  const models = await getModelSettings(c.env, task)
   await c.env.DB.prepare(
-    'INSERT OR REPLACE INTO transcripts (task_id, content, created_at) VALUES (?, ?, ?)'
-  ).bind(taskId, result.merged, now).run()
+    `UPDATE chunk_jobs SET attempts = 0, status = 'queued', last_error = NULL, processing_by = NULL, retry_at = NULL, model = ?, updated_at = ?
+     WHERE task_id = ? AND chunk_index = ?`
+  ).bind(retryModel ?? null, now, taskId, chunkIndex).run()
+  await saveChunkState(c.env, taskId, {
+    index: chunkIndex,
+    status: 'queued',
+    attempts: 0,
+    updatedAt: now
+  })
+  if (job.status === 'completed') {
+    // Retranscribing a finished chunk: drop its result and merge again (with new minutes) once it is done
+    await c.env.DB.batch([
+      c.env.DB.prepare('DELETE FROM chunks WHERE task_id = ? AND chunk_index = ?').bind(taskId, chunkIndex),
+      c.env.DB.prepare('DELETE FROM transcript_segments WHERE task_id = ? AND chunk_index = ?').bind(taskId, chunkIndex),
+      c.env.DB.prepare(
+        "UPDATE tasks SET status = 'transcribing', error = NULL, merge_on_complete = 1, updated_at = ? WHERE id = ?"
+      ).bind(now, taskId)
+    ])
+  } else if (task.status === 'error') {
+    await c.env.DB.prepare(
+      "UPDATE tasks SET status = 'transcribing', error = NULL, updated_at = ? WHERE id = ?"
+    ).bind(now, taskId).run()
+  }
+
+  await c.env.TRANSCRIPTION_QUEUE.send({
+    taskId,
+    chunkIndex,
+    r2Key: job.r2_key,
+    startMs: job.start_ms,
+    endMs: job.end_ms,
+    mimeType: job.mime_type,
+    sizeBytes: job.size_bytes,
+    model: retryModel,
+    instructions: instructions || undefined,
+    skipPreflight: skipPreflight || undefined
+  })
 
-  // Update task status
-  await c.env.DB.prepare(
-    'UPDATE tasks SET processed_chunks = ?, status = ?, updated_at = ? WHERE id = ?'
-  ).bind(totalChunks, 'transcribed', now, taskId).run()
   await appendTaskLog(c.env, taskId, {
     level: 'info',
-    message: 'Transcript merge completed',
+    message: 'Chunk retry queued',
     context: {
-      totalChunks: task.totalChunks,
-      skippedLines: result.debug.skippedLines.length,
-      chunkInfo: result.debug.chunkInfo
+      chunkIndex,
+      previousStatus: job.status,
+      model: retryModel ?? models.transcriptionModel,
+      hasInstructions: instructions.length > 0,
+      skipPreflight
     }
   })
-  
-  // Auto-generate minutes after transcript merge
-  try {
-    const apiKey = c.env.GEMINI_API_KEY
-    if (apiKey) {
-      await appendTaskLog(c.env, taskId, {
-        level: 'info',
-        message: 'Auto-generating minutes after transcript merge',
-        context: {}
-      })
-      
-      const minutesContent = await callGeminiMinutes(c.env, taskId, {
-        apiKey,
-        transcript: result.merged,
-        filename: task.filename,
-        durationMs: task.durationMs
-      })
-      
-      await c.env.DB.prepare(
-        'INSERT OR REPLACE INTO minutes (task_id, content, created_at) VALUES (?, ?, ?)'
-      ).bind(taskId, minutesContent, now).run()
-      
-      await c.env.DB.prepare(
-        'UPDATE tasks SET status = ?, updated_at = ? WHERE id = ?'
-      ).bind('completed', now, taskId).run()
-      
-      await appendTaskLog(c.env, taskId, {
-        level: 'info',
-        message: 'Minutes auto-generation completed',
-        context: {
-          minutesLength: minutesContent.length
-        }
+
+  return c.json({
+    chunkIndex,
+    r2Key: job.r2_key,
+    model: retryModel ?? models.transcriptionModel,
+    queuedAt: now
+  }, 202)
+})
+
+app.get('/api/tasks/:taskId/speakers', async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const speakers = await getTaskSpeakers(c.env, taskId)
+  return c.json({ speakers })
+})
+
+// Rename a speaker label across the transcript and the minutes
+app.put('/api/tasks/:taskId/speakers', auditAction('speakers.rename'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const payload = await c.req.json().catch(() => null)
+  const label = typeof payload?.label === 'string' ? payload.label.trim() : ''
+  const displayName = typeof payload?.displayName === 'string' ? payload.displayName.trim() : ''
+  if (!label) {
+    return c.json({ error: 'labelは必須です' }, 400)
+  }
+  if (!displayName || displayName.length > SPEAKER_NAME_MAX_LENGTH || /[:：\r\n]/.test(displayName)) {
+    return c.json({ error: `displayNameは${SPEAKER_NAME_MAX_LENGTH}文字以内で、コロンや改行を含めずに指定してください` }, 400)
+  }
+
+  const speakers = await getTaskSpeakers(c.env, taskId)
+  const speaker = speakers.find((item) => item.label === label)
+  if (!speaker) {
+    return c.json({ error: '話者が見つかりません' }, 404)
+  }
+  // Two speakers with one name could no longer be told apart (or separated again) in the transcript
+  if (speakers.some((item) => item.label !== label && (item.label === displayName || item.displayName === displayName))) {
+    return c.json({ error: 'この名前は別の話者に使われています' }, 409)
+  }
+
+  const previousName = speaker.displayName ?? speaker.label
+  const now = new Date().toISOString()
+  let transcriptLines = 0
+  let minutesUpdated = false
+
+  if (previousName !== displayName) {
+    const transcriptResult = await c.env.DB.prepare(
+      'SELECT content FROM transcripts WHERE task_id = ?'
+    ).bind(taskId).first<{ content: string }>()
+    if (transcriptResult) {
+      const renamed = relabelSpeakers(transcriptResult.content, (name) => {
+        if (name !== previousName) return name
+        transcriptLines += 1
+        return displayName
       })
+      if (transcriptLines > 0) {
+        await ensureTranscriptBaseline(c.env, taskId, transcriptResult.content)
+        await c.env.DB.prepare(
+          'UPDATE transcripts SET content = ? WHERE task_id = ?'
+        ).bind(renamed, taskId).run()
+        await saveTranscriptRevision(c.env, taskId, {
+          content: renamed,
+          source: 'speaker_rename',
+          diff: diffTranscriptLines(transcriptResult.content, renamed),
+          author: getRevisionAuthor(c.get('user'))
+        })
+      }
     }
-  } catch (error) {
-    // Log error but don't fail the merge
-    await appendTaskLog(c.env, taskId, {
-      level: 'warn',
-      message: 'Minutes auto-generation failed',
-      context: {
-        error: error instanceof Error ? error.message : 'Unknown error'
+
+    const minutesResult = await c.env.DB.prepare(
+      'SELECT content FROM minutes WHERE task_id = ?'
+    ).bind(taskId).first<{ content: string }>()
+    if (minutesResult) {
+      const renamedMinutes = renameSpeakerInText(minutesResult.content, previousName, displayName)
+      if (renamedMinutes !== minutesResult.content) {
+        const saved = await saveMinutesVersion(c.env, taskId, {
+          content: renamedMinutes,
+          source: 'manual',
+          author: getRevisionAuthor(c.get('user'))
+        })
+        // A finalized version stays current, so the rename only lands in a new draft version
+        minutesUpdated = saved.isCurrent
       }
-    })
+    }
   }
 
-  return c.json({ 
-    transcript: result.merged,
-    debug: result.debug
+  await c.env.DB.prepare(
+    'UPDATE speakers SET display_name = ?, updated_at = ? WHERE task_id = ? AND label = ?'
+  ).bind(displayName, now, taskId, label).run()
+
+  await appendTaskLog(c.env, taskId, {
+    level: 'info',
+    message: 'Speaker renamed',
+    context: {
+      label,
+      previousName,
+      displayName,
+      transcriptLines,
+      minutesUpdated
+    }
+  })
+
+  return c.json({
+    speaker: {
+      ...speaker,
+      displayName,
+      updatedAt: now
+    },
+    transcriptLines,
+    minutesUpdated
   })
 })
 
-app.get('/api/tasks/:taskId/transcript', async (c) => {
+app.get('/api/tasks/:taskId/transcript', auditAction((c) => c.req.query('export') ? 'transcript.export' : 'transcript.read'), async (c) => {
   const taskId = c.req.param('taskId')
   const result = await c.env.DB.prepare(
     'SELECT content FROM transcripts WHERE task_id = ?'
@@ -660,8 +1933,252 @@ app.get('/api/tasks/:taskId/transcript', async (c) => {
   return c.json({ transcript: result.content })
 })
 
+// Edit the transcript: full replacement ({ content }) or per-line ({ edits: [{ line, text }] })
+app.patch('/api/tasks/:taskId/transcript', auditAction('transcript.edit'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const payload = await c.req.json().catch(() => null)
+  if (!payload || typeof payload !== 'object') {
+    return c.json({ error: '無効なJSONペイロードです' }, 400)
+  }
+
+  const current = await c.env.DB.prepare(
+    'SELECT content FROM transcripts WHERE task_id = ?'
+  ).bind(taskId).first<{ content: string }>()
+  if (!current) {
+    return c.json({ error: '文字起こしが見つかりません' }, 404)
+  }
+
+  await ensureTranscriptBaseline(c.env, taskId, current.content)
+  const latestRevision = await getLatestTranscriptRevision(c.env, taskId)
+  if (payload.baseRevision !== undefined && payload.baseRevision !== latestRevision) {
+    return c.json({
+      error: '文字起こしが他のユーザーにより更新されています。最新の内容を取得してから再度編集してください。',
+      currentRevision: latestRevision
+    }, 409)
+  }
+
+  let content: string
+  let diff: LineDiffHunk[]
+  if (typeof payload.content === 'string') {
+    content = payload.content.replace(/\r\n/g, '\n')
+    diff = diffTranscriptLines(current.content, content)
+  } else if (Array.isArray(payload.edits) && payload.edits.length > 0) {
+    const lines = current.content.split('\n')
+    diff = []
+    for (const edit of payload.edits) {
+      const line = Number(edit?.line)
+      if (!Number.isInteger(line) || line < 1 || line > lines.length) {
+        return c.json({ error: `lineは1〜${lines.length}の整数を指定してください` }, 400)
+      }
+      if (typeof edit.text !== 'string' || /[\r\n]/.test(edit.text)) {
+        return c.json({ error: 'textは改行を含まない文字列を指定してください' }, 400)
+      }
+      if (lines[line - 1] === edit.text) continue
+      diff.push({ line, removed: [lines[line - 1]], added: [edit.text] })
+      lines[line - 1] = edit.text
+    }
+    content = lines.join('\n')
+  } else {
+    return c.json({ error: 'contentまたはeditsを指定してください' }, 400)
+  }
+
+  if (!content.trim()) {
+    return c.json({ error: '文字起こしを空にすることはできません' }, 400)
+  }
+  if (diff.length === 0) {
+    return c.json({ transcript: current.content, revision: latestRevision, unchanged: true })
+  }
+
+  await c.env.DB.prepare(
+    'UPDATE transcripts SET content = ? WHERE task_id = ?'
+  ).bind(content, taskId).run()
+  const revision = await saveTranscriptRevision(c.env, taskId, {
+    content,
+    source: 'manual',
+    diff,
+    author: getRevisionAuthor(c.get('user'))
+  })
+  await rebuildSegmentsFromTranscript(c.env, taskId, content)
+
+  await appendTaskLog(c.env, taskId, {
+    level: 'info',
+    message: 'Transcript edited',
+    context: {
+      revision: revision.revision,
+      author: revision.author,
+      hunks: diff.length
+    }
+  })
+
+  return c.json({ transcript: content, revision: revision.revision })
+})
+
+app.get('/api/tasks/:taskId/transcript/revisions', async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const results = await c.env.DB.prepare(
+    'SELECT revision, source, author, diff, created_at FROM transcript_revisions WHERE task_id = ? ORDER BY revision DESC'
+  ).bind(taskId).all<{
+    revision: number
+    source: TranscriptRevisionSource
+    author: string | null
+    diff: string | null
+    created_at: string
+  }>()
+
+  const revisions = (results.results || []).map(row => {
+    const diff: LineDiffHunk[] = row.diff ? JSON.parse(row.diff) : []
+    return {
+      revision: row.revision,
+      source: row.source,
+      author: row.author || undefined,
+      changedLines: diff.reduce((sum, hunk) => sum + Math.max(hunk.removed.length, hunk.added.length), 0),
+      createdAt: row.created_at
+    }
+  })
+
+  return c.json({ revisions })
+})
+
+app.get('/api/tasks/:taskId/transcript/revisions/:rev', auditAction('transcript.read'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const rev = Number(c.req.param('rev'))
+  if (!Number.isInteger(rev) || rev < 1) {
+    return c.json({ error: 'リビジョン番号は1以上の整数を指定してください' }, 400)
+  }
+
+  const revision = await getTranscriptRevision(c.env, taskId, rev)
+  if (!revision) {
+    return c.json({ error: 'リビジョンが見つかりません' }, 404)
+  }
+  return c.json({ revision })
+})
+
+// Restore an older revision (recorded as a new revision, history is never rewritten)
+app.post('/api/tasks/:taskId/transcript/revisions/:rev/restore', auditAction('transcript.restore'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const rev = Number(c.req.param('rev'))
+  if (!Number.isInteger(rev) || rev < 1) {
+    return c.json({ error: 'リビジョン番号は1以上の整数を指定してください' }, 400)
+  }
+
+  const target = await getTranscriptRevision(c.env, taskId, rev)
+  if (!target || target.content === undefined) {
+    return c.json({ error: 'リビジョンが見つかりません' }, 404)
+  }
+
+  const current = await c.env.DB.prepare(
+    'SELECT content FROM transcripts WHERE task_id = ?'
+  ).bind(taskId).first<{ content: string }>()
+  if (!current) {
+    return c.json({ error: '文字起こしが見つかりません' }, 404)
+  }
+
+  await c.env.DB.prepare(
+    'UPDATE transcripts SET content = ? WHERE task_id = ?'
+  ).bind(target.content, taskId).run()
+  const revision = await saveTranscriptRevision(c.env, taskId, {
+    content: target.content,
+    source: 'restore',
+    diff: diffTranscriptLines(current.content, target.content),
+    author: getRevisionAuthor(c.get('user'))
+  })
+  await rebuildSegmentsFromTranscript(c.env, taskId, target.content)
+
+  await appendTaskLog(c.env, taskId, {
+    level: 'info',
+    message: 'Transcript revision restored',
+    context: {
+      restoredRevision: rev,
+      revision: revision.revision,
+      author: revision.author
+    }
+  })
+
+  return c.json({ transcript: target.content, revision: revision.revision, restoredFrom: rev })
+})
+
+app.get('/api/tasks/:taskId/segments', auditAction('transcript.read'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const fromParam = c.req.query('fromMs')
+  const toParam = c.req.query('toMs')
+  const fromMs = fromParam ? Number(fromParam) : NaN
+  const toMs = toParam ? Number(toParam) : NaN
+  if ((fromParam && (!Number.isFinite(fromMs) || fromMs < 0)) || (toParam && (!Number.isFinite(toMs) || toMs < 0))) {
+    return c.json({ error: 'fromMsとtoMsは0以上の数値を指定してください' }, 400)
+  }
+  const speaker = c.req.query('speaker') || ''
+  const limitParam = c.req.query('limit')
+  const parsedLimit = limitParam ? Number(limitParam) : NaN
+  const limit = Number.isFinite(parsedLimit) && parsedLimit > 0
+    ? Math.min(SEGMENT_QUERY_MAX_LIMIT, Math.floor(parsedLimit))
+    : SEGMENT_QUERY_DEFAULT_LIMIT
+
+  let sql = `SELECT s.id, s.chunk_index, s.start_ms, s.end_ms, s.speaker, sp.display_name, s.text, s.confidence
+             FROM transcript_segments s
+             LEFT JOIN speakers sp ON sp.task_id = s.task_id AND sp.label = s.speaker
+             WHERE s.task_id = ?`
+  const bindings: any[] = [taskId]
+
+  // Segments overlapping the requested time range
+  if (Number.isFinite(fromMs)) {
+    sql += ' AND s.end_ms >= ?'
+    bindings.push(fromMs)
+  }
+  if (Number.isFinite(toMs)) {
+    sql += ' AND s.start_ms <= ?'
+    bindings.push(toMs)
+  }
+  // Speaker filter matches either the label or the assigned name
+  if (speaker) {
+    sql += ' AND (s.speaker = ? OR sp.display_name = ?)'
+    bindings.push(speaker, speaker)
+  }
+
+  sql += ' ORDER BY s.start_ms, s.id LIMIT ?'
+  bindings.push(limit)
+
+  const results = await c.env.DB.prepare(sql).bind(...bindings).all<{
+    id: number
+    chunk_index: number
+    start_ms: number
+    end_ms: number
+    speaker: string | null
+    display_name: string | null
+    text: string
+    confidence: number | null
+  }>()
+
+  const segments: TranscriptSegment[] = (results.results || []).map(row => ({
+    id: row.id,
+    chunkIndex: row.chunk_index,
+    startMs: row.start_ms,
+    endMs: row.end_ms,
+    speaker: row.speaker || undefined,
+    speakerName: row.display_name || row.speaker || undefined,
+    text: row.text,
+    confidence: row.confidence ?? undefined
+  }))
+
+  return c.json({ segments })
+})
+
 // Get original audio file for playback
-app.get('/api/tasks/:taskId/audio', async (c) => {
+app.get('/api/tasks/:taskId/audio', auditAction('audio.read'), async (c) => {
   const taskId = c.req.param('taskId')
   
   // Get task info
@@ -670,16 +2187,23 @@ app.get('/api/tasks/:taskId/audio', async (c) => {
     return c.json({ error: 'タスクが見つかりません' }, 404)
   }
   
+  if (task.audioPurgedAt) {
+    return c.json({ 
+      error: '音声ファイルは保存期間を過ぎたため削除されました',
+      purgedAt: task.audioPurgedAt
+    }, 410)
+  }
+  
   // Try to get merged audio file first
   const mergedR2Key = `${taskId}/merged.webm`
   const mergedAudio = await c.env.AUDIO_CHUNKS.get(mergedR2Key)
   
   if (mergedAudio) {
     const headers = new Headers()
-    headers.set('Content-Type', 'audio/webm')
+    headers.set('Content-Type', mergedAudio.httpMetadata?.contentType || 'audio/webm')
     headers.set('Content-Length', String(mergedAudio.size))
     headers.set('Accept-Ranges', 'bytes')
-    headers.set('Cache-Control', 'public, max-age=31536000')
+    headers.set('Cache-Control', 'private, max-age=3600')
     
     return new Response(mergedAudio.body, { headers })
   }
@@ -711,12 +2235,12 @@ app.get('/api/tasks/:taskId/audio', async (c) => {
   headers.set('Content-Type', chunkResult.mime_type || 'audio/webm')
   headers.set('Content-Length', String(audioObject.size))
   headers.set('Accept-Ranges', 'bytes')
-  headers.set('Cache-Control', 'public, max-age=31536000')
+  headers.set('Cache-Control', 'private, max-age=3600')
   
   return new Response(audioObject.body, { headers })
 })
 
-app.post('/api/tasks/:taskId/minutes', async (c) => {
+app.post('/api/tasks/:taskId/minutes', auditAction('minutes.generate'), async (c) => {
   const taskId = c.req.param('taskId')
   const task = await getTask(c.env, taskId)
   if (!task) {
@@ -731,10 +2255,26 @@ app.post('/api/tasks/:taskId/minutes', async (c) => {
     return c.json({ error: '文字起こしがまだ完了していません' }, 409)
   }
 
-  const apiKey = c.env.GEMINI_API_KEY
-  if (!apiKey) {
-    return c.json({ error: 'Gemini APIキーが設定されていません' }, 500)
+  const models = await getModelSettings(c.env, task)
+  const provider = getSummarizationProvider(c.env, task.summarizationProvider, models.minutesModel)
+  if (!provider) {
+    return c.json({ error: '議事録生成プロバイダーのAPIキーが設定されていません' }, 500)
+  }
+  if (provider.name === 'gemini') {
+    const budget = await checkBudget(c.env, taskId, { operation: 'minutes' })
+    if (budget.state === 'exceeded') {
+      return c.json({ error: 'API予算の上限に達しているため議事録を生成できません。管理者に上限の引き上げを依頼してください', budget }, 402)
+    }
+  }
+
+  const payload = await c.req.json().catch(() => null)
+  const templateId = typeof payload?.templateId === 'string' && payload.templateId ? payload.templateId : MINUTES_PROMPT_TEMPLATE_ID
+  const template = await getMinutesTemplate(c.env, templateId)
+  if (!template && templateId !== MINUTES_PROMPT_TEMPLATE_ID) {
+    return c.json({ error: '議事録テンプレートが見つかりません' }, 404)
   }
+  const client = task.clientId ? await getClient(c.env, task.clientId) : null
+  const variables = buildMinutesTemplateVariables(task, client, payload?.variables)
 
   try {
     await appendTaskLog(c.env, taskId, {
@@ -742,23 +2282,27 @@ app.post('/api/tasks/:taskId/minutes', async (c) => {
       message: 'Minutes generation started',
       context: {
         filename: task.filename,
-        durationMs: task.durationMs
+        durationMs: task.durationMs,
+        templateId
       }
     })
 
-    const minutesContent = await callGeminiMinutes(c.env, taskId, {
-      apiKey,
+    const minutesContent = await provider.summarize(c.env, taskId, {
       transcript: transcriptResult.content,
       filename: task.filename,
-      durationMs: task.durationMs
+      durationMs: task.durationMs,
+      template: template ?? undefined,
+      variables
     })
 
-    const now = new Date().toISOString()
-    
-    // Save minutes to D1
-    await c.env.DB.prepare(
-      'INSERT OR REPLACE INTO minutes (task_id, content, created_at) VALUES (?, ?, ?)'
-    ).bind(taskId, minutesContent, now).run()
+    // Save as a new version (previous drafts are kept)
+    const saved = await saveMinutesVersion(c.env, taskId, {
+      content: minutesContent,
+      source: 'ai',
+      model: provider.model,
+      templateId
+    })
+    const now = saved.version.createdAt
 
     // Update task status
     await c.env.DB.prepare(
@@ -769,15 +2313,22 @@ app.post('/api/tasks/:taskId/minutes', async (c) => {
       level: 'info',
       message: 'Minutes generation stored',
       context: {
-        minutesLength: minutesContent.length
+        minutesLength: minutesContent.length,
+        version: saved.version.version,
+        isCurrent: saved.isCurrent
       }
     })
 
+    if (saved.isCurrent) {
+      await refreshActionItems(c.env, task, provider)
+    }
+
     const record: MinutesRecord = {
       content: minutesContent,
-      createdAt: now
+      createdAt: now,
+      version: saved.version.version
     }
-    return c.json({ minutes: record })
+    return c.json({ minutes: record, isCurrent: saved.isCurrent })
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
     await appendTaskLog(c.env, taskId, {
@@ -792,11 +2343,11 @@ app.post('/api/tasks/:taskId/minutes', async (c) => {
   }
 })
 
-app.get('/api/tasks/:taskId/minutes', async (c) => {
+app.get('/api/tasks/:taskId/minutes', auditAction((c) => c.req.query('export') ? 'minutes.export' : 'minutes.read'), async (c) => {
   const taskId = c.req.param('taskId')
   const result = await c.env.DB.prepare(
-    'SELECT content, created_at FROM minutes WHERE task_id = ?'
-  ).bind(taskId).first<{ content: string, created_at: string }>()
+    'SELECT content, created_at, version, model FROM minutes WHERE task_id = ?'
+  ).bind(taskId).first<{ content: string, created_at: string, version: number | null, model: string | null }>()
   
   if (!result) {
     return c.json({ error: '議事録が見つかりません' }, 404)
@@ -804,72 +2355,293 @@ app.get('/api/tasks/:taskId/minutes', async (c) => {
   
   const minutes: MinutesRecord = {
     content: result.content,
-    createdAt: result.created_at
+    createdAt: result.created_at,
+    version: result.version ?? undefined,
+    model: result.model ?? undefined
   }
   return c.json(minutes)
 })
 
-app.get('/api/healthz', (c) => c.json({ ok: true }))
+// Save an edited draft of the minutes as a new manual version
+app.put('/api/tasks/:taskId/minutes', auditAction('minutes.edit'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
 
-// Statistics API endpoints
-app.get('/api/stats/usage', async (c) => {
-  try {
-    const stats = await c.env.DB.prepare(
-      `SELECT * FROM usage_stats WHERE id = 1`
-    ).first()
-    
-    if (!stats) {
-      return c.json({ error: 'Stats not found' }, 404)
+  const payload = await c.req.json().catch(() => null)
+  const content = typeof payload?.content === 'string' ? payload.content.replace(/\r\n/g, '\n') : ''
+  if (!content.trim()) {
+    return c.json({ error: 'contentは必須です' }, 400)
+  }
+
+  const saved = await saveMinutesVersion(c.env, taskId, {
+    content,
+    source: 'manual',
+    author: getRevisionAuthor(c.get('user'))
+  })
+
+  await appendTaskLog(c.env, taskId, {
+    level: 'info',
+    message: 'Minutes edited',
+    context: {
+      version: saved.version.version,
+      author: saved.version.author,
+      isCurrent: saved.isCurrent
     }
-    
-    // Calculate derived values
-    const totalHours = (stats.total_audio_duration_ms as number) / (1000 * 60 * 60)
-    const avgDurationMs = (stats.total_tasks as number) > 0 
-      ? (stats.total_audio_duration_ms as number) / (stats.total_tasks as number)
-      : 0
-    const avgChunksPerTask = (stats.total_tasks as number) > 0
-      ? (stats.total_chunks_processed as number) / (stats.total_tasks as number)
-      : 0
-    const errorRate = (stats.gemini_transcription_calls as number) > 0
-      ? (stats.total_api_errors as number) / (stats.gemini_transcription_calls as number)
-      : 0
-    
-    // Gemini 2.5 Flash pricing (from image)
-    // Audio input: $1.00 / 1M tokens
-    // Text/image/video input: $0.30 / 1M tokens
-    // Output: $2.50 / 1M tokens
-    
-    // Rough estimation: 
-    // - Audio transcription: assume 1000 tokens per minute of audio for input
-    // - Output: assume 150 tokens per minute for transcription
-    // - Minutes generation: assume 2000 tokens input + 1000 tokens output
-    
-    const totalMinutes = totalHours * 60
-    const transcriptionInputTokens = totalMinutes * 1000  // Audio tokens
-    const transcriptionOutputTokens = totalMinutes * 150
-    const minutesInputTokens = (stats.total_minutes_generated as number) * 2000
-    const minutesOutputTokens = (stats.total_minutes_generated as number) * 1000
-    
-    const transcriptionCost = (
-      (transcriptionInputTokens / 1000000) * 1.00 +  // Audio input
-      (transcriptionOutputTokens / 1000000) * 2.50   // Output
-    )
-    const minutesCost = (
-      (minutesInputTokens / 1000000) * 0.30 +  // Text input
-      (minutesOutputTokens / 1000000) * 2.50   // Output
-    )
-    const estimatedCost = transcriptionCost + minutesCost
-    
-    return c.json({
-      total_tasks: stats.total_tasks,
-      total_audio_duration_ms: stats.total_audio_duration_ms,
-      total_audio_duration_hours: Math.round(totalHours * 100) / 100,
-      total_chunks_processed: stats.total_chunks_processed,
-      total_transcripts_generated: stats.total_transcripts_generated,
-      total_minutes_generated: stats.total_minutes_generated,
-      total_transcript_characters: stats.total_transcript_characters,
-      gemini_transcription_calls: stats.gemini_transcription_calls,
-      gemini_minutes_calls: stats.gemini_minutes_calls,
+  })
+
+  return c.json({ version: saved.version, isCurrent: saved.isCurrent })
+})
+
+app.get('/api/tasks/:taskId/minutes/versions', async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const results = await c.env.DB.prepare(
+    `SELECT version, source, model, template_id, author, is_final, created_at, LENGTH(content) as content_length
+     FROM minutes_versions WHERE task_id = ? ORDER BY version DESC`
+  ).bind(taskId).all<{
+    version: number
+    source: MinutesVersionSource
+    model: string | null
+    template_id: string | null
+    author: string | null
+    is_final: number
+    created_at: string
+    content_length: number
+  }>()
+  const current = await c.env.DB.prepare(
+    'SELECT version FROM minutes WHERE task_id = ?'
+  ).bind(taskId).first<{ version: number | null }>()
+
+  const versions = (results.results || []).map(row => ({
+    version: row.version,
+    source: row.source,
+    model: row.model || undefined,
+    templateId: row.template_id || undefined,
+    author: row.author || undefined,
+    isFinal: row.is_final === 1,
+    isCurrent: current?.version === row.version,
+    contentLength: row.content_length,
+    createdAt: row.created_at
+  }))
+
+  return c.json({ versions })
+})
+
+app.get('/api/tasks/:taskId/minutes/versions/:version', auditAction('minutes.read'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const versionNumber = Number(c.req.param('version'))
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    return c.json({ error: 'バージョン番号は1以上の整数を指定してください' }, 400)
+  }
+
+  const version = await getMinutesVersion(c.env, taskId, versionNumber)
+  if (!version) {
+    return c.json({ error: '議事録のバージョンが見つかりません' }, 404)
+  }
+  return c.json({ version })
+})
+
+app.get('/api/tasks/:taskId/minutes/diff', auditAction('minutes.read'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const from = Number(c.req.query('from'))
+  const to = Number(c.req.query('to'))
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < 1) {
+    return c.json({ error: 'fromとtoにはバージョン番号を指定してください' }, 400)
+  }
+
+  const [fromVersion, toVersion] = await Promise.all([
+    getMinutesVersion(c.env, taskId, from),
+    getMinutesVersion(c.env, taskId, to)
+  ])
+  if (!fromVersion || !toVersion) {
+    return c.json({ error: '議事録のバージョンが見つかりません' }, 404)
+  }
+
+  return c.json({
+    from,
+    to,
+    hunks: diffLinesDetailed(fromVersion.content ?? '', toVersion.content ?? '')
+  })
+})
+
+// Mark a version as the final deliverable; it becomes the current minutes
+app.post('/api/tasks/:taskId/minutes/versions/:version/final', auditAction('minutes.finalize'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const versionNumber = Number(c.req.param('version'))
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    return c.json({ error: 'バージョン番号は1以上の整数を指定してください' }, 400)
+  }
+
+  const version = await getMinutesVersion(c.env, taskId, versionNumber)
+  if (!version) {
+    return c.json({ error: '議事録のバージョンが見つかりません' }, 404)
+  }
+
+  await c.env.DB.prepare(
+    'UPDATE minutes_versions SET is_final = CASE WHEN version = ? THEN 1 ELSE 0 END WHERE task_id = ?'
+  ).bind(versionNumber, taskId).run()
+  await setCurrentMinutes(c.env, taskId, version.content ?? '', versionNumber, version.createdAt, false, version.model)
+
+  await appendTaskLog(c.env, taskId, {
+    level: 'info',
+    message: 'Minutes version marked final',
+    context: {
+      version: versionNumber,
+      author: getRevisionAuthor(c.get('user'))
+    }
+  })
+
+  return c.json({ version: { ...version, isFinal: true, content: undefined } })
+})
+
+app.get('/api/templates', async (c) => {
+  const meetingType = c.req.query('meetingType') || ''
+  const clientId = c.req.query('clientId') || ''
+
+  let sql = 'SELECT id, name, description, meeting_type, client_id, instructions, is_builtin, created_at, updated_at FROM minutes_templates'
+  const bindings: any[] = []
+  const conditions: string[] = []
+  if (meetingType) {
+    conditions.push('meeting_type = ?')
+    bindings.push(meetingType)
+  }
+  if (clientId) {
+    // Client-specific templates plus the shared ones
+    conditions.push('(client_id = ? OR client_id IS NULL)')
+    bindings.push(clientId)
+  }
+  if (conditions.length > 0) {
+    sql += ' WHERE ' + conditions.join(' AND ')
+  }
+  sql += ' ORDER BY is_builtin DESC, name'
+
+  const results = await c.env.DB.prepare(sql).bind(...bindings).all<MinutesTemplateRow>()
+  return c.json({ templates: (results.results || []).map(toMinutesTemplateRecord) })
+})
+
+app.get('/api/templates/:templateId', async (c) => {
+  const template = await getMinutesTemplate(c.env, c.req.param('templateId'))
+  if (!template) {
+    return c.json({ error: '議事録テンプレートが見つかりません' }, 404)
+  }
+  return c.json({ template })
+})
+
+app.post('/api/templates', async (c) => {
+  const payload = await c.req.json().catch(() => null)
+  const parsed = parseMinutesTemplateInput(payload)
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+  if (parsed.value.clientId && !(await getClient(c.env, parsed.value.clientId))) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
+  }
+
+  const now = new Date().toISOString()
+  const template: MinutesTemplateRecord = {
+    id: crypto.randomUUID(),
+    ...parsed.value,
+    isBuiltin: false,
+    createdAt: now,
+    updatedAt: now
+  }
+  await c.env.DB.prepare(
+    `INSERT INTO minutes_templates (id, name, description, meeting_type, client_id, instructions, is_builtin, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?)`
+  ).bind(template.id, template.name, template.description ?? null, template.meetingType, template.clientId ?? null, template.instructions, now, now).run()
+
+  return c.json({ template }, 201)
+})
+
+app.put('/api/templates/:templateId', async (c) => {
+  const current = await getMinutesTemplate(c.env, c.req.param('templateId'))
+  if (!current) {
+    return c.json({ error: '議事録テンプレートが見つかりません' }, 404)
+  }
+  if (current.isBuiltin) {
+    return c.json({ error: '組み込みテンプレートは編集できません。複製して新しいテンプレートを作成してください。' }, 403)
+  }
+
+  const payload = await c.req.json().catch(() => null)
+  const parsed = parseMinutesTemplateInput(payload, current)
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+  if (parsed.value.clientId && parsed.value.clientId !== current.clientId && !(await getClient(c.env, parsed.value.clientId))) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
+  }
+
+  const now = new Date().toISOString()
+  await c.env.DB.prepare(
+    `UPDATE minutes_templates SET name = ?, description = ?, meeting_type = ?, client_id = ?, instructions = ?, updated_at = ?
+     WHERE id = ?`
+  ).bind(parsed.value.name, parsed.value.description ?? null, parsed.value.meetingType, parsed.value.clientId ?? null, parsed.value.instructions, now, current.id).run()
+
+  return c.json({ template: { ...current, ...parsed.value, updatedAt: now } })
+})
+
+app.delete('/api/templates/:templateId', async (c) => {
+  const current = await getMinutesTemplate(c.env, c.req.param('templateId'))
+  if (!current) {
+    return c.json({ error: '議事録テンプレートが見つかりません' }, 404)
+  }
+  if (current.isBuiltin) {
+    return c.json({ error: '組み込みテンプレートは削除できません' }, 403)
+  }
+
+  await c.env.DB.prepare('DELETE FROM minutes_templates WHERE id = ?').bind(current.id).run()
+  return c.json({ success: true, templateId: current.id })
+})
+
+app.get('/api/healthz', (c) => c.json({ ok: true }))
+
+// Statistics API endpoints
+app.get('/api/stats/usage', async (c) => {
+  try {
+    const stats = await c.env.DB.prepare(
+      `SELECT * FROM usage_stats WHERE id = 1`
+    ).first()
+    
+    if (!stats) {
+      return c.json({ error: 'Stats not found' }, 404)
+    }
+    
+    // Calculate derived values
+    const totalHours = (stats.total_audio_duration_ms as number) / (1000 * 60 * 60)
+    const avgDurationMs = (stats.total_tasks as number) > 0 
+      ? (stats.total_audio_duration_ms as number) / (stats.total_tasks as number)
+      : 0
+    const avgChunksPerTask = (stats.total_tasks as number) > 0
+      ? (stats.total_chunks_processed as number) / (stats.total_tasks as number)
+      : 0
+    const errorRate = (stats.gemini_transcription_calls as number) > 0
+      ? (stats.total_api_errors as number) / (stats.gemini_transcription_calls as number)
+      : 0
+    
+    // Tokens and cost as reported by Gemini (usageMetadata), priced with the model price table.
+    // Non-admins only see the spend of their own tasks, as in /api/stats/costs
+    const apiCallFilter = buildApiCallFilter({ ownerId: visibleOwnerId(c.get('user')) })
+    const apiCalls = toApiCallTotals(
+      await c.env.DB.prepare(`SELECT ${API_CALL_TOTALS_COLUMNS} FROM api_calls ${apiCallFilter.where}`).bind(...apiCallFilter.bindings).first()
+    )
+    
+    return c.json({
+      total_tasks: stats.total_tasks,
+      total_audio_duration_ms: stats.total_audio_duration_ms,
+      total_audio_duration_hours: Math.round(totalHours * 100) / 100,
+      total_chunks_processed: stats.total_chunks_processed,
+      total_transcripts_generated: stats.total_transcripts_generated,
+      total_minutes_generated: stats.total_minutes_generated,
+      total_transcript_characters: stats.total_transcript_characters,
+      gemini_transcription_calls: stats.gemini_transcription_calls,
+      gemini_minutes_calls: stats.gemini_minutes_calls,
       total_api_errors: stats.total_api_errors,
       error_rate: Math.round(errorRate * 10000) / 100,  // percentage
       average_audio_duration_ms: Math.round(avgDurationMs),
@@ -877,7 +2649,11 @@ app.get('/api/stats/usage', async (c) => {
       average_chunks_per_task: Math.round(avgChunksPerTask * 10) / 10,
       total_r2_bytes: stats.total_r2_bytes,
       total_r2_gb: Math.round((stats.total_r2_bytes as number) / (1024 * 1024 * 1024) * 100) / 100,
-      estimated_api_cost_usd: Math.round(estimatedCost * 100) / 100,
+      api_prompt_tokens: apiCalls.promptTokens,
+      api_audio_tokens: apiCalls.audioTokens,
+      api_output_tokens: apiCalls.candidateTokens + apiCalls.thoughtsTokens,
+      api_total_tokens: apiCalls.totalTokens,
+      estimated_api_cost_usd: Math.round(apiCalls.costUsd * 100) / 100,
       updated_at: stats.updated_at
     })
   } catch (error) {
@@ -936,18 +2712,9 @@ app.get('/api/stats/summary', async (c) => {
       ? ((stats.total_api_errors as number) / (stats.gemini_transcription_calls as number)) * 100
       : 0
     
-    // Cost estimation
-    const totalMinutes = totalHours * 60
-    const transcriptionInputTokens = totalMinutes * 1000
-    const transcriptionOutputTokens = totalMinutes * 150
-    const minutesInputTokens = (stats.total_minutes_generated as number) * 2000
-    const minutesOutputTokens = (stats.total_minutes_generated as number) * 1000
-    
-    const estimatedCost = (
-      (transcriptionInputTokens / 1000000) * 1.00 +
-      (transcriptionOutputTokens / 1000000) * 2.50 +
-      (minutesInputTokens / 1000000) * 0.30 +
-      (minutesOutputTokens / 1000000) * 2.50
+    const apiCallFilter = buildApiCallFilter({ ownerId: visibleOwnerId(c.get('user')) })
+    const apiCalls = toApiCallTotals(
+      await c.env.DB.prepare(`SELECT ${API_CALL_TOTALS_COLUMNS} FROM api_calls ${apiCallFilter.where}`).bind(...apiCallFilter.bindings).first()
     )
     
     const last30DaysHours = last30Days 
@@ -966,7 +2733,8 @@ app.get('/api/stats/summary', async (c) => {
         transcription_calls: stats.gemini_transcription_calls,
         minutes_calls: stats.gemini_minutes_calls,
         error_rate_percent: Math.round(errorRate * 100) / 100,
-        estimated_cost_usd: Math.round(estimatedCost * 100) / 100
+        total_tokens: apiCalls.totalTokens,
+        estimated_cost_usd: Math.round(apiCalls.costUsd * 100) / 100
       },
       averages: {
         audio_duration_minutes: Math.round(avgDurationMinutes * 100) / 100,
@@ -987,101 +2755,40 @@ app.get('/api/stats/summary', async (c) => {
   }
 })
 
-// Admin endpoint: Fix chunk states inconsistency
-app.post('/api/tasks/:taskId/fix-chunk-states', async (c) => {
-  const taskId = c.req.param('taskId')
-  
-  try {
-    // Get all completed chunks from chunks table
-    const chunksResult = await c.env.DB.prepare(
-      `SELECT DISTINCT chunk_index FROM chunks WHERE task_id = ? ORDER BY chunk_index`
-    ).bind(taskId).all()
-    
-    const completedChunks = chunksResult.results?.map((r: any) => r.chunk_index) || []
-    
-    // Update chunk_states table to mark them as completed
-    let fixed = 0
-    for (const chunkIndex of completedChunks) {
-      await saveChunkState(c.env, taskId, {
-        index: chunkIndex,
-        status: 'completed',
-        attempts: 0,
-        updatedAt: new Date().toISOString()
-      })
-      fixed++
-    }
-    
-    // Delete any stuck chunk_jobs
-    await c.env.DB.prepare(
-      `DELETE FROM chunk_jobs WHERE task_id = ? AND chunk_index IN (${completedChunks.join(',')})`
-    ).bind(taskId).run()
-    
-    await appendTaskLog(c.env, taskId, {
-      level: 'info',
-      message: 'Chunk states fixed by admin',
-      context: {
-        fixedChunks: fixed,
-        completedChunks
-      }
-    })
-    
-    return c.json({ 
-      success: true,
-      fixed,
-      completedChunks
-    })
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    return c.json({ error: errorMessage }, 500)
-  }
-})
+// Recorded Gemini usage by model and by client; ?from=YYYY-MM-DD&to=YYYY-MM-DD
+app.get('/api/stats/costs', async (c) => {
+  // Non-admins only see the spend of their own tasks, as in /api/clients/:clientId/costs
+  const { where, bindings } = buildApiCallFilter({
+    from: c.req.query('from'),
+    to: c.req.query('to'),
+    ownerId: visibleOwnerId(c.get('user'))
+  })
+  const [totals, byModel, byClient] = await c.env.DB.batch([
+    c.env.DB.prepare(`SELECT ${API_CALL_TOTALS_COLUMNS} FROM api_calls ${where}`).bind(...bindings),
+    c.env.DB.prepare(
+      `SELECT kind, model, ${API_CALL_TOTALS_COLUMNS} FROM api_calls ${where} GROUP BY kind, model ORDER BY kind, model`
+    ).bind(...bindings),
+    c.env.DB.prepare(
+      `SELECT client_id, (SELECT name FROM clients WHERE clients.id = api_calls.client_id) as client_name, ${API_CALL_TOTALS_COLUMNS}
+       FROM api_calls ${where} GROUP BY client_id ORDER BY cost_usd DESC`
+    ).bind(...bindings)
+  ])
 
-app.get('/api/test-api-key', (c) => {
-  const apiKey = c.env.GEMINI_API_KEY
   return c.json({
-    hasKey: !!apiKey,
-    keyLength: apiKey?.length || 0,
-    keyPrefix: apiKey ? apiKey.substring(0, 10) + '...' : 'undefined',
-    keySuffix: apiKey ? '...' + apiKey.substring(apiKey.length - 4) : 'undefined'
+    totals: toApiCallTotals(totals.results?.[0] as Record<string, unknown>),
+    byModel: (byModel.results as Array<Record<string, unknown>>).map(row => ({
+      kind: row.kind as ApiCallKind,
+      model: row.model as string,
+      ...toApiCallTotals(row)
+    })),
+    byClient: (byClient.results as Array<Record<string, unknown>>).map(row => ({
+      clientId: (row.client_id as string | null) ?? undefined,
+      clientName: (row.client_name as string | null) ?? undefined,
+      ...toApiCallTotals(row)
+    }))
   })
 })
 
-app.get('/api/test-r2', async (c) => {
-  try {
-    const testKey = 'test.txt'
-    const testData = 'Hello from R2!'
-    
-    // Test write
-    await c.env.AUDIO_CHUNKS.put(testKey, testData)
-    
-    // Test read
-    const object = await c.env.AUDIO_CHUNKS.get(testKey)
-    if (!object) {
-      return c.json({ error: 'R2からの読み込みに失敗しました' }, 500)
-    }
-    
-    const text = await object.text()
-    
-    // Test delete
-    await c.env.AUDIO_CHUNKS.delete(testKey)
-    
-    return c.json({ 
-      success: true, 
-      message: 'R2 is working',
-      readData: text
-    })
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    const errorStack = error instanceof Error ? error.stack : undefined
-    
-    return c.json({ 
-      success: false,
-      error: errorMessage,
-      stack: errorStack
-    }, 500)
-  }
-})
-
 app.delete('/api/tasks/:taskId', async (c) => {
   const taskId = c.req.param('taskId')
   
@@ -1091,19 +2798,17 @@ app.delete('/api/tasks/:taskId', async (c) => {
     if (!task) {
       return c.json({ error: 'タスクが見つかりません' }, 404)
     }
+    if (task.legalHold) {
+      return c.json({ error: 'リーガルホールド中のタスクは削除できません' }, 409)
+    }
     
-    // Delete from all tables (CASCADE will handle related records)
-    await c.env.DB.prepare('DELETE FROM tasks WHERE id = ?').bind(taskId).run()
-    
-    await appendTaskLog(c.env, taskId, {
-      level: 'info',
-      message: 'Task deleted by user'
-    }).catch(() => {}) // Ignore error if task_logs was already deleted
+    const report = await deleteTask(c.env, task, getAuditRequest(c))
     
     return c.json({ 
       success: true,
       message: 'Task deleted successfully',
-      taskId 
+      taskId,
+      report
     })
   } catch (error) {
     console.error('Failed to delete task:', error)
@@ -1115,8 +2820,55 @@ app.delete('/api/tasks/:taskId', async (c) => {
   }
 })
 
-// Reprocess task from scratch (delete and return original audio info for re-upload)
-app.post('/api/tasks/:taskId/reprocess', async (c) => {
+app.post('/api/tasks/bulk-delete', async (c) => {
+  const payload = await c.req.json<{ taskIds?: unknown }>().catch(() => null)
+  const taskIds = Array.isArray(payload?.taskIds)
+    ? [...new Set(payload.taskIds.filter((id): id is string => typeof id === 'string' && id.length > 0))]
+    : []
+  if (taskIds.length === 0) {
+    return c.json({ error: 'taskIdsに削除するタスクIDの配列を指定してください' }, 400)
+  }
+  if (taskIds.length > BULK_DELETE_MAX_TASKS) {
+    return c.json({ error: `一度に削除できるタスクは${BULK_DELETE_MAX_TASKS}件までです` }, 400)
+  }
+
+  const user = c.get('user')
+  const request = getAuditRequest(c)
+  const deleted: TaskDeletionReport[] = []
+  const skipped: Array<{ taskId: string; reason: 'not_found' | 'legal_hold' | 'failed'; error?: string }> = []
+
+  // Sequential so a large batch does not fan out R2 list/delete calls all at once
+  for (const taskId of taskIds) {
+    const task = await getTask(c.env, taskId)
+    if (!task || !canAccessTask(user, task.ownerId)) {
+      skipped.push({ taskId, reason: 'not_found' })
+      continue
+    }
+    if (task.legalHold) {
+      skipped.push({ taskId, reason: 'legal_hold' })
+      continue
+    }
+    try {
+      deleted.push(await deleteTask(c.env, task, request))
+    } catch (error) {
+      console.error(`Failed to delete task ${taskId}:`, error)
+      skipped.push({ taskId, reason: 'failed', error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  return c.json({
+    deleted,
+    skipped,
+    totals: {
+      tasks: deleted.length,
+      r2ObjectsDeleted: deleted.reduce((sum, report) => sum + report.r2ObjectsDeleted, 0),
+      r2BytesDeleted: deleted.reduce((sum, report) => sum + report.r2BytesDeleted, 0)
+    }
+  })
+})
+
+// Reprocess task from the stored original audio (same task id; previous transcript and minutes stay as versions)
+app.post('/api/tasks/:taskId/reprocess', auditAction('task.reprocess'), async (c) => {
   const taskId = c.req.param('taskId')
   
   try {
@@ -1125,38 +2877,40 @@ app.post('/api/tasks/:taskId/reprocess', async (c) => {
     if (!task) {
       return c.json({ error: 'タスクが見つかりません' }, 404)
     }
-    
-    // Get original audio info before deletion
-    const audioInfo = {
-      filename: task.filename,
-      durationMs: task.duration_ms
+    if (task.audioPurgedAt) {
+      return c.json({ 
+        error: '音声ファイルは保存期間を過ぎたため削除されました',
+        purgedAt: task.audioPurgedAt
+      }, 410)
+    }
+    if (!task.durationMs) {
+      return c.json({ error: '音声の長さが記録されていないため再処理できません' }, 409)
+    }
+
+    const payload = await c.req.json().catch(() => ({}))
+    const model = payload?.model ?? undefined
+    if (model !== undefined && !TRANSCRIPTION_MODEL_OPTIONS.includes(model)) {
+      return c.json({ error: `modelは${TRANSCRIPTION_MODEL_OPTIONS.join('・')}のいずれかを指定してください` }, 400)
+    }
+    const chunkSizeBytes = payload?.chunkSizeBytes ?? getRuntimeConfig(c.env).chunkSizeBytes
+    if (!Number.isInteger(chunkSizeBytes) || chunkSizeBytes < MIN_CHUNK_SIZE_BYTES || chunkSizeBytes > MAX_CHUNK_SIZE_BYTES) {
+      return c.json({ error: `chunkSizeBytesは${MIN_CHUNK_SIZE_BYTES}〜${MAX_CHUNK_SIZE_BYTES}の整数を指定してください` }, 400)
     }
     
-    // Check if original audio exists in R2
-    const originalAudioKey = `${taskId}/merged.webm`
-    const originalAudio = await c.env.AUDIO_CHUNKS.get(originalAudioKey)
-    
-    if (!originalAudio) {
+    const original = await c.env.AUDIO_CHUNKS.head(`${taskId}/merged.webm`)
+    if (!original) {
       return c.json({ 
         error: '元の音声ファイルが見つかりません。再アップロードが必要です。' 
       }, 404)
     }
     
-    // Delete all task data
-    await c.env.DB.prepare('DELETE FROM tasks WHERE id = ?').bind(taskId).run()
-    
-    await appendTaskLog(c.env, taskId, {
-      level: 'info',
-      message: 'Task reprocess initiated by user'
-    }).catch(() => {})
+    const result = await reprocessTask(c.env, task, original, { model, chunkSizeBytes })
     
     return c.json({ 
       success: true,
-      message: 'タスクを削除しました。元の音声ファイルから再処理を開始してください。',
-      audioInfo,
-      hasOriginalAudio: true,
-      originalAudioUrl: `/api/tasks/${taskId}/audio`
-    })
+      message: '元の音声ファイルから再処理を開始しました。',
+      ...result
+    }, 202)
   } catch (error) {
     console.error('Failed to reprocess task:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
@@ -1171,66 +2925,12 @@ app.get('/api/tasks', async (c) => {
   const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100)
   const from = c.req.query('from') || ''
   const to = c.req.query('to') || ''
+  const clientId = c.req.query('clientId') || ''
+  const user = c.get('user')
+  const ownerId = user.role === 'admin' ? c.req.query('ownerId') || '' : user.id
   
   try {
-    let sql = 'SELECT id, filename, total_chunks, processed_chunks, duration_ms, status, error, created_at, updated_at FROM tasks'
-    const bindings: any[] = []
-    
-    // 日付フィルタの追加
-    const conditions: string[] = []
-    if (from) {
-      conditions.push('DATE(created_at) >= DATE(?)')
-      bindings.push(from)
-    }
-    if (to) {
-      conditions.push('DATE(created_at) <= DATE(?)')
-      bindings.push(to)
-    }
-    
-    if (conditions.length > 0) {
-      sql += ' WHERE ' + conditions.join(' AND ')
-    }
-    
-    sql += ' ORDER BY created_at DESC LIMIT ?'
-    bindings.push(limit)
-    
-    const results = await c.env.DB.prepare(sql).bind(...bindings).all<{
-      id: string
-      filename: string | null
-      total_chunks: number
-      processed_chunks: number
-      duration_ms: number | null
-      status: TaskStatus
-      error: string | null
-      created_at: string
-      updated_at: string
-    }>()
-    
-    if (!results.results) {
-      return c.json({ tasks: [] })
-    }
-    
-    // Check which tasks have minutes
-    const taskIds = results.results.map(r => r.id)
-    const minutesResults = await c.env.DB.prepare(
-      `SELECT task_id FROM minutes WHERE task_id IN (${taskIds.map(() => '?').join(',')})`
-    ).bind(...taskIds).all<{ task_id: string }>()
-    
-    const tasksWithMinutes = new Set(minutesResults.results?.map(r => r.task_id) || [])
-    
-    const tasks: TaskRecord[] = results.results.map(row => ({
-      id: row.id,
-      filename: row.filename || undefined,
-      totalChunks: row.total_chunks,
-      processedChunks: row.processed_chunks,
-      durationMs: row.duration_ms || undefined,
-      status: row.status,
-      error: row.error || undefined,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-      hasMinutes: tasksWithMinutes.has(row.id)
-    }))
-    
+    const tasks = await listTasks(c.env, { limit, from, to, clientId, ownerId })
     return c.json({ tasks })
   } catch (error) {
     console.error('Failed to fetch tasks:', error)
@@ -1238,874 +2938,3537 @@ app.get('/api/tasks', async (c) => {
   }
 })
 
-// Queue Consumer handler (separate from Hono app)
-async function queueHandler(batch: MessageBatch<ChunkJobMessage>, env: Bindings): Promise<void> {
-  console.log(`[Queue Consumer] Processing ${batch.messages.length} messages`)
-  
-  for (const message of batch.messages) {
-    const { taskId, chunkIndex, r2Key, startMs, endMs, mimeType, sizeBytes } = message.body
-    
-    try {
-      console.log(`[Queue Consumer] Processing chunk ${chunkIndex} for task ${taskId}`)
-      
-      // Step 0: Check if already completed (idempotency for at-least-once delivery)
-      const existingChunk = await getChunk(env, taskId, chunkIndex)
-      if (existingChunk) {
-        console.log(`[Queue Consumer] Chunk ${chunkIndex} already completed, skipping`)
-        await appendTaskLog(env, taskId, {
-          level: 'info',
-          message: 'Chunk processing skipped (already completed)',
-          context: { chunkIndex, reason: 'duplicate_queue_message' }
-        })
-        message.ack()
-        continue
-      }
-      
-      // Step 1: Update status to 'processing'
-      const now = new Date().toISOString()
-      const workerId = crypto.randomUUID()
-      
-      await env.DB.prepare(
-        `UPDATE chunk_jobs SET status = 'processing', processing_by = ?, updated_at = ? 
-         WHERE task_id = ? AND chunk_index = ?`
-      ).bind(workerId, now, taskId, chunkIndex).run()
-      
-      await saveChunkState(env, taskId, {
-        index: chunkIndex,
-        status: 'processing',
-        attempts: 0, // Will be incremented on retry
-        updatedAt: now
-      })
-      
-      // Step 2: Get audio from R2
-      const r2Object = await env.AUDIO_CHUNKS.get(r2Key)
-      if (!r2Object) {
-        // Double-check if chunk was completed by another worker (race condition)
-        const recheckChunk = await getChunk(env, taskId, chunkIndex)
-        if (recheckChunk) {
-          console.log(`[Queue Consumer] Chunk ${chunkIndex} completed by another worker, skipping`)
-          await appendTaskLog(env, taskId, {
-            level: 'info',
-            message: 'Chunk processing skipped (completed by another worker)',
-            context: { chunkIndex, reason: 'race_condition_resolved' }
-          })
-          message.ack()
-          continue
-        }
-        throw new Error(`R2 object not found: ${r2Key}`)
-      }
-      
-      const audioBuffer = await r2Object.arrayBuffer()
-      const base64Audio = arrayBufferToBase64(audioBuffer)
-      
-      // Step 3: Call Gemini API
-      const apiKey = env.GEMINI_API_KEY
-      if (!apiKey) {
-        throw new Error('Gemini API key is not configured')
-      }
-      
-      const transcriptText = await callGeminiFlashTranscription(
-        env,
-        taskId,
-        {
-          apiKey,
-          audioBase64: base64Audio,
-          mimeType,
-          chunkIndex,
-          chunkStartMs: startMs,
-          chunkEndMs: endMs
-        }
-      )
-      
-      // Step 4: Save result to D1
-      const completedAt = new Date().toISOString()
-      
-      // Save to chunks table
-      await env.DB.prepare(
-        `INSERT OR REPLACE INTO chunks 
-         (task_id, chunk_index, start_ms, end_ms, text, created_at)
-         VALUES (?, ?, ?, ?, ?, ?)`
-      ).bind(taskId, chunkIndex, startMs, endMs, transcriptText, completedAt).run()
-      
-      // Update chunk_jobs status
-      await env.DB.prepare(
-        `DELETE FROM chunk_jobs WHERE task_id = ? AND chunk_index = ?`
-      ).bind(taskId, chunkIndex).run()
-      
-      // Update chunk_states
-      await saveChunkState(env, taskId, {
-        index: chunkIndex,
-        status: 'completed',
-        attempts: 0,
-        updatedAt: completedAt
-      })
-      
-      // Step 5: Delete from R2 (cleanup) - safe to delete after successful processing
-      try {
-        await env.AUDIO_CHUNKS.delete(r2Key)
-      } catch (deleteError) {
-        // Log but don't fail if deletion fails (file might already be deleted)
-        console.warn(`[Queue Consumer] R2 delete warning for ${r2Key}:`, deleteError)
-      }
-      
-      // Step 6: Log success
-      await appendTaskLog(env, taskId, {
-        level: 'info',
-        message: 'Chunk transcription completed',
-        context: {
-          chunkIndex,
-          transcriptLength: transcriptText.length,
-          processingTime: Date.now() - new Date(now).getTime()
-        }
-      })
-      
-      console.log(`[Queue Consumer] Chunk ${chunkIndex} completed for task ${taskId}`)
-      
-      // Acknowledge successful processing
-      message.ack()
-      
-    } catch (error) {
-      console.error(`[Queue Consumer] Error processing chunk ${chunkIndex}:`, error)
-      
-      const errorMessage = error instanceof Error ? error.message : String(error)
-      
-      // If R2 object not found, check if chunk was already completed
-      if (errorMessage.includes('R2 object not found')) {
-        const finalCheck = await getChunk(env, taskId, chunkIndex)
-        if (finalCheck) {
-          console.log(`[Queue Consumer] Chunk ${chunkIndex} already completed (detected in error handler), acknowledging`)
-          await appendTaskLog(env, taskId, {
-            level: 'info',
-            message: 'Chunk processing error resolved (already completed)',
-            context: { chunkIndex, reason: 'duplicate_queue_message_after_completion' }
-          })
-          message.ack()
-          continue
-        }
-      }
-      
-      // Update error in D1
-      const errorNow = new Date().toISOString()
-      
-      await env.DB.prepare(
-        `UPDATE chunk_jobs SET status = 'queued', processing_by = NULL, last_error = ?, updated_at = ?, attempts = attempts + 1
-         WHERE task_id = ? AND chunk_index = ?`
-      ).bind(errorMessage, errorNow, taskId, chunkIndex).run()
-      
-      await appendTaskLog(env, taskId, {
-        level: 'error',
-        message: 'Chunk transcription failed',
-        context: {
-          chunkIndex,
-          error: errorMessage
-        }
-      })
-      
-      // Retry the message (Cloudflare will handle exponential backoff)
-      message.retry()
+// Link or unlink a meeting to a client after creation
+app.patch('/api/tasks/:taskId', auditAction('task.update'), async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const payload = await c.req.json().catch(() => null)
+  if (!payload || (!('clientId' in payload) && !('ownerId' in payload) && !('legalHold' in payload))) {
+    return c.json({ error: 'clientId・ownerId・legalHoldのいずれかを指定してください（顧問先を解除する場合はnull）' }, 400)
+  }
+  const clientId = !('clientId' in payload)
+    ? task.clientId ?? null
+    : payload.clientId === null ? null : typeof payload.clientId === 'string' ? payload.clientId : undefined
+  if (clientId === undefined) {
+    return c.json({ error: 'clientIdは文字列またはnullを指定してください' }, 400)
+  }
+  if (clientId && clientId !== task.clientId && !(await getClient(c.env, clientId))) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
+  }
+  const ownerId = 'ownerId' in payload ? payload.ownerId : task.ownerId ?? null
+  if (ownerId !== (task.ownerId ?? null)) {
+    if (c.get('user').role !== 'admin') {
+      return c.json({ error: '担当者の変更は管理者のみ可能です' }, 403)
+    }
+    const owner = typeof ownerId === 'string'
+      ? await c.env.DB.prepare('SELECT id FROM users WHERE id = ?').bind(ownerId).first()
+      : null
+    if (!owner) {
+      return c.json({ error: 'ユーザーが見つかりません' }, 404)
     }
   }
-}
 
-// Export Workers handlers
-export default {
-  async fetch(request: Request, env: Bindings, ctx: ExecutionContext) {
-    return app.fetch(request, env, ctx)
-  },
-  async queue(batch: MessageBatch<ChunkJobMessage>, env: Bindings) {
-    return queueHandler(batch, env)
+  const legalHold = 'legalHold' in payload ? payload.legalHold : task.legalHold ?? false
+  if (typeof legalHold !== 'boolean') {
+    return c.json({ error: 'legalHoldはtrueまたはfalseを指定してください' }, 400)
+  }
+  const legalHoldReason = !legalHold
+    ? null
+    : typeof payload.legalHoldReason === 'string' ? payload.legalHoldReason.trim().slice(0, CLIENT_FIELD_MAX_LENGTH) || null : task.legalHoldReason ?? null
+  if ((legalHold !== (task.legalHold ?? false) || legalHoldReason !== (task.legalHoldReason ?? null)) && c.get('user').role !== 'admin') {
+    return c.json({ error: 'リーガルホールドの変更は管理者のみ可能です' }, 403)
   }
-}
 
-// Queue consumer for background transcription processing
-export async function queue(batch: MessageBatch<ChunkJobMessage>, env: Bindings): Promise<void> {
-  const config = getRuntimeConfig(env)
-  
-  for (const message of batch.messages) {
-    const { taskId, chunkIndex } = message.body
-    
-    try {
-      // Get the queued job from D1
-      const job = await env.DB.prepare(
-        `SELECT chunk_index, start_ms, end_ms, mime_type, audio_base64, size_bytes, attempts, status, 
-                last_error, processing_by, retry_at, created_at, updated_at
-         FROM chunk_jobs 
-         WHERE task_id = ? AND chunk_index = ? AND status = 'queued'`
-      ).bind(taskId, chunkIndex).first<{
-        chunk_index: number
-        start_ms: number
-        end_ms: number
-        mime_type: string
-        audio_base64: string
-        size_bytes: number
-        attempts: number
-        status: ChunkJobStatus
-        last_error: string | null
-        processing_by: string | null
-        retry_at: string | null
-        created_at: string
-        updated_at: string
-      }>()
-      
-      if (!job) {
-        console.log(`Job not found or already processed: task=${taskId} chunk=${chunkIndex}`)
-        message.ack()
-        continue
-      }
-      
-      const jobRecord: ChunkJobRecord = {
-        index: job.chunk_index,
-        startMs: job.start_ms,
-        endMs: job.end_ms,
-        mimeType: job.mime_type,
-        audioBase64: job.audio_base64,
-        sizeBytes: job.size_bytes,
-        attempts: job.attempts,
-        status: job.status,
-        lastError: job.last_error || undefined,
-        processingBy: job.processing_by || undefined,
-        retryAt: job.retry_at || undefined,
-        createdAt: job.created_at,
-        updatedAt: job.updated_at
-      }
-      
-      // Process the chunk
-      const success = await processChunkJob(env, taskId, jobRecord, config)
-      
-      if (success) {
-        console.log(`Successfully processed: task=${taskId} chunk=${chunkIndex}`)
-        message.ack()
-      } else {
-        console.log(`Failed to process: task=${taskId} chunk=${chunkIndex}`)
-        message.retry()
-      }
-    } catch (error) {
-      console.error(`Queue processing error: task=${taskId} chunk=${chunkIndex}`, error)
-      message.retry()
+  const now = new Date().toISOString()
+  await c.env.DB.batch([
+    c.env.DB.prepare(
+      'UPDATE tasks SET client_id = ?, owner_id = ?, legal_hold = ?, legal_hold_reason = ?, updated_at = ? WHERE id = ?'
+    ).bind(clientId, ownerId, legalHold ? 1 : 0, legalHoldReason, now, taskId),
+    c.env.DB.prepare('UPDATE action_items SET client_id = ? WHERE task_id = ?').bind(clientId, taskId)
+  ])
+
+  await appendTaskLog(c.env, taskId, {
+    level: 'info',
+    message: 'Task updated',
+    context: {
+      previousClientId: task.clientId,
+      clientId,
+      previousOwnerId: task.ownerId,
+      ownerId,
+      legalHold,
+      legalHoldReason
     }
-  }
-}
+  })
 
-function getRuntimeConfig(env: Bindings): RuntimeConfig {
-  const chunkSizeBytes = clampNumber(parseInteger(env.CHUNK_SIZE_BYTES, DEFAULT_CHUNK_SIZE_BYTES), 128 * 1024, 8 * 1024 * 1024)
-  const overlapSeconds = clampNumber(parseInteger(env.CHUNK_OVERLAP_SECONDS, DEFAULT_CHUNK_OVERLAP_SECONDS), 0, 30)
-  const transcriptionConcurrency = clampNumber(
-    parseInteger(env.TRANSCRIPTION_MAX_CONCURRENCY, DEFAULT_TRANSCRIPTION_CONCURRENCY),
-    1,
-    MAX_CONCURRENCY_LIMIT
-  )
-  const chunkJobMaxAttempts = clampNumber(
-    parseInteger(env.CHUNK_JOB_MAX_ATTEMPTS, DEFAULT_CHUNK_JOB_MAX_ATTEMPTS),
-    1,
-    MAX_CHUNK_JOB_ATTEMPTS_LIMIT
-  )
-  const uploadConcurrency = clampNumber(parseInteger(env.UPLOAD_CONCURRENCY, DEFAULT_UPLOAD_CONCURRENCY), 1, MAX_CONCURRENCY_LIMIT)
+  return c.json({
+    task: {
+      ...task,
+      clientId: clientId ?? undefined,
+      ownerId: ownerId ?? undefined,
+      legalHold,
+      legalHoldReason: legalHoldReason ?? undefined,
+      updatedAt: now
+    }
+  })
+})
 
-  return {
-    chunkSizeBytes,
-    overlapSeconds,
-    transcriptionConcurrency,
-    chunkJobMaxAttempts,
-    uploadConcurrency
+app.get('/api/clients', async (c) => {
+  const q = c.req.query('q') || ''
+
+  let sql = 'SELECT id, name, code, fiscal_year_end_month, assigned_staff, audio_retention_days, transcript_retention_years, created_at, updated_at FROM clients'
+  const bindings: any[] = []
+  if (q) {
+    sql += ' WHERE name LIKE ? OR code LIKE ?'
+    bindings.push(`%${q}%`, `%${q}%`)
   }
-}
+  sql += ' ORDER BY code, name'
 
-function parseInteger(value: string | undefined, fallback: number): number {
-  if (!value) return fallback
-  const parsed = Number.parseInt(value, 10)
-  if (!Number.isFinite(parsed)) return fallback
-  return parsed
-}
+  const results = await c.env.DB.prepare(sql).bind(...bindings).all<ClientRow>()
+  return c.json({ clients: (results.results || []).map(toClientRecord) })
+})
 
-function clampNumber(value: number, min: number, max: number): number {
-  if (!Number.isFinite(value)) return min
-  if (value < min) return min
-  if (value > max) return max
-  return value
-}
+app.get('/api/clients/:clientId', async (c) => {
+  const client = await getClient(c.env, c.req.param('clientId'))
+  if (!client) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
+  }
+  return c.json({ client })
+})
 
-function sanitizeChunkJobForResponse(job: ChunkJobRecord) {
-  const { audioBase64, processingBy, ...rest } = job
-  return rest
-}
+app.post('/api/clients', async (c) => {
+  const payload = await c.req.json().catch(() => null)
+  const parsed = parseClientInput(payload)
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+  if (changesRetention(payload) && c.get('user').role !== 'admin') {
+    return c.json({ error: '保存期間の設定は管理者のみ変更できます' }, 403)
+  }
+  if (parsed.value.code && (await getClientByCode(c.env, parsed.value.code))) {
+    return c.json({ error: 'この顧問先コードは既に使用されています' }, 409)
+  }
 
-async function enqueueChunkJob(env: Bindings, taskId: string, input: EnqueueChunkJobInput): Promise<ChunkJobRecord> {
   const now = new Date().toISOString()
-  
-  // Check if job already exists
-  const existing = await env.DB.prepare(
-    'SELECT attempts, created_at FROM chunk_jobs WHERE task_id = ? AND chunk_index = ?'
-  ).bind(taskId, input.index).first<{ attempts: number, created_at: string }>()
-  
-  const attempts = existing?.attempts ?? 0
-  const createdAt = existing?.created_at ?? now
-  
-  // Insert or replace
-  await env.DB.prepare(
-    `INSERT OR REPLACE INTO chunk_jobs 
-     (task_id, chunk_index, start_ms, end_ms, mime_type, audio_base64, size_bytes, attempts, status, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'queued', ?, ?)`
-  ).bind(taskId, input.index, input.startMs, input.endMs, input.mimeType, input.audioBase64, input.sizeBytes, attempts, createdAt, now).run()
-  
-  // Save chunk state
-  await saveChunkState(env, taskId, {
-    index: input.index,
-    status: 'queued',
-    attempts: attempts,
+  const client: ClientRecord = {
+    id: crypto.randomUUID(),
+    ...parsed.value,
+    createdAt: now,
     updatedAt: now
-  })
-  
-  const job: ChunkJobRecord = {
-    index: input.index,
-    startMs: input.startMs,
-    endMs: input.endMs,
-    mimeType: input.mimeType,
-    audioBase64: input.audioBase64,
-    sizeBytes: input.sizeBytes,
-    attempts: attempts,
-    status: 'queued',
-    createdAt: createdAt,
-    updatedAt: now,
-    lastError: undefined,
-    processingBy: undefined,
-    retryAt: undefined
   }
-  
-  return job
-}
+  await c.env.DB.prepare(
+    'INSERT INTO clients (id, name, code, fiscal_year_end_month, assigned_staff, audio_retention_days, transcript_retention_years, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  ).bind(
+    client.id,
+    client.name,
+    client.code ?? null,
+    client.fiscalYearEndMonth ?? null,
+    client.assignedStaff ?? null,
+    client.audioRetentionDays ?? null,
+    client.transcriptRetentionYears ?? null,
+    now,
+    now
+  ).run()
+
+  return c.json({ client }, 201)
+})
 
-async function ensureTaskTranscribing(env: Bindings, task: TaskRecord): Promise<TaskRecord> {
-  if (task.status === 'initialized') {
-    const now = new Date().toISOString()
-    await env.DB.prepare(
-      'UPDATE tasks SET status = ?, updated_at = ? WHERE id = ?'
-    ).bind('transcribing', now, task.id).run()
-    return {
-      ...task,
-      status: 'transcribing',
-      updatedAt: now
-    }
+app.put('/api/clients/:clientId', async (c) => {
+  const current = await getClient(c.env, c.req.param('clientId'))
+  if (!current) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
   }
-  return task
-}
 
-async function processChunkQueue(env: Bindings, taskId: string, options: ProcessQueueOptions = {}) {
-  const { maxIterations = 50 } = options
-  const config = getRuntimeConfig(env)
-  const concurrency = Math.max(1, config.transcriptionConcurrency)
-  const batchLimit = Math.max(concurrency * CHUNK_QUEUE_BATCH_MULTIPLIER, concurrency)
-  let processed = 0
-
-  for (let iteration = 0; iteration < maxIterations; iteration++) {
-    const jobs = await getQueuedChunkJobs(env, taskId, concurrency, batchLimit)
-    if (jobs.length === 0) {
-      break
+  const payload = await c.req.json().catch(() => null)
+  const parsed = parseClientInput(payload, current)
+  if ('error' in parsed) {
+    return c.json({ error: parsed.error }, 400)
+  }
+  if (changesRetention(payload) && c.get('user').role !== 'admin') {
+    return c.json({ error: '保存期間の設定は管理者のみ変更できます' }, 403)
+  }
+  if (parsed.value.code && parsed.value.code !== current.code) {
+    const duplicate = await getClientByCode(c.env, parsed.value.code)
+    if (duplicate && duplicate.id !== current.id) {
+      return c.json({ error: 'この顧問先コードは既に使用されています' }, 409)
     }
+  }
 
-    const results = await Promise.all(
-      jobs.map((job) =>
-        processChunkJob(env, taskId, job, config)
-          .then((success) => (success ? 1 : 0))
-          .catch((error) => {
-            console.error('processChunkJob error', error)
-            return 0
-          })
-      )
-    )
+  const now = new Date().toISOString()
+  await c.env.DB.prepare(
+    `UPDATE clients SET name = ?, code = ?, fiscal_year_end_month = ?, assigned_staff = ?, audio_retention_days = ?, transcript_retention_years = ?, updated_at = ?
+     WHERE id = ?`
+  ).bind(
+    parsed.value.name,
+    parsed.value.code ?? null,
+    parsed.value.fiscalYearEndMonth ?? null,
+    parsed.value.assignedStaff ?? null,
+    parsed.value.audioRetentionDays ?? null,
+    parsed.value.transcriptRetentionYears ?? null,
+    now,
+    current.id
+  ).run()
+
+  return c.json({ client: { ...current, ...parsed.value, updatedAt: now } })
+})
 
-    processed += results.reduce((sum, value) => sum + value, 0)
-    if (jobs.length < concurrency) {
-      break
-    }
+app.delete('/api/clients/:clientId', requireRole('admin'), async (c) => {
+  const current = await getClient(c.env, c.req.param('clientId'))
+  if (!current) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
   }
 
-  const summary = await getChunkSummary(env, taskId)
-  return {
-    processed,
-    remaining: summary.queued,
-    summary
+  // Meetings stay; their client_id is cleared by ON DELETE SET NULL
+  await c.env.DB.prepare('DELETE FROM clients WHERE id = ?').bind(current.id).run()
+  return c.json({ success: true, clientId: current.id })
+})
+
+// Timeline of a client's meetings (newest first)
+app.get('/api/clients/:clientId/meetings', async (c) => {
+  const client = await getClient(c.env, c.req.param('clientId'))
+  if (!client) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
   }
-}
 
-async function getQueuedChunkJobs(
-  env: Bindings,
-  taskId: string,
-  limit: number,
-  batchLimit: number
-): Promise<ChunkJobRecord[]> {
-  const now = Date.now()
-  const STUCK_JOB_TIMEOUT_MS = 2 * 60 * 1000 // 2 minutes
-  
-  // First, detect and reset stuck processing jobs (updated_at > 2 minutes ago)
-  const stuckThreshold = new Date(now - STUCK_JOB_TIMEOUT_MS).toISOString()
-  const stuckReset = await env.DB.prepare(
-    `UPDATE chunk_jobs 
-     SET status = 'queued', processing_by = NULL, updated_at = ?
-     WHERE task_id = ? AND status = 'processing' AND updated_at < ?`
-  ).bind(new Date(now).toISOString(), taskId, stuckThreshold).run()
-  
-  if (stuckReset.meta.changes > 0) {
-    console.log(`Reset ${stuckReset.meta.changes} stuck processing jobs for task ${taskId}`)
+  const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200)
+  const from = c.req.query('from') || ''
+  const to = c.req.query('to') || ''
+
+  try {
+    const meetings = await listTasks(c.env, { limit, from, to, clientId: client.id, ownerId: visibleOwnerId(c.get('user')) })
+    return c.json({ client, meetings })
+  } catch (error) {
+    console.error('Failed to fetch client meetings:', error)
+    return c.json({ error: 'タスクの取得に失敗しました' }, 500)
   }
-  
-  // Also update chunk_states for reset jobs
-  if (stuckReset.meta.changes > 0) {
-    await env.DB.prepare(
-      `UPDATE chunk_states 
-       SET status = 'queued', updated_at = ?
-       WHERE task_id = ? AND status = 'processing'`
-    ).bind(new Date(now).toISOString(), taskId).run()
+})
+
+// Gemini cost of a client's meetings, per task; deleted tasks stay in the totals
+app.get('/api/clients/:clientId/costs', async (c) => {
+  const client = await getClient(c.env, c.req.param('clientId'))
+  if (!client) {
+    return c.json({ error: '顧問先が見つかりません' }, 404)
   }
-  
-  // CRITICAL: Check how many jobs are currently processing
-  // If we're at the concurrency limit, return empty array to prevent overload
-  const processingCount = await env.DB.prepare(
+
+  const { where, bindings } = buildApiCallFilter({
+    from: c.req.query('from'),
+    to: c.req.query('to'),
+    clientId: client.id,
+    ownerId: visibleOwnerId(c.get('user'))
+  })
+  const [totals, tasks] = await c.env.DB.batch([
+    c.env.DB.prepare(`SELECT ${API_CALL_TOTALS_COLUMNS} FROM api_calls ${where}`).bind(...bindings),
+    c.env.DB.prepare(
+      `SELECT task_id, (SELECT filename FROM tasks WHERE tasks.id = api_calls.task_id) as filename, MIN(created_at) as first_call_at,
+       ${API_CALL_TOTALS_COLUMNS} FROM api_calls ${where} GROUP BY task_id ORDER BY first_call_at DESC`
+    ).bind(...bindings)
+  ])
+
+  return c.json({
+    client,
+    totals: toApiCallTotals(totals.results?.[0] as Record<string, unknown>),
+    tasks: (tasks.results as Array<Record<string, unknown>>).map(row => ({
+      taskId: row.task_id as string,
+      filename: (row.filename as string | null) ?? undefined,
+      firstCallAt: row.first_call_at as string,
+      ...toApiCallTotals(row)
+    }))
+  })
+})
+
+// Full-text search over transcripts and minutes (FTS5 trigram index)
+app.get('/api/search', async (c) => {
+  const q = (c.req.query('q') || '').trim()
+  if (!q) {
+    return c.json({ error: '検索語を指定してください' }, 400)
+  }
+  if (q.length > SEARCH_QUERY_MAX_LENGTH) {
+    return c.json({ error: `検索語は${SEARCH_QUERY_MAX_LENGTH}文字以内で指定してください` }, 400)
+  }
+  const source = c.req.query('source') || ''
+  if (source && source !== 'transcript' && source !== 'minutes') {
+    return c.json({ error: 'sourceはtranscriptまたはminutesを指定してください' }, 400)
+  }
+  const limit = Math.min(parseInt(c.req.query('limit') || '20'), 100)
+
+  try {
+    const results = await searchContent(c.env, {
+      terms: q.split(/\s+/),
+      source: (source || undefined) as SearchSource | undefined,
+      clientId: c.req.query('clientId') || undefined,
+      ownerId: visibleOwnerId(c.get('user')),
+      limit
+    })
+    return c.json({ query: q, results })
+  } catch (error) {
+    console.error('Search failed:', error)
+    return c.json({ error: '検索に失敗しました' }, 500)
+  }
+})
+
+app.get('/api/tasks/:taskId/action-items', async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const items = await listActionItems(c.env, { taskId, limit: 500 })
+  return c.json({ taskId, items })
+})
+
+// Re-extract action items from the current minutes (e.g. after a manual edit or finalization)
+app.post('/api/tasks/:taskId/action-items/extract', async (c) => {
+  const taskId = c.req.param('taskId')
+  const task = await getTask(c.env, taskId)
+  if (!task) {
+    return c.json({ error: 'タスクが見つかりません' }, 404)
+  }
+
+  const models = await getModelSettings(c.env, task)
+  const provider = getSummarizationProvider(c.env, task.summarizationProvider, models.minutesModel)
+  if (!provider) {
+    return c.json({ error: '議事録生成プロバイダーのAPIキーが設定されていません' }, 500)
+  }
+  if (provider.name === 'gemini') {
+    const budget = await checkBudget(c.env, taskId, { operation: 'action_items' })
+    if (budget.state === 'exceeded') {
+      return c.json({ error: 'API予算の上限に達しているためTODOを抽出できません。管理者に上限の引き上げを依頼してください', budget }, 402)
+    }
+  }
+
+  try {
+    const result = await extractActionItems(c.env, task, provider)
+    if (!result) {
+      return c.json({ error: '議事録がまだ生成されていません' }, 409)
+    }
+    const items = await listActionItems(c.env, { taskId, limit: 500 })
+    return c.json({ taskId, ...result, items })
+  } catch (error) {
+    console.error('Action item extraction failed:', error)
+    return c.json({ error: 'TODOの抽出に失敗しました' }, 500)
+  }
+})
+
+app.get('/api/action-items', async (c) => {
+  const statuses = (c.req.query('status') || '').split(',').map(value => value.trim()).filter(Boolean)
+  if (statuses.some(value => !ACTION_ITEM_STATUSES.includes(value as ActionItemStatus))) {
+    return c.json({ error: `statusは${ACTION_ITEM_STATUSES.join(', ')}のいずれか（カンマ区切り）で指定してください` }, 400)
+  }
+  const dueBefore = c.req.query('dueBefore') || ''
+  if (dueBefore && !/^\d{4}-\d{2}-\d{2}$/.test(dueBefore)) {
+    return c.json({ error: 'dueBeforeはYYYY-MM-DD形式で指定してください' }, 400)
+  }
+  const limit = Math.min(parseInt(c.req.query('limit') || '100'), 500)
+
+  const items = await listActionItems(c.env, {
+    statuses: statuses as ActionItemStatus[],
+    assignee: c.req.query('assignee') || undefined,
+    clientId: c.req.query('clientId') || undefined,
+    taskId: c.req.query('taskId') || undefined,
+    dueBefore: dueBefore || undefined,
+    ownerId: visibleOwnerId(c.get('user')),
+    limit
+  })
+  return c.json({ items })
+})
+
+// Open items across all meetings, grouped by assignee
+app.get('/api/action-items/assignees', async (c) => {
+  const items = await listActionItems(c.env, {
+    statuses: ['open', 'in_progress'],
+    clientId: c.req.query('clientId') || undefined,
+    ownerId: visibleOwnerId(c.get('user')),
+    limit: 2000
+  })
+  const today = new Date().toISOString().slice(0, 10)
+
+  const groups = new Map<string, typeof items>()
+  for (const item of items) {
+    const key = item.assignee ?? ''
+    const group = groups.get(key) ?? []
+    group.push(item)
+    groups.set(key, group)
+  }
+
+  const assignees = Array.from(groups.entries())
+    .map(([assignee, group]) => ({
+      assignee: assignee || null,
+      openCount: group.length,
+      overdueCount: group.filter(item => item.dueDate && item.dueDate < today).length,
+      nextDueDate: group.find(item => item.dueDate)?.dueDate ?? null,
+      items: group
+    }))
+    .sort((a, b) => b.overdueCount - a.overdueCount || b.openCount - a.openCount)
+
+  return c.json({ today, assignees })
+})
+
+app.patch('/api/action-items/:itemId', async (c) => {
+  const current = await getActionItem(c.env, c.req.param('itemId'))
+  const owner = current ? await getTaskScope(c.env, current.taskId) : null
+  if (!current || !owner || !canAccessTask(c.get('user'), owner.ownerId)) {
+    return c.json({ error: 'TODOが見つかりません' }, 404)
+  }
+
+  const payload = await c.req.json().catch(() => null)
+  if (!payload || typeof payload !== 'object') {
+    return c.json({ error: '更新内容を指定してください' }, 400)
+  }
+
+  const updated = { ...current }
+  if (payload.status !== undefined) {
+    if (!ACTION_ITEM_STATUSES.includes(payload.status)) {
+      return c.json({ error: `statusは${ACTION_ITEM_STATUSES.join(', ')}のいずれかを指定してください` }, 400)
+    }
+    updated.status = payload.status
+  }
+  if (payload.dueDate !== undefined) {
+    if (payload.dueDate !== null && (typeof payload.dueDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(payload.dueDate))) {
+      return c.json({ error: 'dueDateはYYYY-MM-DD形式（解除する場合はnull）で指定してください' }, 400)
+    }
+    updated.dueDate = payload.dueDate ?? undefined
+  }
+  if (payload.assignee !== undefined) {
+    if (payload.assignee !== null && (typeof payload.assignee !== 'string' || payload.assignee.trim().length > ACTION_ITEM_TEXT_MAX_LENGTH)) {
+      return c.json({ error: `assigneeは${ACTION_ITEM_TEXT_MAX_LENGTH}文字以内で指定してください` }, 400)
+    }
+    updated.assignee = payload.assignee?.trim() || undefined
+  }
+  if (payload.description !== undefined) {
+    const description = typeof payload.description === 'string' ? payload.description.trim() : ''
+    if (!description || description.length > ACTION_ITEM_TEXT_MAX_LENGTH) {
+      return c.json({ error: `descriptionは${ACTION_ITEM_TEXT_MAX_LENGTH}文字以内で指定してください` }, 400)
+    }
+    updated.description = description
+  }
+
+  const now = new Date().toISOString()
+  updated.edited = true
+  updated.updatedBy = getRevisionAuthor(c.get('user'))
+  updated.updatedAt = now
+
+  await c.env.DB.prepare(
+    `UPDATE action_items SET assignee = ?, description = ?, due_date = ?, status = ?, edited = 1, updated_by = ?, updated_at = ?
+     WHERE id = ?`
+  ).bind(updated.assignee ?? null, updated.description, updated.dueDate ?? null, updated.status, updated.updatedBy ?? null, now, current.id).run()
+
+  await appendTaskLog(c.env, current.taskId, {
+    level: 'info',
+    message: 'Action item updated',
+    context: {
+      itemId: current.id,
+      previousStatus: current.status,
+      status: updated.status,
+      dueDate: updated.dueDate,
+      author: updated.updatedBy
+    }
+  })
+
+  return c.json({ item: updated })
+})
+
+// Admin routes: diagnostics and repair tools, admin role only, every call audited
+const admin = new Hono<AppEnv>()
+
+admin.use('*', requireRole('admin'))
+
+// Dependency health probe; reports pass/fail only (no key material or error bodies)
+admin.get('/health', auditAction('admin.health'), async (c) => {
+  const [gemini, r2, d1] = await Promise.all([
+    runHealthProbe(async () => {
+      const apiKey = c.env.GEMINI_API_KEY
+      if (!apiKey) return false
+      // models.list is free and does not generate anything
+      const response = await fetch(`${GEMINI_API_BASE}/v1beta/models?pageSize=1&key=${apiKey}`, {
+        signal: AbortSignal.timeout(HEALTH_PROBE_TIMEOUT_MS)
+      })
+      return response.ok
+    }),
+    runHealthProbe(async () => {
+      await c.env.AUDIO_CHUNKS.head(HEALTH_PROBE_R2_KEY)
+      return true
+    }),
+    runHealthProbe(async () => {
+      const result = await c.env.DB.prepare('SELECT 1 as ok').first<{ ok: number }>()
+      return result?.ok === 1
+    })
+  ])
+
+  const ok = gemini.ok && r2.ok && d1.ok
+  return c.json({ ok, checks: { gemini, r2, d1 } }, ok ? 200 : 503)
+})
+
+admin.get('/audit', auditAction('admin.audit_read'), async (c) => {
+  const from = c.req.query('from') || ''
+  const to = c.req.query('to') || ''
+  const limit = Math.min(parseInt(c.req.query('limit') || '100'), 500)
+  const beforeId = parseInt(c.req.query('beforeId') || '')
+
+  const conditions: string[] = []
+  const bindings: any[] = []
+  const filters: Array<[string, string | undefined]> = [
+    ['task_id', c.req.query('taskId')],
+    ['client_id', c.req.query('clientId')],
+    ['actor_id', c.req.query('actorId')],
+    ['action', c.req.query('action')]
+  ]
+  for (const [column, value] of filters) {
+    if (value) {
+      conditions.push(`${column} = ?`)
+      bindings.push(value)
+    }
+  }
+  if (from) {
+    conditions.push('DATE(occurred_at) >= DATE(?)')
+    bindings.push(from)
+  }
+  if (to) {
+    conditions.push('DATE(occurred_at) <= DATE(?)')
+    bindings.push(to)
+  }
+  // Cursor for paging back through older events
+  if (Number.isFinite(beforeId)) {
+    conditions.push('id < ?')
+    bindings.push(beforeId)
+  }
+
+  let sql = 'SELECT * FROM audit_events'
+  if (conditions.length > 0) {
+    sql += ' WHERE ' + conditions.join(' AND ')
+  }
+  sql += ' ORDER BY id DESC LIMIT ?'
+  bindings.push(limit)
+
+  const results = await c.env.DB.prepare(sql).bind(...bindings).all<{
+    id: number
+    occurred_at: string
+    actor_id: string | null
+    actor_email: string | null
+    action: string
+    task_id: string | null
+    client_id: string | null
+    method: string
+    path: string
+    status: number
+    ip: string | null
+    user_agent: string | null
+    details: string | null
+  }>()
+
+  const events = (results.results || []).map(row => ({
+    id: row.id,
+    occurredAt: row.occurred_at,
+    actorId: row.actor_id ?? undefined,
+    actorEmail: row.actor_email ?? undefined,
+    action: row.action,
+    taskId: row.task_id ?? undefined,
+    clientId: row.client_id ?? undefined,
+    method: row.method,
+    path: row.path,
+    status: row.status,
+    ip: row.ip ?? undefined,
+    userAgent: row.user_agent ?? undefined,
+    details: row.details ? JSON.parse(row.details) : undefined
+  }))
+
+  return c.json({
+    events,
+    nextBeforeId: events.length === limit ? events[events.length - 1].id : null
+  })
+})
+
+// Retention policy, legal holds and recent purges
+admin.get('/retention', auditAction('admin.retention_read'), async (c) => {
+  const config = getRuntimeConfig(c.env)
+  const [overrides, holds, purges] = await Promise.all([
+    c.env.DB.prepare(
+      `SELECT id, name, code, audio_retention_days, transcript_retention_years FROM clients
+       WHERE audio_retention_days IS NOT NULL OR transcript_retention_years IS NOT NULL ORDER BY code, name`
+    ).all<{ id: string; name: string; code: string | null; audio_retention_days: number | null; transcript_retention_years: number | null }>(),
+    c.env.DB.prepare(
+      'SELECT id, filename, client_id, legal_hold_reason, created_at FROM tasks WHERE legal_hold = 1 ORDER BY created_at DESC'
+    ).all<{ id: string; filename: string | null; client_id: string | null; legal_hold_reason: string | null; created_at: string }>(),
+    c.env.DB.prepare(
+      'SELECT * FROM retention_purges ORDER BY id DESC LIMIT 100'
+    ).all<{ id: number; task_id: string; client_id: string | null; kind: RetentionPurgeKind; retention: string; r2_objects_deleted: number; rows_deleted: number; triggered_by: string; purged_at: string }>()
+  ])
+
+  return c.json({
+    policy: {
+      audioRetentionDays: config.audioRetentionDays,
+      transcriptRetentionYears: config.transcriptRetentionYears
+    },
+    clientOverrides: (overrides.results || []).map(row => ({
+      clientId: row.id,
+      name: row.name,
+      code: row.code ?? undefined,
+      audioRetentionDays: row.audio_retention_days ?? undefined,
+      transcriptRetentionYears: row.transcript_retention_years ?? undefined
+    })),
+    legalHolds: (holds.results || []).map(row => ({
+      taskId: row.id,
+      filename: row.filename ?? undefined,
+      clientId: row.client_id ?? undefined,
+      reason: row.legal_hold_reason ?? undefined,
+      createdAt: row.created_at
+    })),
+    recentPurges: (purges.results || []).map(row => ({
+      id: row.id,
+      taskId: row.task_id,
+      clientId: row.client_id ?? undefined,
+      kind: row.kind,
+      retention: row.retention,
+      r2ObjectsDeleted: row.r2_objects_deleted,
+      rowsDeleted: row.rows_deleted,
+      triggeredBy: row.triggered_by,
+      purgedAt: row.purged_at
+    }))
+  })
+})
+
+// Models in effect and where each comes from (settings row, wrangler var or built-in default)
+admin.get('/settings', auditAction('admin.settings_read'), async (c) => {
+  return c.json(await describeSettings(c.env))
+})
+
+// Change the default models and the price table without a redeploy; null removes the override
+admin.put('/settings', auditAction('admin.settings_update'), async (c) => {
+  const payload = await c.req.json().catch(() => null)
+  if (!payload || typeof payload !== 'object') {
+    return c.json({ error: '設定値をJSONで指定してください' }, 400)
+  }
+
+  const updates: Array<{ key: SettingKey; value: string | null }> = []
+  for (const [field, key, options] of [
+    ['transcriptionModel', 'transcription_model', TRANSCRIPTION_MODEL_OPTIONS],
+    ['minutesModel', 'minutes_model', MINUTES_MODEL_OPTIONS]
+  ] as const) {
+    const value = payload[field]
+    if (value === undefined) continue
+    if (value !== null && !options.includes(value)) {
+      return c.json({ error: `${field}は${options.join('・')}のいずれかを指定してください` }, 400)
+    }
+    updates.push({ key, value })
+  }
+  if (payload.modelPrices !== undefined) {
+    const prices = payload.modelPrices === null ? null : parseModelPrices(payload.modelPrices)
+    if (payload.modelPrices !== null && !prices) {
+      return c.json({ error: 'modelPricesはモデル名ごとに { input, output, audioInput? }（USD / 100万トークン、0以上）を指定してください' }, 400)
+    }
+    updates.push({ key: 'model_prices', value: prices ? JSON.stringify(prices) : null })
+  }
+  for (const [field, key] of [['budgetMonthlyUsd', 'budget_monthly_usd'], ['budgetDailyUsd', 'budget_daily_usd']] as const) {
+    const value = payload[field]
+    if (value === undefined) continue
+    if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+      return c.json({ error: `${field}は0より大きい金額（USD）かnullを指定してください` }, 400)
+    }
+    updates.push({ key, value: value === null ? null : String(value) })
+  }
+  if (updates.length === 0) {
+    return c.json({ error: '変更する設定がありません' }, 400)
+  }
+
+  const now = new Date().toISOString()
+  const updatedBy = c.get('user').email
+  await c.env.DB.batch(updates.map(({ key, value }) => value === null
+    ? c.env.DB.prepare('DELETE FROM settings WHERE key = ?').bind(key)
+    : c.env.DB.prepare(
+      `INSERT INTO settings (key, value, updated_at, updated_by) VALUES (?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at, updated_by = excluded.updated_by`
+    ).bind(key, value, now, updatedBy)
+  ))
+
+  // Raising (or removing) a cap lets the paused chunks continue
+  const resumed = updates.some(({ key }) => key === 'budget_monthly_usd' || key === 'budget_daily_usd')
+    ? await resumeBudgetPausedJobs(c.env)
+    : 0
+
+  return c.json({ ...(await describeSettings(c.env)), resumedChunkJobs: resumed })
+})
+
+// Spend against the daily and monthly caps, and the chunk jobs paused by them
+admin.get('/budget', auditAction('admin.budget_read'), async (c) => {
+  const [status, paused] = await Promise.all([
+    getBudgetStatus(c.env),
+    c.env.DB.prepare(
+      `SELECT task_id, COUNT(*) as chunks, MIN(paused_at) as paused_at FROM chunk_jobs
+       WHERE paused_at IS NOT NULL GROUP BY task_id ORDER BY paused_at`
+    ).all<{ task_id: string; chunks: number; paused_at: string }>()
+  ])
+
+  return c.json({
+    ...status,
+    warningRatio: BUDGET_WARNING_RATIO,
+    pausedTasks: (paused.results || []).map(row => ({
+      taskId: row.task_id,
+      chunks: row.chunks,
+      pausedAt: row.paused_at
+    }))
+  })
+})
+
+// Re-enqueue paused chunks now (e.g. after the daily window rolled over); no-op while a cap is still exceeded
+admin.post('/budget/resume', auditAction('admin.budget_resume'), async (c) => {
+  const status = await getBudgetStatus(c.env)
+  if (status.state === 'exceeded') {
+    return c.json({ error: 'API予算の上限を超えているため再開できません。上限を引き上げてください', budget: status }, 409)
+  }
+  return c.json({ resumedChunkJobs: await resumeBudgetPausedJobs(c.env) })
+})
+
+// Run the purge now; ?dryRun=1 only lists what would be removed
+admin.post('/retention/run', auditAction('admin.retention_run'), async (c) => {
+  const dryRun = c.req.query('dryRun') === '1' || c.req.query('dryRun') === 'true'
+  const report = await runRetentionPurge(c.env, { now: new Date(), triggeredBy: 'manual', dryRun })
+  return c.json({ dryRun, ...report })
+})
+
+// Delete chunk audio of tasks completed more than CHUNK_AUDIO_GRACE_DAYS ago and of deleted tasks; ?dryRun=1 only lists them
+admin.post('/chunk-audio/sweep', auditAction('admin.chunk_audio_sweep'), async (c) => {
+  const dryRun = c.req.query('dryRun') === '1' || c.req.query('dryRun') === 'true'
+  const report = await runChunkAudioSweep(c.env, { now: new Date(), dryRun })
+  return c.json({ dryRun, ...report })
+})
+
+// Fix chunk states inconsistency
+admin.post('/tasks/:taskId/fix-chunk-states', auditAction('admin.fix_chunk_states'), async (c) => {
+  const taskId = c.req.param('taskId')
+  
+  try {
+    // Get all completed chunks from chunks table
+    const chunksResult = await c.env.DB.prepare(
+      `SELECT DISTINCT chunk_index FROM chunks WHERE task_id = ? ORDER BY chunk_index`
+    ).bind(taskId).all()
+    
+    const completedChunks = chunksResult.results?.map((r: any) => r.chunk_index) || []
+    
+    // Update chunk_states table to mark them as completed
+    let fixed = 0
+    for (const chunkIndex of completedChunks) {
+      await saveChunkState(c.env, taskId, {
+        index: chunkIndex,
+        status: 'completed',
+        attempts: 0,
+        updatedAt: new Date().toISOString()
+      })
+      fixed++
+    }
+    
+    // Mark stuck chunk_jobs as completed (kept for their R2 audio)
+    await c.env.DB.prepare(
+      `UPDATE chunk_jobs SET status = 'completed', processing_by = NULL, updated_at = ? WHERE task_id = ? AND chunk_index IN (${completedChunks.join(',')})`
+    ).bind(new Date().toISOString(), taskId).run()
+    
+    await appendTaskLog(c.env, taskId, {
+      level: 'info',
+      message: 'Chunk states fixed by admin',
+      context: {
+        fixedChunks: fixed,
+        completedChunks
+      }
+    })
+    
+    return c.json({ 
+      success: true,
+      fixed,
+      completedChunks
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: errorMessage }, 500)
+  }
+})
+
+app.route('/api/admin', admin)
+
+// Queue Consumer handler (separate from Hono app)
+async function queueHandler(batch: MessageBatch<ChunkJobMessage>, env: Bindings): Promise<void> {
+  console.log(`[Queue Consumer] Processing ${batch.messages.length} messages`)
+  
+  for (const message of batch.messages) {
+    const { taskId, chunkIndex, r2Key, model, instructions, skipPreflight } = message.body
+    
+    try {
+      console.log(`[Queue Consumer] Processing chunk ${chunkIndex} for task ${taskId}`)
+      const outcome = await runChunkJob(env, taskId, chunkIndex, { r2Key, model, instructions, skipPreflight })
+
+      // Backoff lives in chunk_jobs.retry_at (shared with /process); the message comes back once it has passed.
+      // A job held by another worker comes back when it turns stale, so a worker that died mid-chunk is taken over
+      const resendAt = outcome.status === 'retry' || outcome.status === 'deferred'
+        ? outcome.retryAt
+        : outcome.status === 'busy' ? outcome.staleAt : null
+      if (resendAt) {
+        const delaySeconds = Math.ceil((Date.parse(resendAt) - Date.now()) / 1000)
+        await env.TRANSCRIPTION_QUEUE.send(message.body, {
+          delaySeconds: clampNumber(delaySeconds, 0, QUEUE_MAX_DELAY_SECONDS)
+        })
+      }
+
+      console.log(`[Queue Consumer] Chunk ${chunkIndex} for task ${taskId}: ${outcome.status}`)
+      message.ack()
+    } catch (error) {
+      // D1/R2 failures outside the job's own attempts; Cloudflare redelivers up to max_retries in wrangler.toml
+      console.error(`[Queue Consumer] Error processing chunk ${chunkIndex}:`, error)
+      message.retry()
+    }
+  }
+}
+
+// Export Workers handlers
+export default {
+  async fetch(request: Request, env: Bindings, ctx: ExecutionContext) {
+    return app.fetch(request, env, ctx)
+  },
+  async queue(batch: MessageBatch<ChunkJobMessage>, env: Bindings) {
+    return queueHandler(batch, env)
+  },
+  async scheduled(controller: ScheduledController, env: Bindings, ctx: ExecutionContext) {
+    const now = new Date(controller.scheduledTime)
+    const resumeBudget = () => resumeBudgetPausedJobs(env)
+      .then((resumed) => console.log('Budget-paused chunks resumed', JSON.stringify({ resumed })))
+      .catch((error) => console.error('Budget resume failed', error))
+
+    // Chunks paused by the daily cap continue as soon as the window rolls over
+    if (controller.cron === BUDGET_RESUME_CRON) {
+      ctx.waitUntil(resumeBudget())
+      return
+    }
+
+    // Each job runs even when the one before it failed
+    ctx.waitUntil(
+      runRetentionPurge(env, { now, triggeredBy: 'scheduled' })
+        .then((report) => console.log('Retention purge completed', JSON.stringify({ purged: report.purged.length, failed: report.failed.length })))
+        .catch((error) => console.error('Retention purge failed', error))
+        .then(() => runChunkAudioSweep(env, { now }))
+        .then((report) => console.log('Chunk audio sweep completed', JSON.stringify({ swept: report.swept.length, orphans: report.orphans.length, failed: report.failed.length })))
+        .catch((error) => console.error('Chunk audio sweep failed', error))
+        // Fallback for the 00:00 UTC run
+        .then(resumeBudget)
+    )
+  }
+}
+
+function getRuntimeConfig(env: Bindings): RuntimeConfig {
+  const chunkSizeBytes = clampNumber(parseInteger(env.CHUNK_SIZE_BYTES, DEFAULT_CHUNK_SIZE_BYTES), MIN_CHUNK_SIZE_BYTES, MAX_CHUNK_SIZE_BYTES)
+  const overlapSeconds = clampNumber(parseInteger(env.CHUNK_OVERLAP_SECONDS, DEFAULT_CHUNK_OVERLAP_SECONDS), 0, 30)
+  const transcriptionConcurrency = clampNumber(
+    parseInteger(env.TRANSCRIPTION_MAX_CONCURRENCY, DEFAULT_TRANSCRIPTION_CONCURRENCY),
+    1,
+    MAX_CONCURRENCY_LIMIT
+  )
+  const chunkJobMaxAttempts = clampNumber(
+    parseInteger(env.CHUNK_JOB_MAX_ATTEMPTS, DEFAULT_CHUNK_JOB_MAX_ATTEMPTS),
+    1,
+    MAX_CHUNK_JOB_ATTEMPTS_LIMIT
+  )
+  const uploadConcurrency = clampNumber(parseInteger(env.UPLOAD_CONCURRENCY, DEFAULT_UPLOAD_CONCURRENCY), 1, MAX_CONCURRENCY_LIMIT)
+  const transcriptionOutputMode: TranscriptionOutputMode =
+    env.TRANSCRIPTION_OUTPUT_MODE === 'text' || env.TRANSCRIPTION_OUTPUT_MODE === 'json'
+      ? env.TRANSCRIPTION_OUTPUT_MODE
+      : DEFAULT_TRANSCRIPTION_OUTPUT_MODE
+
+  // Retention is off unless configured (0 or unset = keep forever)
+  const audioRetentionDays = parseInteger(env.AUDIO_RETENTION_DAYS, 0)
+  const transcriptRetentionYears = parseInteger(env.TRANSCRIPT_RETENTION_YEARS, 0)
+
+  return {
+    chunkSizeBytes,
+    overlapSeconds,
+    chunkDurationSeconds: clampNumber(
+      parseInteger(env.CHUNK_DURATION_SECONDS, DEFAULT_CHUNK_DURATION_SECONDS),
+      MIN_CHUNK_DURATION_SECONDS,
+      MAX_CHUNK_DURATION_SECONDS
+    ),
+    transcriptionConcurrency,
+    chunkJobMaxAttempts,
+    uploadConcurrency,
+    transcriptionOutputMode,
+    transcriptionProvider: TRANSCRIPTION_PROVIDERS.find(name => name === env.TRANSCRIPTION_PROVIDER) ?? DEFAULT_TRANSCRIPTION_PROVIDER,
+    summarizationProvider: SUMMARIZATION_PROVIDERS.find(name => name === env.SUMMARIZATION_PROVIDER) ?? DEFAULT_SUMMARIZATION_PROVIDER,
+    transcriptionModel: env.TRANSCRIPTION_MODEL?.trim() || DEFAULT_TRANSCRIPTION_MODEL,
+    minutesModel: env.MINUTES_MODEL?.trim() || DEFAULT_MINUTES_MODEL,
+    audioRetentionDays: audioRetentionDays > 0 ? audioRetentionDays : null,
+    transcriptRetentionYears: transcriptRetentionYears > 0 ? transcriptRetentionYears : null,
+    chunkAudioGraceDays: Math.max(0, parseInteger(env.CHUNK_AUDIO_GRACE_DAYS, DEFAULT_CHUNK_AUDIO_GRACE_DAYS))
+  }
+}
+
+async function getSettings(env: Bindings): Promise<Map<SettingKey, { value: string; updatedAt: string; updatedBy?: string }>> {
+  const rows = await env.DB.prepare(
+    `SELECT key, value, updated_at, updated_by FROM settings WHERE key IN (${SETTING_KEYS.map(() => '?').join(',')})`
+  ).bind(...SETTING_KEYS).all<{ key: SettingKey; value: string; updated_at: string; updated_by: string | null }>()
+  return new Map((rows.results || []).map(row => [row.key, {
+    value: row.value,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by ?? undefined
+  }]))
+}
+
+/**
+ * Models for a task (or the defaults for new tasks when no task is given).
+ */
+async function getModelSettings(
+  env: Bindings,
+  task?: Pick<TaskRecord, 'transcriptionModel' | 'minutesModel'> | null
+): Promise<ModelSettings> {
+  const config = getRuntimeConfig(env)
+  const settings = await getSettings(env)
+  return {
+    transcriptionModel: task?.transcriptionModel ?? settings.get('transcription_model')?.value ?? config.transcriptionModel,
+    minutesModel: task?.minutesModel ?? settings.get('minutes_model')?.value ?? config.minutesModel
+  }
+}
+
+/**
+ * Price table used for api_calls.cost_usd: the settings row layered over DEFAULT_MODEL_PRICES.
+ */
+async function getModelPrices(env: Bindings): Promise<Record<string, ModelPrice>> {
+  const row = (await getSettings(env)).get('model_prices')
+  return row ? { ...DEFAULT_MODEL_PRICES, ...JSON.parse(row.value) } : DEFAULT_MODEL_PRICES
+}
+
+function parseModelPrices(value: unknown): Record<string, ModelPrice> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const isPrice = (price: unknown) => typeof price === 'number' && Number.isFinite(price) && price >= 0
+  const prices: Record<string, ModelPrice> = {}
+  for (const [model, entry] of Object.entries(value as Record<string, any>)) {
+    if (!model || !entry || typeof entry !== 'object') return null
+    if (!isPrice(entry.input) || !isPrice(entry.output) || (entry.audioInput !== undefined && !isPrice(entry.audioInput))) return null
+    prices[model] = { input: entry.input, audioInput: entry.audioInput, output: entry.output }
+  }
+  return prices
+}
+
+function describeBudgetCap(row: { value: string; updatedAt: string; updatedBy?: string } | undefined) {
+  return row
+    ? { value: Number(row.value), source: 'settings', updatedAt: row.updatedAt, updatedBy: row.updatedBy }
+    : { value: null, source: 'default' }
+}
+
+/**
+ * Recorded Gemini spend (api_calls.cost_usd) against the caps in settings. Unset caps never pause anything.
+ */
+async function getBudgetStatus(env: Bindings, now = new Date()): Promise<BudgetStatus> {
+  const settings = await getSettings(env)
+  const dayStart = `${now.toISOString().slice(0, 10)}T00:00:00.000Z`
+  const monthStart = `${now.toISOString().slice(0, 7)}-01T00:00:00.000Z`
+  const spend = await env.DB.prepare(
+    `SELECT SUM(CASE WHEN created_at >= ? THEN cost_usd ELSE 0 END) as daily, SUM(cost_usd) as monthly
+     FROM api_calls WHERE created_at >= ?`
+  ).bind(dayStart, monthStart).first<{ daily: number | null; monthly: number | null }>()
+
+  const toWindow = (key: SettingKey, spent: number, since: string): BudgetWindow => {
+    const cap = settings.has(key) ? Number(settings.get(key)!.value) : null
+    const capUsd = cap !== null && Number.isFinite(cap) && cap > 0 ? cap : null
+    const state: BudgetState = capUsd === null
+      ? 'ok'
+      : spent >= capUsd ? 'exceeded' : spent >= capUsd * BUDGET_WARNING_RATIO ? 'warning' : 'ok'
+    return { capUsd, spentUsd: Math.round(spent * 1_000_000) / 1_000_000, since, state }
+  }
+  const daily = toWindow('budget_daily_usd', spend?.daily ?? 0, dayStart)
+  const monthly = toWindow('budget_monthly_usd', spend?.monthly ?? 0, monthStart)
+  const state: BudgetState = [daily.state, monthly.state].includes('exceeded')
+    ? 'exceeded'
+    : [daily.state, monthly.state].includes('warning') ? 'warning' : 'ok'
+  return { state, daily, monthly }
+}
+
+/**
+ * Budget gate before a Gemini call. Near or over a cap it leaves a warning in the task log;
+ * the caller decides what to do when the state is 'exceeded'.
+ */
+async function checkBudget(env: Bindings, taskId: string, context: Record<string, unknown>): Promise<BudgetStatus> {
+  const budget = await getBudgetStatus(env)
+  if (budget.state !== 'ok') {
+    await appendTaskLog(env, taskId, {
+      level: 'warn',
+      message: budget.state === 'exceeded' ? 'API budget exceeded' : 'API budget nearly exhausted',
+      context: {
+        ...context,
+        dailySpentUsd: budget.daily.spentUsd,
+        dailyCapUsd: budget.daily.capUsd,
+        monthlySpentUsd: budget.monthly.spentUsd,
+        monthlyCapUsd: budget.monthly.capUsd
+      }
+    })
+  }
+  return budget
+}
+
+/**
+ * Send the chunk jobs paused by the budget back to the queue. Returns how many were re-enqueued.
+ */
+async function resumeBudgetPausedJobs(env: Bindings): Promise<number> {
+  if ((await getBudgetStatus(env)).state === 'exceeded') return 0
+
+  const jobs = await env.DB.prepare(
+    `SELECT task_id, chunk_index, start_ms, end_ms, mime_type, r2_key, size_bytes, model FROM chunk_jobs
+     WHERE paused_at IS NOT NULL AND r2_key IS NOT NULL ORDER BY task_id, chunk_index`
+  ).all<{ task_id: string; chunk_index: number; start_ms: number; end_ms: number; mime_type: string; r2_key: string; size_bytes: number; model: string | null }>()
+
+  const now = new Date().toISOString()
+  let resumed = 0
+  for (const job of jobs.results || []) {
+    await env.DB.prepare(
+      'UPDATE chunk_jobs SET paused_at = NULL, updated_at = ? WHERE task_id = ? AND chunk_index = ?'
+    ).bind(now, job.task_id, job.chunk_index).run()
+    await env.TRANSCRIPTION_QUEUE.send({
+      taskId: job.task_id,
+      chunkIndex: job.chunk_index,
+      r2Key: job.r2_key,
+      startMs: job.start_ms,
+      endMs: job.end_ms,
+      mimeType: job.mime_type,
+      sizeBytes: job.size_bytes,
+      model: job.model ?? undefined
+    })
+    resumed++
+  }
+
+  const taskIds = [...new Set((jobs.results || []).map(job => job.task_id))]
+  for (const taskId of taskIds) {
+    await appendTaskLog(env, taskId, {
+      level: 'info',
+      message: 'Chunks resumed after budget pause',
+      context: { chunks: (jobs.results || []).filter(job => job.task_id === taskId).map(job => job.chunk_index) }
+    })
+  }
+  return resumed
+}
+
+async function describeSettings(env: Bindings) {
+  const config = getRuntimeConfig(env)
+  const settings = await getSettings(env)
+  const describe = (key: SettingKey, envValue: string | undefined, fallback: string) => {
+    const row = settings.get(key)
+    if (row) return { value: row.value, source: 'settings', updatedAt: row.updatedAt, updatedBy: row.updatedBy }
+    return { value: fallback, source: envValue?.trim() ? 'env' : 'default' }
+  }
+  const prices = settings.get('model_prices')
+  return {
+    transcriptionModel: describe('transcription_model', env.TRANSCRIPTION_MODEL, config.transcriptionModel),
+    minutesModel: describe('minutes_model', env.MINUTES_MODEL, config.minutesModel),
+    modelPrices: prices
+      ? { value: { ...DEFAULT_MODEL_PRICES, ...JSON.parse(prices.value) }, source: 'settings', updatedAt: prices.updatedAt, updatedBy: prices.updatedBy }
+      : { value: DEFAULT_MODEL_PRICES, source: 'default' },
+    budgetMonthlyUsd: describeBudgetCap(settings.get('budget_monthly_usd')),
+    budgetDailyUsd: describeBudgetCap(settings.get('budget_daily_usd')),
+    options: {
+      transcriptionModel: TRANSCRIPTION_MODEL_OPTIONS,
+      minutesModel: MINUTES_MODEL_OPTIONS
+    }
+  }
+}
+
+function parseInteger(value: string | undefined, fallback: number): number {
+  if (!value) return fallback
+  const parsed = Number.parseInt(value, 10)
+  if (!Number.isFinite(parsed)) return fallback
+  return parsed
+}
+
+function clampNumber(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min
+  if (value < min) return min
+  if (value > max) return max
+  return value
+}
+
+async function ensureTaskTranscribing(env: Bindings, task: TaskRecord): Promise<TaskRecord> {
+  if (task.status === 'initialized') {
+    const now = new Date().toISOString()
+    await env.DB.prepare(
+      'UPDATE tasks SET status = ?, updated_at = ? WHERE id = ?'
+    ).bind('transcribing', now, task.id).run()
+    return {
+      ...task,
+      status: 'transcribing',
+      updatedAt: now
+    }
+  }
+  return task
+}
+
+async function processChunkQueue(env: Bindings, taskId: string, options: ProcessQueueOptions = {}) {
+  const { maxIterations = 50 } = options
+  const config = getRuntimeConfig(env)
+  const concurrency = Math.max(1, config.transcriptionConcurrency)
+  const batchLimit = Math.max(concurrency * CHUNK_QUEUE_BATCH_MULTIPLIER, concurrency)
+  let processed = 0
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const jobs = await getQueuedChunkJobs(env, taskId, concurrency, batchLimit)
+    if (jobs.length === 0) {
+      break
+    }
+
+    const results = await Promise.all(
+      jobs.map((job) =>
+        runChunkJob(env, taskId, job.index)
+          .then((outcome) => (outcome.status === 'completed' ? 1 : 0))
+          .catch((error) => {
+            console.error('runChunkJob error', error)
+            return 0
+          })
+      )
+    )
+
+    processed += results.reduce<number>((sum, value) => sum + value, 0)
+    if (jobs.length < concurrency) {
+      break
+    }
+  }
+
+  const summary = await getChunkSummary(env, taskId)
+  return {
+    processed,
+    remaining: summary.queued,
+    summary
+  }
+}
+
+async function getQueuedChunkJobs(
+  env: Bindings,
+  taskId: string,
+  limit: number,
+  batchLimit: number
+): Promise<ChunkJobRecord[]> {
+  const now = Date.now()
+  
+  // First, detect and reset stuck processing jobs (same threshold the queue consumer uses to take over a job)
+  const stuckThreshold = new Date(now - CHUNK_PROCESSING_STALE_MS).toISOString()
+  const stuckReset = await env.DB.prepare(
+    `UPDATE chunk_jobs 
+     SET status = 'queued', processing_by = NULL, updated_at = ?
+     WHERE task_id = ? AND status = 'processing' AND updated_at < ?`
+  ).bind(new Date(now).toISOString(), taskId, stuckThreshold).run()
+  
+  if (stuckReset.meta.changes > 0) {
+    console.log(`Reset ${stuckReset.meta.changes} stuck processing jobs for task ${taskId}`)
+  }
+  
+  // Also update chunk_states for reset jobs
+  if (stuckReset.meta.changes > 0) {
+    await env.DB.prepare(
+      `UPDATE chunk_states 
+       SET status = 'queued', updated_at = ?
+       WHERE task_id = ? AND status = 'processing'`
+    ).bind(new Date(now).toISOString(), taskId).run()
+  }
+  
+  // CRITICAL: Check how many jobs are currently processing
+  // If we're at the concurrency limit, return empty array to prevent overload
+  const processingCount = await env.DB.prepare(
     `SELECT COUNT(*) as count FROM chunk_jobs WHERE task_id = ? AND status = 'processing'`
   ).bind(taskId).first<{ count: number }>()
   
-  const currentlyProcessing = processingCount?.count || 0
-  if (currentlyProcessing >= limit) {
-    // Already at concurrency limit, don't fetch more jobs
-    console.log(`Concurrency limit reached: ${currentlyProcessing}/${limit} jobs processing for task ${taskId}`)
-    return []
+  const currentlyProcessing = processingCount?.count || 0
+  if (currentlyProcessing >= limit) {
+    // Already at concurrency limit, don't fetch more jobs
+    console.log(`Concurrency limit reached: ${currentlyProcessing}/${limit} jobs processing for task ${taskId}`)
+    return []
+  }
+  
+  // Calculate how many jobs we can actually process
+  const availableSlots = limit - currentlyProcessing
+  const effectiveLimit = Math.min(availableSlots, limit)
+  
+  // Budget-paused jobs wait for resumeBudgetPausedJobs
+  const results = await env.DB.prepare(
+    `SELECT ${CHUNK_JOB_COLUMNS}
+     FROM chunk_jobs 
+     WHERE task_id = ? AND status = 'queued' AND paused_at IS NULL AND (retry_at IS NULL OR retry_at <= ?)
+     ORDER BY chunk_index
+     LIMIT ?`
+  ).bind(taskId, new Date(now).toISOString(), effectiveLimit).all<ChunkJobRow>()
+  
+  return (results.results || []).map(toChunkJobRecord)
+}
+
+async function getChunkJob(env: Bindings, taskId: string, index: number): Promise<ChunkJobRecord | null> {
+  const row = await env.DB.prepare(
+    `SELECT ${CHUNK_JOB_COLUMNS} FROM chunk_jobs WHERE task_id = ? AND chunk_index = ?`
+  ).bind(taskId, index).first<ChunkJobRow>()
+  return row ? toChunkJobRecord(row) : null
+}
+
+function toChunkJobRecord(row: ChunkJobRow): ChunkJobRecord {
+  return {
+    index: row.chunk_index,
+    startMs: row.start_ms,
+    endMs: row.end_ms,
+    mimeType: row.mime_type,
+    r2Key: row.r2_key || undefined,
+    audioBase64: row.audio_base64 || undefined,
+    sizeBytes: row.size_bytes,
+    model: row.model || undefined,
+    attempts: row.attempts,
+    status: row.status,
+    lastError: row.last_error || undefined,
+    processingBy: row.processing_by || undefined,
+    retryAt: row.retry_at || undefined,
+    pausedAt: row.paused_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function getChunkAudioStorage(env: Bindings, job: ChunkJobRecord): ChunkAudioStorage | null {
+  const { r2Key, audioBase64 } = job
+  if (r2Key) {
+    return {
+      kind: 'r2',
+      load: async () => {
+        const object = await env.AUDIO_CHUNKS.get(r2Key)
+        if (!object) return null
+        const buffer = await object.arrayBuffer()
+        return { bytes: new Uint8Array(buffer), base64: arrayBufferToBase64(buffer) }
+      }
+    }
+  }
+  if (audioBase64) {
+    return {
+      kind: 'inline',
+      load: async () => ({ bytes: base64UrlToBytes(audioBase64), base64: audioBase64 })
+    }
+  }
+  return null
+}
+
+/**
+ * Transcribe one chunk job. Both the queue consumer and POST /process run chunks through here, so claiming,
+ * the budget gate, pre-flight, previous-chunk context, attempts and retry_at backoff behave the same either way.
+ * Failures are recorded on the job; only D1/R2 errors while saving are thrown.
+ */
+async function runChunkJob(
+  env: Bindings,
+  taskId: string,
+  chunkIndex: number,
+  options: RunChunkJobOptions = {}
+): Promise<ChunkJobOutcome> {
+  // Idempotency: at-least-once queue delivery, or /process and the queue picking up the same chunk
+  if (await getChunk(env, taskId, chunkIndex)) {
+    await appendTaskLog(env, taskId, {
+      level: 'info',
+      message: 'Chunk processing skipped (already completed)',
+      context: { chunkIndex }
+    })
+    return { status: 'skipped', reason: 'already_completed' }
+  }
+
+  // Messages from before a reprocess point at a job that has since been replaced
+  const job = await getChunkJob(env, taskId, chunkIndex)
+  if (!job || (options.r2Key !== undefined && job.r2Key !== options.r2Key)) {
+    await appendTaskLog(env, taskId, {
+      level: 'info',
+      message: 'Chunk processing skipped (superseded by reprocess)',
+      context: { chunkIndex, r2Key: options.r2Key }
+    })
+    return { status: 'skipped', reason: 'superseded' }
+  }
+  if (job.status === 'queued' && job.retryAt && Date.parse(job.retryAt) > Date.now()) {
+    return { status: 'deferred', retryAt: job.retryAt }
+  }
+
+  // Claim: queued jobs, or processing jobs whose worker has gone quiet for longer than any transcription takes
+  const startedAt = Date.now()
+  const nowIso = new Date(startedAt).toISOString()
+  const claimed = await env.DB.prepare(
+    `UPDATE chunk_jobs SET status = 'processing', processing_by = ?, paused_at = NULL, updated_at = ?
+     WHERE task_id = ? AND chunk_index = ? AND (retry_at IS NULL OR retry_at <= ?)
+       AND (status = 'queued' OR (status = 'processing' AND updated_at < ?))`
+  ).bind(
+    crypto.randomUUID(),
+    nowIso,
+    taskId,
+    chunkIndex,
+    nowIso,
+    new Date(startedAt - CHUNK_PROCESSING_STALE_MS).toISOString()
+  ).run()
+  if (!claimed.meta.changes) {
+    const current = await getChunkJob(env, taskId, chunkIndex)
+    if (current?.status === 'processing') {
+      return { status: 'busy', staleAt: new Date(Date.parse(current.updatedAt) + CHUNK_PROCESSING_STALE_MS).toISOString() }
+    }
+    if (current?.status === 'queued') {
+      return { status: 'deferred', retryAt: current.retryAt ?? nowIso }
+    }
+    return { status: 'skipped', reason: 'not_queued' }
+  }
+
+  // Budget gate: over a cap the job stays queued (paused) until resumeBudgetPausedJobs sends it again
+  const task = await getTask(env, taskId)
+  if ((task?.transcriptionProvider ?? getRuntimeConfig(env).transcriptionProvider) === 'gemini') {
+    const budget = await checkBudget(env, taskId, { chunkIndex })
+    if (budget.state === 'exceeded') {
+      const pausedAt = new Date().toISOString()
+      await env.DB.prepare(
+        `UPDATE chunk_jobs SET status = 'queued', processing_by = NULL, paused_at = ?, updated_at = ?
+         WHERE task_id = ? AND chunk_index = ?`
+      ).bind(pausedAt, pausedAt, taskId, chunkIndex).run()
+      await saveChunkState(env, taskId, {
+        index: chunkIndex,
+        status: 'queued',
+        attempts: job.attempts,
+        updatedAt: pausedAt,
+        lastError: 'Paused: API budget exceeded'
+      })
+      return { status: 'paused' }
+    }
+  }
+
+  const attemptNumber = job.attempts + 1
+  await saveChunkState(env, taskId, {
+    index: chunkIndex,
+    status: 'processing',
+    attempts: attemptNumber,
+    updatedAt: nowIso,
+    lastError: job.lastError
+  })
+
+  const storage = getChunkAudioStorage(env, job)
+  const audio = storage ? await storage.load() : null
+  if (!storage || !audio) {
+    const reason = storage?.kind === 'r2' ? `R2 object not found: ${job.r2Key}` : 'Chunk audio is not stored'
+    return handleChunkJobFailure(env, taskId, job, attemptNumber, reason, false)
+  }
+
+  // Pre-flight check. Corrupt audio would only use up Gemini retries, so the chunk fails now
+  // (unless a retry overrides the verdict, e.g. when the duration check got a valid chunk wrong)
+  const preflight = await preflightAudioChunk(audio.bytes, job)
+  if (preflight.status === 'corrupt' && options.skipPreflight) {
+    await appendTaskLog(env, taskId, {
+      level: 'warn',
+      message: 'Pre-flight rejection overridden by retry',
+      context: { chunkIndex, ...preflight }
+    })
+  } else if (preflight.status === 'corrupt') {
+    await appendTaskLog(env, taskId, {
+      level: 'error',
+      message: 'Chunk rejected by pre-flight check',
+      context: { chunkIndex, ...preflight }
+    })
+    return handleChunkJobFailure(env, taskId, job, attemptNumber, preflight.reason ?? 'Chunk audio is corrupt', false)
+  }
+  // Silent chunks complete with an empty result
+  const silent = preflight.status === 'silent' && !options.skipPreflight
+
+  const provider = silent
+    ? null
+    : getTranscriptionProvider(
+        env,
+        task?.transcriptionProvider,
+        options.model ?? job.model ?? (await getModelSettings(env, task)).transcriptionModel
+      )
+  if (!silent && !provider) {
+    return handleChunkJobFailure(env, taskId, job, attemptNumber, 'Transcription provider API key is not configured', false)
+  }
+
+  let transcriptText = ''
+  if (provider) {
+    const previousChunk = chunkIndex > 0 ? await getChunk(env, taskId, chunkIndex - 1) : null
+    await appendTaskLog(env, taskId, {
+      level: 'info',
+      message: 'Chunk transcription started',
+      context: {
+        chunkIndex,
+        attempt: attemptNumber,
+        storage: storage.kind
+      }
+    })
+
+    try {
+      transcriptText = await provider.transcribe(env, taskId, {
+        audioBase64: audio.base64,
+        mimeType: job.mimeType,
+        chunkIndex,
+        chunkStartMs: job.startMs,
+        chunkEndMs: job.endMs,
+        previousContext: previousChunk ? previousChunk.text.slice(-CHUNK_PREVIOUS_CONTEXT_CHARS) : '',
+        instructions: options.instructions
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      return handleChunkJobFailure(env, taskId, job, attemptNumber, message, true)
+    }
+  }
+
+  const completedAt = new Date().toISOString()
+  await env.DB.prepare(
+    `INSERT OR REPLACE INTO chunks 
+     (task_id, chunk_index, start_ms, end_ms, text, silent, model, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).bind(taskId, chunkIndex, job.startMs, job.endMs, transcriptText, silent ? 1 : 0, provider?.model ?? null, completedAt).run()
+
+  if (!silent) {
+    await storeChunkSegments(env, taskId, {
+      index: chunkIndex,
+      startMs: job.startMs,
+      endMs: job.endMs,
+      text: transcriptText,
+      createdAt: completedAt
+    })
+  }
+
+  // The job (and its audio) is kept so the chunk can be retranscribed; runChunkAudioSweep removes the audio later
+  await env.DB.prepare(
+    `UPDATE chunk_jobs SET status = 'completed', attempts = ?, processing_by = NULL, last_error = NULL, retry_at = NULL, updated_at = ?
+     WHERE task_id = ? AND chunk_index = ?`
+  ).bind(attemptNumber, completedAt, taskId, chunkIndex).run()
+
+  await saveChunkState(env, taskId, {
+    index: chunkIndex,
+    status: 'completed',
+    attempts: attemptNumber,
+    updatedAt: completedAt
+  })
+
+  await appendTaskLog(env, taskId, {
+    level: 'info',
+    message: silent ? 'Chunk marked silent (transcription skipped)' : 'Chunk transcription completed',
+    context: {
+      chunkIndex,
+      attempts: attemptNumber,
+      transcriptLength: transcriptText.length,
+      processingTime: Date.now() - startedAt,
+      storage: storage.kind,
+      preflight
+    }
+  })
+
+  await updateTaskProgress(env, taskId)
+  // Server-side chunking and reprocess have no browser waiting to call the merge route
+  await mergeTaskWhenComplete(env, taskId)
+  return { status: 'completed', silent }
+}
+
+async function handleChunkJobFailure(
+  env: Bindings,
+  taskId: string,
+  job: ChunkJobRecord,
+  attemptNumber: number,
+  message: string,
+  allowRetry: boolean
+): Promise<ChunkJobOutcome> {
+  const nowIso = new Date().toISOString()
+  const retryable = allowRetry && attemptNumber < getRuntimeConfig(env).chunkJobMaxAttempts
+  const nextStatus: ChunkJobStatus = retryable ? 'queued' : 'error'
+  const retryDelayMs = retryable ? getBackoffDelay(attemptNumber) : 0
+  const retryAt = retryable ? new Date(Date.now() + retryDelayMs).toISOString() : null
+  const errorMessage = truncateString(message, 200)
+
+  // Update job in D1
+  await env.DB.prepare(
+    'UPDATE chunk_jobs SET attempts = ?, status = ?, last_error = ?, processing_by = NULL, retry_at = ?, updated_at = ? WHERE task_id = ? AND chunk_index = ?'
+  ).bind(attemptNumber, nextStatus, errorMessage, retryAt, nowIso, taskId, job.index).run()
+  
+  await saveChunkState(env, taskId, {
+    index: job.index,
+    status: nextStatus,
+    attempts: attemptNumber,
+    updatedAt: nowIso,
+    lastError: errorMessage
+  })
+
+  if (retryAt) {
+    await appendTaskLog(env, taskId, {
+      level: 'warn',
+      message: 'Chunk transcription re-queued',
+      context: {
+        chunkIndex: job.index,
+        attempt: attemptNumber,
+        error: errorMessage,
+        retryDelayMs
+      }
+    })
+    return { status: 'retry', retryAt }
+  }
+
+  // Marked as error so the merge route and the retry route can see it
+  await appendTaskLog(env, taskId, {
+    level: 'error',
+    message: 'Chunk transcription failed',
+    context: {
+      chunkIndex: job.index,
+      attempts: attemptNumber,
+      error: errorMessage
+    }
+  })
+  await setTaskError(env, taskId, `Chunk ${job.index} failed: ${message}`)
+  return { status: 'failed', error: errorMessage }
+}
+
+async function saveChunkState(
+  env: Bindings,
+  taskId: string,
+  state: ChunkStateRecord
+): Promise<void> {
+  await env.DB.prepare(
+    'INSERT OR REPLACE INTO chunk_states (task_id, chunk_index, status, last_error, updated_at) VALUES (?, ?, ?, ?, ?)'
+  ).bind(taskId, state.index, state.status, state.lastError || null, state.updatedAt).run()
+}
+
+async function getChunkSummary(env: Bindings, taskId: string): Promise<ChunkSummary> {
+  const records = await getChunkStateRecords(env, taskId)
+  const summary: ChunkSummary = {
+    total: records.length,
+    queued: 0,
+    processing: 0,
+    completed: 0,
+    error: 0
+  }
+
+  for (const record of records) {
+    switch (record.status) {
+      case 'queued':
+        summary.queued += 1
+        break
+      case 'processing':
+        summary.processing += 1
+        break
+      case 'completed':
+        summary.completed += 1
+        break
+      case 'error':
+        summary.error += 1
+        break
+    }
   }
+
+  return summary
+}
+
+async function getChunkStateRecords(env: Bindings, taskId: string): Promise<ChunkStateRecord[]> {
+  const results = await env.DB.prepare(
+    'SELECT chunk_index, status, last_error, updated_at FROM chunk_states WHERE task_id = ? ORDER BY chunk_index'
+  ).bind(taskId).all<{
+    chunk_index: number
+    status: ChunkJobStatus
+    last_error: string | null
+    updated_at: string
+  }>()
   
-  // Calculate how many jobs we can actually process
-  const availableSlots = limit - currentlyProcessing
-  const effectiveLimit = Math.min(availableSlots, limit)
+  if (!results.results) return []
   
-  const results = await env.DB.prepare(
-    `SELECT chunk_index, start_ms, end_ms, mime_type, audio_base64, size_bytes, attempts, status, 
-            last_error, processing_by, retry_at, created_at, updated_at
-     FROM chunk_jobs 
-     WHERE task_id = ? AND status = 'queued' AND (retry_at IS NULL OR retry_at <= ?)
-     ORDER BY chunk_index
-     LIMIT ?`
-  ).bind(taskId, new Date(now).toISOString(), effectiveLimit).all<{
+  return results.results.map(row => ({
+    index: row.chunk_index,
+    status: row.status,
+    lastError: row.last_error || undefined,
+    updatedAt: row.updated_at,
+    attempts: 0 // Not stored in chunk_states table
+  }))
+}
+
+/**
+ * Per-chunk view across chunks (results), chunk_jobs (attempts, audio) and chunk_states (status).
+ * Indexes with no row anywhere have not been uploaded yet and are reported as missing.
+ */
+async function listTaskChunks(env: Bindings, task: TaskRecord): Promise<ChunkListItem[]> {
+  const [states, jobs, chunks] = await env.DB.batch([
+    env.DB.prepare('SELECT chunk_index, status, last_error, updated_at FROM chunk_states WHERE task_id = ?').bind(task.id),
+    env.DB.prepare(
+      'SELECT chunk_index, start_ms, end_ms, attempts, status, last_error, r2_key, model, updated_at FROM chunk_jobs WHERE task_id = ?'
+    ).bind(task.id),
+    env.DB.prepare('SELECT chunk_index, start_ms, end_ms, LENGTH(text) as text_length, silent, model, created_at FROM chunks WHERE task_id = ?').bind(task.id)
+  ])
+  const stateByIndex = new Map((states.results as Array<{ chunk_index: number; status: ChunkJobStatus; last_error: string | null; updated_at: string }>)
+    .map(row => [row.chunk_index, row]))
+  const jobByIndex = new Map((jobs.results as Array<{
     chunk_index: number
     start_ms: number
     end_ms: number
-    mime_type: string
-    audio_base64: string
-    size_bytes: number
     attempts: number
     status: ChunkJobStatus
     last_error: string | null
-    processing_by: string | null
-    retry_at: string | null
+    r2_key: string | null
+    model: string | null
+    updated_at: string
+  }>).map(row => [row.chunk_index, row]))
+  const chunkByIndex = new Map((chunks.results as Array<{
+    chunk_index: number
+    start_ms: number
+    end_ms: number
+    text_length: number
+    silent: number
+    model: string | null
+    created_at: string
+  }>)
+    .map(row => [row.chunk_index, row]))
+
+  const items: ChunkListItem[] = []
+  for (let index = 0; index < task.totalChunks; index++) {
+    const state = stateByIndex.get(index)
+    const job = jobByIndex.get(index)
+    const chunk = chunkByIndex.get(index)
+    const status = chunk ? 'completed' : state?.status ?? job?.status ?? 'missing'
+    items.push({
+      index,
+      status,
+      startMs: chunk?.start_ms ?? job?.start_ms,
+      endMs: chunk?.end_ms ?? job?.end_ms,
+      attempts: job?.attempts ?? 0,
+      lastError: job?.last_error || state?.last_error || undefined,
+      textLength: chunk ? chunk.text_length : null,
+      silent: chunk?.silent === 1 || undefined,
+      model: chunk?.model || job?.model || undefined,
+      retryable: Boolean(job?.r2_key) && !task.chunkAudioPurgedAt &&
+        (job?.status !== 'processing' || Date.now() - new Date(job.updated_at).getTime() >= CHUNK_PROCESSING_STALE_MS),
+      updatedAt: chunk?.created_at ?? state?.updated_at ?? job?.updated_at
+    })
+  }
+  return items
+}
+
+async function updateTaskProgress(env: Bindings, taskId: string): Promise<TaskRecord | null> {
+  const task = await getTask(env, taskId)
+  if (!task) return null
+
+  const summary = await getChunkSummary(env, taskId)
+  const processedChunks = summary.completed
+  const nowIso = new Date().toISOString()
+
+  if (task.status === 'error') {
+    await env.DB.prepare(
+      'UPDATE tasks SET processed_chunks = ?, updated_at = ? WHERE id = ?'
+    ).bind(processedChunks, nowIso, taskId).run()
+    return {
+      ...task,
+      processedChunks,
+      updatedAt: nowIso
+    }
+  }
+
+  // 'transcribed' is set by the merge, once the transcript exists
+  let status: TaskStatus = task.status
+  if (processedChunks > 0 && status === 'initialized') {
+    status = 'transcribing'
+  }
+
+  await env.DB.prepare(
+    'UPDATE tasks SET processed_chunks = ?, status = ?, updated_at = ? WHERE id = ?'
+  ).bind(processedChunks, status, nowIso, taskId).run()
+  
+  return {
+    ...task,
+    processedChunks,
+    status,
+    updatedAt: nowIso
+  }
+}
+
+async function getTask(env: Bindings, taskId: string): Promise<TaskRecord | null> {
+  const result = await env.DB.prepare(
+    'SELECT id, filename, total_chunks, processed_chunks, duration_ms, status, error, client_id, owner_id, legal_hold, legal_hold_reason, audio_purged_at, content_purged_at, chunk_audio_purged_at, completed_at, transcription_provider, summarization_provider, transcription_model, minutes_model, created_at, updated_at FROM tasks WHERE id = ?'
+  ).bind(taskId).first<{
+    id: string
+    filename: string | null
+    total_chunks: number
+    processed_chunks: number
+    duration_ms: number | null
+    status: TaskStatus
+    error: string | null
+    client_id: string | null
+    owner_id: string | null
+    legal_hold: number
+    legal_hold_reason: string | null
+    audio_purged_at: string | null
+    content_purged_at: string | null
+    chunk_audio_purged_at: string | null
+    completed_at: string | null
+    transcription_provider: TranscriptionProviderName | null
+    summarization_provider: SummarizationProviderName | null
+    transcription_model: string | null
+    minutes_model: string | null
+    created_at: string
+    updated_at: string
+  }>()
+  
+  if (!result) return null
+  
+  return {
+    id: result.id,
+    filename: result.filename || undefined,
+    totalChunks: result.total_chunks,
+    processedChunks: result.processed_chunks,
+    durationMs: result.duration_ms || undefined,
+    status: result.status,
+    error: result.error || undefined,
+    clientId: result.client_id || undefined,
+    ownerId: result.owner_id || undefined,
+    legalHold: result.legal_hold === 1,
+    legalHoldReason: result.legal_hold_reason || undefined,
+    audioPurgedAt: result.audio_purged_at || undefined,
+    contentPurgedAt: result.content_purged_at || undefined,
+    chunkAudioPurgedAt: result.chunk_audio_purged_at || undefined,
+    completedAt: result.completed_at || undefined,
+    transcriptionProvider: result.transcription_provider || undefined,
+    summarizationProvider: result.summarization_provider || undefined,
+    transcriptionModel: result.transcription_model || undefined,
+    minutesModel: result.minutes_model || undefined,
+    createdAt: result.created_at,
+    updatedAt: result.updated_at
+  }
+}
+
+async function listTasks(
+  env: Bindings,
+  filters: {
+    limit: number
+    from?: string
+    to?: string
+    clientId?: string
+    ownerId?: string
+  }
+): Promise<Array<TaskRecord & { hasMinutes: boolean }>> {
+  let sql = 'SELECT id, filename, total_chunks, processed_chunks, duration_ms, status, error, client_id, owner_id, legal_hold, legal_hold_reason, audio_purged_at, content_purged_at, chunk_audio_purged_at, completed_at, created_at, updated_at FROM tasks'
+  const bindings: any[] = []
+  
+  // 日付・顧問先フィルタの追加
+  const conditions: string[] = []
+  if (filters.from) {
+    conditions.push('DATE(created_at) >= DATE(?)')
+    bindings.push(filters.from)
+  }
+  if (filters.to) {
+    conditions.push('DATE(created_at) <= DATE(?)')
+    bindings.push(filters.to)
+  }
+  if (filters.clientId) {
+    conditions.push('client_id = ?')
+    bindings.push(filters.clientId)
+  }
+  if (filters.ownerId) {
+    conditions.push('owner_id = ?')
+    bindings.push(filters.ownerId)
+  }
+  
+  if (conditions.length > 0) {
+    sql += ' WHERE ' + conditions.join(' AND ')
+  }
+  
+  sql += ' ORDER BY created_at DESC LIMIT ?'
+  bindings.push(filters.limit)
+  
+  const results = await env.DB.prepare(sql).bind(...bindings).all<{
+    id: string
+    filename: string | null
+    total_chunks: number
+    processed_chunks: number
+    duration_ms: number | null
+    status: TaskStatus
+    error: string | null
+    client_id: string | null
+    owner_id: string | null
+    legal_hold: number
+    legal_hold_reason: string | null
+    audio_purged_at: string | null
+    content_purged_at: string | null
+    chunk_audio_purged_at: string | null
+    completed_at: string | null
     created_at: string
     updated_at: string
   }>()
   
-  if (!results.results) return []
+  if (!results.results || results.results.length === 0) {
+    return []
+  }
+  
+  // Check which tasks have minutes
+  const taskIds = results.results.map(r => r.id)
+  const minutesResults = await env.DB.prepare(
+    `SELECT task_id FROM minutes WHERE task_id IN (${taskIds.map(() => '?').join(',')})`
+  ).bind(...taskIds).all<{ task_id: string }>()
+  
+  const tasksWithMinutes = new Set(minutesResults.results?.map(r => r.task_id) || [])
   
   return results.results.map(row => ({
-    index: row.chunk_index,
-    startMs: row.start_ms,
-    endMs: row.end_ms,
-    mimeType: row.mime_type,
-    audioBase64: row.audio_base64,
-    sizeBytes: row.size_bytes,
-    attempts: row.attempts,
+    id: row.id,
+    filename: row.filename || undefined,
+    totalChunks: row.total_chunks,
+    processedChunks: row.processed_chunks,
+    durationMs: row.duration_ms || undefined,
     status: row.status,
-    lastError: row.last_error || undefined,
-    processingBy: row.processing_by || undefined,
-    retryAt: row.retry_at || undefined,
+    error: row.error || undefined,
+    clientId: row.client_id || undefined,
+    ownerId: row.owner_id || undefined,
+    legalHold: row.legal_hold === 1,
+    legalHoldReason: row.legal_hold_reason || undefined,
+    audioPurgedAt: row.audio_purged_at || undefined,
+    contentPurgedAt: row.content_purged_at || undefined,
+    chunkAudioPurgedAt: row.chunk_audio_purged_at || undefined,
+    completedAt: row.completed_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    hasMinutes: tasksWithMinutes.has(row.id)
+  }))
+}
+
+async function getTaskScope(env: Bindings, taskId: string): Promise<{ ownerId: string | null; clientId: string | null } | null> {
+  const result = await env.DB.prepare(
+    'SELECT owner_id, client_id FROM tasks WHERE id = ?'
+  ).bind(taskId).first<{ owner_id: string | null; client_id: string | null }>()
+  return result ? { ownerId: result.owner_id, clientId: result.client_id } : null
+}
+
+function canAccessTask(user: UserRecord, ownerId: string | null | undefined): boolean {
+  return user.role === 'admin' || ownerId === user.id
+}
+
+/**
+ * Owner filter for cross-task queries: admins see every task, everyone else only their own.
+ */
+function visibleOwnerId(user: UserRecord): string | undefined {
+  return user.role === 'admin' ? undefined : user.id
+}
+
+function requireRole(...roles: UserRole[]): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (!roles.includes(c.get('user').role)) {
+      return c.json({ error: 'この操作を行う権限がありません' }, 403)
+    }
+    await next()
+  }
+}
+
+/**
+ * Record the request in audit_events once the handler has run (failed attempts included).
+ * The client is taken from the task before the handler runs, so deletes keep it too.
+ * HEAD requests return no content and are not recorded.
+ */
+function auditAction(action: string | ((c: Context<AppEnv>) => string)): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (c.req.method === 'HEAD') {
+      return next()
+    }
+    const clientId = c.get('taskScope')?.clientId ?? undefined
+    await next()
+    await recordAuditEvent(c.env, {
+      ...getAuditRequest(c),
+      action: typeof action === 'string' ? action : action(c),
+      taskId: c.req.param('taskId'),
+      clientId,
+      status: c.res.status
+    })
+  }
+}
+
+function getAuditRequest(c: Context<AppEnv>): AuditRequest {
+  return {
+    actor: c.get('user'),
+    method: c.req.method,
+    path: c.req.path,
+    ip: c.req.header('CF-Connecting-IP'),
+    userAgent: c.req.header('User-Agent')
+  }
+}
+
+async function recordAuditEvent(
+  env: Bindings,
+  event: {
+    actor?: UserRecord
+    action: string
+    taskId?: string
+    clientId?: string
+    method: string
+    path: string
+    status: number
+    ip?: string
+    userAgent?: string
+    details?: Record<string, unknown>
+  }
+): Promise<void> {
+  try {
+    await env.DB.prepare(
+      `INSERT INTO audit_events (occurred_at, actor_id, actor_email, action, task_id, client_id, method, path, status, ip, user_agent, details)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      new Date().toISOString(),
+      event.actor?.id ?? null,
+      event.actor?.email ?? null,
+      event.action,
+      event.taskId ?? null,
+      event.clientId ?? null,
+      event.method,
+      event.path,
+      event.status,
+      event.ip ?? null,
+      event.userAgent ? truncateString(event.userAgent, 200) : null,
+      event.details ? JSON.stringify(event.details) : null
+    ).run()
+  } catch (error) {
+    console.error('Failed to record audit event', error)
+  }
+}
+
+async function runHealthProbe(probe: () => Promise<boolean>): Promise<{ ok: boolean; latencyMs: number }> {
+  const startedAt = Date.now()
+  const ok = await probe().catch(() => false)
+  return { ok, latencyMs: Date.now() - startedAt }
+}
+
+function toUserRecord(row: UserRow): UserRecord {
+  return {
+    id: row.id,
+    email: row.email,
+    displayName: row.display_name,
+    role: row.role,
+    disabled: row.disabled === 1,
+    lastLoginAt: row.last_login_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function parseUserInput(
+  payload: any
+): { value: { email: string; displayName: string; role: UserRole; password: string } } | { error: string } {
+  const email = typeof payload?.email === 'string' ? payload.email.trim() : ''
+  if (!/^[^\s@]+@[^\s@]+$/.test(email) || email.length > CLIENT_FIELD_MAX_LENGTH) {
+    return { error: 'emailを正しく指定してください' }
+  }
+  const displayName = typeof payload?.displayName === 'string' ? payload.displayName.trim() : ''
+  if (!displayName || displayName.length > CLIENT_FIELD_MAX_LENGTH) {
+    return { error: `displayNameは${CLIENT_FIELD_MAX_LENGTH}文字以内で指定してください` }
+  }
+  const role = payload?.role ?? 'staff'
+  if (!USER_ROLES.includes(role)) {
+    return { error: `roleは${USER_ROLES.join(', ')}のいずれかを指定してください` }
+  }
+  const password = typeof payload?.password === 'string' ? payload.password : ''
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return { error: `パスワードは${PASSWORD_MIN_LENGTH}文字以上で指定してください` }
+  }
+  return { value: { email, displayName, role, password } }
+}
+
+/**
+ * With `onlyIfNoUsers` the insert is conditional on the table being empty (first-admin setup), in one statement
+ * so that concurrent calls cannot both succeed; null when a user already exists.
+ */
+async function createUser(
+  env: Bindings,
+  input: { email: string; displayName: string; role: UserRole; password: string }
+): Promise<UserRecord>
+async function createUser(
+  env: Bindings,
+  input: { email: string; displayName: string; role: UserRole; password: string },
+  options: { onlyIfNoUsers: true }
+): Promise<UserRecord | null>
+async function createUser(
+  env: Bindings,
+  input: { email: string; displayName: string; role: UserRole; password: string },
+  options: { onlyIfNoUsers?: boolean } = {}
+): Promise<UserRecord | null> {
+  const now = new Date().toISOString()
+  const user: UserRecord = {
+    id: crypto.randomUUID(),
+    email: input.email,
+    displayName: input.displayName,
+    role: input.role,
+    disabled: false,
+    createdAt: now,
+    updatedAt: now
+  }
+  const result = await env.DB.prepare(
+    options.onlyIfNoUsers
+      ? `INSERT INTO users (id, email, display_name, role, password_hash, disabled, created_at, updated_at)
+         SELECT ?, ?, ?, ?, ?, 0, ?, ? WHERE NOT EXISTS (SELECT 1 FROM users)`
+      : 'INSERT INTO users (id, email, display_name, role, password_hash, disabled, created_at, updated_at) VALUES (?, ?, ?, ?, ?, 0, ?, ?)'
+  ).bind(user.id, user.email, user.displayName, user.role, await hashPassword(input.password), now, now).run()
+  return result.meta.changes ? user : null
+}
+
+function getSessionToken(authorization: string | undefined, cookie: string | undefined): string | null {
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)
+  return bearer ? bearer[1] : cookie || null
+}
+
+/**
+ * Issue a new session. The raw token goes to the client; the table only keeps its SHA-256.
+ */
+async function createSession(
+  env: Bindings,
+  userId: string,
+  userAgent: string | undefined
+): Promise<{ token: string; expiresAt: string }> {
+  const token = bytesToBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS).toISOString()
+
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM sessions WHERE user_id = ? AND expires_at < ?').bind(userId, now.toISOString()),
+    env.DB.prepare(
+      'INSERT INTO sessions (id, user_id, user_agent, created_at, last_seen_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).bind(await sha256Hex(token), userId, userAgent ? truncateString(userAgent, 200) : null, now.toISOString(), now.toISOString(), expiresAt),
+    env.DB.prepare('UPDATE users SET last_login_at = ? WHERE id = ?').bind(now.toISOString(), userId)
+  ])
+
+  return { token, expiresAt }
+}
+
+async function getSessionUser(env: Bindings, token: string): Promise<UserRecord | null> {
+  const sessionId = await sha256Hex(token)
+  const row = await env.DB.prepare(
+    `SELECT users.*, sessions.last_seen_at AS session_last_seen_at, sessions.expires_at AS session_expires_at
+     FROM sessions JOIN users ON users.id = sessions.user_id
+     WHERE sessions.id = ?`
+  ).bind(sessionId).first<UserRow & { session_last_seen_at: string; session_expires_at: string }>()
+
+  const now = Date.now()
+  if (!row || row.disabled || Date.parse(row.session_expires_at) <= now) {
+    return null
+  }
+  if (now - Date.parse(row.session_last_seen_at) > SESSION_TOUCH_INTERVAL_MS) {
+    await env.DB.prepare('UPDATE sessions SET last_seen_at = ? WHERE id = ?').bind(new Date(now).toISOString(), sessionId).run()
+  }
+  return toUserRecord(row)
+}
+
+function setSessionCookie(c: Context<AppEnv>, token: string): void {
+  setCookie(c, SESSION_COOKIE_NAME, token, {
+    path: '/',
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === 'https:',
+    sameSite: 'Lax',
+    maxAge: Math.floor(SESSION_TTL_MS / 1000)
+  })
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const hash = await derivePasswordHash(password, salt, PASSWORD_HASH_ITERATIONS)
+  return `pbkdf2-sha256$${PASSWORD_HASH_ITERATIONS}$${bytesToBase64Url(salt)}$${bytesToBase64Url(hash)}`
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = stored.split('$')
+  if (scheme !== 'pbkdf2-sha256' || !iterations || !salt || !expected) return false
+  const hash = bytesToBase64Url(await derivePasswordHash(password, base64UrlToBytes(salt), Number(iterations)))
+  return constantTimeEqual(hash, expected)
+}
+
+function constantTimeEqual(actual: string, expected: string): boolean {
+  let diff = actual.length ^ expected.length
+  for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+    diff |= actual.charCodeAt(i) ^ expected.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+async function derivePasswordHash(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256)
+  return new Uint8Array(bits)
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0))
+}
+
+type ClientRow = {
+  id: string
+  name: string
+  code: string | null
+  fiscal_year_end_month: number | null
+  assigned_staff: string | null
+  audio_retention_days: number | null
+  transcript_retention_years: number | null
+  created_at: string
+  updated_at: string
+}
+
+function toClientRecord(row: ClientRow): ClientRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    code: row.code || undefined,
+    fiscalYearEndMonth: row.fiscal_year_end_month ?? undefined,
+    assignedStaff: row.assigned_staff || undefined,
+    audioRetentionDays: row.audio_retention_days ?? undefined,
+    transcriptRetentionYears: row.transcript_retention_years ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+async function getClient(env: Bindings, clientId: string): Promise<ClientRecord | null> {
+  const result = await env.DB.prepare(
+    'SELECT id, name, code, fiscal_year_end_month, assigned_staff, audio_retention_days, transcript_retention_years, created_at, updated_at FROM clients WHERE id = ?'
+  ).bind(clientId).first<ClientRow>()
+  return result ? toClientRecord(result) : null
+}
+
+async function getClientByCode(env: Bindings, code: string): Promise<ClientRecord | null> {
+  const result = await env.DB.prepare(
+    'SELECT id, name, code, fiscal_year_end_month, assigned_staff, audio_retention_days, transcript_retention_years, created_at, updated_at FROM clients WHERE code = ?'
+  ).bind(code).first<ClientRow>()
+  return result ? toClientRecord(result) : null
+}
+
+/**
+ * Validate a client payload. Fields omitted on update keep their current value; null clears them.
+ */
+function parseClientInput(
+  payload: any,
+  current?: ClientRecord
+): { value: Omit<ClientRecord, 'id' | 'createdAt' | 'updatedAt'> } | { error: string } {
+  const name = typeof payload?.name === 'string' ? payload.name.trim() : current?.name ?? ''
+  if (!name || name.length > CLIENT_FIELD_MAX_LENGTH) {
+    return { error: `nameは${CLIENT_FIELD_MAX_LENGTH}文字以内で指定してください` }
+  }
+  const optionalText = (key: 'code' | 'assignedStaff'): string | undefined | null => {
+    const value = payload?.[key]
+    if (value === null) return undefined
+    if (value === undefined) return current?.[key]
+    if (typeof value !== 'string' || value.trim().length > CLIENT_FIELD_MAX_LENGTH) return null
+    return value.trim() || undefined
+  }
+  const code = optionalText('code')
+  const assignedStaff = optionalText('assignedStaff')
+  if (code === null || assignedStaff === null) {
+    return { error: `codeとassignedStaffは${CLIENT_FIELD_MAX_LENGTH}文字以内の文字列で指定してください` }
+  }
+  const monthValue = payload?.fiscalYearEndMonth
+  const fiscalYearEndMonth = monthValue === null ? undefined : monthValue === undefined ? current?.fiscalYearEndMonth : Number(monthValue)
+  if (fiscalYearEndMonth !== undefined && (!Number.isInteger(fiscalYearEndMonth) || fiscalYearEndMonth < 1 || fiscalYearEndMonth > 12)) {
+    return { error: 'fiscalYearEndMonthは1〜12の整数を指定してください' }
+  }
+
+  const positiveInteger = (key: 'audioRetentionDays' | 'transcriptRetentionYears'): number | undefined | null => {
+    const value = payload?.[key]
+    if (value === null) return undefined
+    if (value === undefined) return current?.[key]
+    const parsed = Number(value)
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : null
+  }
+  const audioRetentionDays = positiveInteger('audioRetentionDays')
+  const transcriptRetentionYears = positiveInteger('transcriptRetentionYears')
+  if (audioRetentionDays === null || transcriptRetentionYears === null) {
+    return { error: 'audioRetentionDaysとtranscriptRetentionYearsは1以上の整数（全体設定に戻す場合はnull）で指定してください' }
+  }
+
+  return { value: { name, code, fiscalYearEndMonth, assignedStaff, audioRetentionDays, transcriptRetentionYears } }
+}
+
+function changesRetention(payload: any): boolean {
+  return payload?.audioRetentionDays !== undefined || payload?.transcriptRetentionYears !== undefined
+}
+
+/**
+ * Search the FTS index. Every term must appear (AND). Terms shorter than the trigram length
+ * cannot use MATCH, so those queries fall back to LIKE over the same table.
+ */
+async function searchContent(
+  env: Bindings,
+  options: {
+    terms: string[]
+    source?: SearchSource
+    clientId?: string
+    ownerId?: string
+    limit: number
+  }
+): Promise<SearchHit[]> {
+  const terms = options.terms.filter(Boolean)
+  const useMatch = terms.every(term => term.length >= SEARCH_TRIGRAM_MIN_LENGTH)
+
+  const conditions: string[] = []
+  const bindings: any[] = []
+  if (useMatch) {
+    conditions.push('search_index MATCH ?')
+    bindings.push(terms.map(term => `"${term.replace(/"/g, '""')}"`).join(' AND '))
+  } else {
+    for (const term of terms) {
+      conditions.push("search_index.content LIKE ? ESCAPE '\\'")
+      bindings.push(`%${term.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`)
+    }
+  }
+  if (options.source) {
+    conditions.push('search_index.source = ?')
+    bindings.push(options.source)
+  }
+  if (options.clientId) {
+    conditions.push('tasks.client_id = ?')
+    bindings.push(options.clientId)
+  }
+  if (options.ownerId) {
+    conditions.push('tasks.owner_id = ?')
+    bindings.push(options.ownerId)
+  }
+
+  const sql = `SELECT search_index.task_id, search_index.source, search_index.content,
+      ${useMatch ? `snippet(search_index, 2, '${SEARCH_HIGHLIGHT_START}', '${SEARCH_HIGHLIGHT_END}', '…', ${SEARCH_SNIPPET_RADIUS})` : 'NULL'} AS snippet,
+      tasks.filename, tasks.client_id, tasks.created_at
+    FROM search_index
+    JOIN tasks ON tasks.id = search_index.task_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY ${useMatch ? 'rank' : 'tasks.created_at DESC'}
+    LIMIT ?`
+  bindings.push(options.limit)
+
+  const results = await env.DB.prepare(sql).bind(...bindings).all<{
+    task_id: string
+    source: SearchSource
+    content: string
+    snippet: string | null
+    filename: string | null
+    client_id: string | null
+    created_at: string
+  }>()
+
+  return (results.results || []).map(row => {
+    const timestampMs = findSearchHitTimestamp(row.content, terms, row.source)
+    return {
+      taskId: row.task_id,
+      filename: row.filename || undefined,
+      clientId: row.client_id || undefined,
+      createdAt: row.created_at,
+      source: row.source,
+      snippet: formatSearchSnippet(row.snippet ?? buildSearchSnippet(row.content, terms)),
+      timestampMs,
+      timestamp: timestampMs !== null ? formatTimestampFromMs(timestampMs) : null
+    }
+  })
+}
+
+/**
+ * Snippet around the first hit for LIKE queries, marked the same way as FTS5 snippet().
+ */
+function buildSearchSnippet(content: string, terms: string[]): string {
+  const hit = findFirstTermIndex(content, terms)
+  if (!hit) {
+    return content.slice(0, SEARCH_SNIPPET_RADIUS * 2)
+  }
+  const start = Math.max(0, hit.index - SEARCH_SNIPPET_RADIUS)
+  const end = Math.min(content.length, hit.index + hit.length + SEARCH_SNIPPET_RADIUS)
+  return (start > 0 ? '…' : '') +
+    content.slice(start, hit.index) +
+    SEARCH_HIGHLIGHT_START + content.slice(hit.index, hit.index + hit.length) + SEARCH_HIGHLIGHT_END +
+    content.slice(hit.index + hit.length, end) +
+    (end < content.length ? '…' : '')
+}
+
+/**
+ * Escape snippet text for HTML and turn the highlight markers into <mark> tags.
+ */
+function formatSearchSnippet(snippet: string): string {
+  return snippet
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(SEARCH_HIGHLIGHT_START).join('<mark>')
+    .split(SEARCH_HIGHLIGHT_END).join('</mark>')
+    .replace(/\s*\n\s*/g, ' ')
+}
+
+function findFirstTermIndex(content: string, terms: string[]): { index: number; length: number } | null {
+  const lower = content.toLowerCase()
+  let best: { index: number; length: number } | null = null
+  for (const term of terms) {
+    const index = lower.indexOf(term.toLowerCase())
+    if (index !== -1 && (!best || index < best.index)) {
+      best = { index, length: term.length }
+    }
+  }
+  return best
+}
+
+/**
+ * Timestamp of the line holding the first hit. Transcript lines without their own timestamp
+ * inherit the nearest one above; minutes only carry timestamps on timeline lines.
+ */
+function findSearchHitTimestamp(content: string, terms: string[], source: SearchSource): number | null {
+  const hit = findFirstTermIndex(content, terms)
+  if (!hit) return null
+
+  const lines = content.slice(0, hit.index).split('\n')
+  const hitLine = lines[lines.length - 1] + content.slice(hit.index).split('\n')[0]
+  const own = getTimestampMs(hitLine)
+  if (own !== null || source === 'minutes') return own
+
+  for (let i = lines.length - 2; i >= 0; i--) {
+    const ms = getTimestampMs(lines[i])
+    if (ms !== null) return ms
+  }
+  return null
+}
+
+function toActionItemRecord(row: ActionItemRow): ActionItemRecord {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    clientId: row.client_id || undefined,
+    minutesVersion: row.minutes_version ?? undefined,
+    assignee: row.assignee || undefined,
+    description: row.description,
+    dueDate: row.due_date || undefined,
+    dueText: row.due_text || undefined,
+    status: row.status,
+    timestampMs: row.timestamp_ms ?? undefined,
+    edited: row.edited === 1,
+    updatedBy: row.updated_by || undefined,
     createdAt: row.created_at,
     updatedAt: row.updated_at
+  }
+}
+
+async function getActionItem(env: Bindings, itemId: string): Promise<ActionItemRecord | null> {
+  const result = await env.DB.prepare(
+    'SELECT * FROM action_items WHERE id = ?'
+  ).bind(itemId).first<ActionItemRow>()
+  return result ? toActionItemRecord(result) : null
+}
+
+/**
+ * Action items with their meeting and client names, nearest deadline first (undated items last).
+ */
+async function listActionItems(
+  env: Bindings,
+  filters: {
+    statuses?: ActionItemStatus[]
+    assignee?: string
+    clientId?: string
+    taskId?: string
+    dueBefore?: string
+    ownerId?: string
+    limit: number
+  }
+): Promise<Array<ActionItemRecord & { filename?: string; clientName?: string; meetingDate: string }>> {
+  const conditions: string[] = []
+  const bindings: any[] = []
+  if (filters.statuses && filters.statuses.length > 0) {
+    conditions.push(`action_items.status IN (${filters.statuses.map(() => '?').join(',')})`)
+    bindings.push(...filters.statuses)
+  }
+  if (filters.assignee) {
+    conditions.push('action_items.assignee = ?')
+    bindings.push(filters.assignee)
+  }
+  if (filters.clientId) {
+    conditions.push('action_items.client_id = ?')
+    bindings.push(filters.clientId)
+  }
+  if (filters.taskId) {
+    conditions.push('action_items.task_id = ?')
+    bindings.push(filters.taskId)
+  }
+  if (filters.dueBefore) {
+    conditions.push('action_items.due_date <= ?')
+    bindings.push(filters.dueBefore)
+  }
+  if (filters.ownerId) {
+    conditions.push('tasks.owner_id = ?')
+    bindings.push(filters.ownerId)
+  }
+
+  let sql = `SELECT action_items.*, tasks.filename, tasks.created_at AS meeting_date, clients.name AS client_name
+    FROM action_items
+    JOIN tasks ON tasks.id = action_items.task_id
+    LEFT JOIN clients ON clients.id = action_items.client_id`
+  if (conditions.length > 0) {
+    sql += ' WHERE ' + conditions.join(' AND ')
+  }
+  sql += ' ORDER BY action_items.due_date IS NULL, action_items.due_date, tasks.created_at DESC, action_items.created_at LIMIT ?'
+  bindings.push(filters.limit)
+
+  const results = await env.DB.prepare(sql).bind(...bindings).all<ActionItemRow & {
+    filename: string | null
+    meeting_date: string
+    client_name: string | null
+  }>()
+
+  return (results.results || []).map(row => ({
+    ...toActionItemRecord(row),
+    filename: row.filename || undefined,
+    clientName: row.client_name || undefined,
+    meetingDate: row.meeting_date
   }))
 }
 
-async function claimChunkJob(env: Bindings, taskId: string, index: number, workerId: string): Promise<ChunkJobRecord | null> {
-  const now = new Date().toISOString()
-  const nowMs = Date.now()
-  
-  // Check if job is available
-  const job = await env.DB.prepare(
-    `SELECT chunk_index, start_ms, end_ms, mime_type, audio_base64, size_bytes, attempts, status,
-            last_error, processing_by, retry_at, created_at, updated_at
-     FROM chunk_jobs
-     WHERE task_id = ? AND chunk_index = ? AND status = 'queued'`
-  ).bind(taskId, index).first<{
-    chunk_index: number
-    start_ms: number
-    end_ms: number
-    mime_type: string
-    audio_base64: string
-    size_bytes: number
-    attempts: number
-    status: ChunkJobStatus
-    last_error: string | null
-    processing_by: string | null
-    retry_at: string | null
-    created_at: string
-    updated_at: string
-  }>()
-  
-  if (!job) return null
-  if (job.retry_at && Date.parse(job.retry_at) > nowMs) return null
-  
-  // Claim the job
-  await env.DB.prepare(
-    'UPDATE chunk_jobs SET status = ?, processing_by = ?, updated_at = ? WHERE task_id = ? AND chunk_index = ? AND status = \'queued\''
-  ).bind('processing', workerId, now, taskId, index).run()
-  
-  // Verify claim
-  const confirmed = await env.DB.prepare(
-    `SELECT chunk_index, start_ms, end_ms, mime_type, audio_base64, size_bytes, attempts, status,
-            last_error, processing_by, retry_at, created_at, updated_at
-     FROM chunk_jobs
-     WHERE task_id = ? AND chunk_index = ?`
-  ).bind(taskId, index).first<{
-    chunk_index: number
-    start_ms: number
-    end_ms: number
-    mime_type: string
-    audio_base64: string
-    size_bytes: number
-    attempts: number
-    status: ChunkJobStatus
-    last_error: string | null
-    processing_by: string | null
-    retry_at: string | null
-    created_at: string
-    updated_at: string
-  }>()
-  
-  if (!confirmed || confirmed.processing_by !== workerId || confirmed.status !== 'processing') {
-    return null
+/**
+ * Extract action items from the task's current minutes and replace the previous extraction.
+ * Items staff have edited are kept, and new items duplicating them are skipped.
+ * Returns null when the task has no minutes yet.
+ */
+async function extractActionItems(
+  env: Bindings,
+  task: TaskRecord,
+  provider: SummarizationProvider
+): Promise<{ minutesVersion: number | null; extracted: number; added: number; kept: number } | null> {
+  const minutes = await env.DB.prepare(
+    'SELECT content, version FROM minutes WHERE task_id = ?'
+  ).bind(task.id).first<{ content: string; version: number | null }>()
+  if (!minutes) return null
+
+  const extracted = await provider.extractActionItems(env, task.id, {
+    minutes: minutes.content,
+    meetingDate: task.createdAt.slice(0, 10)
+  })
+
+  const existing = await env.DB.prepare(
+    'SELECT * FROM action_items WHERE task_id = ? AND edited = 1'
+  ).bind(task.id).all<ActionItemRow>()
+  const kept = (existing.results || []).map(toActionItemRecord)
+
+  const fresh = extracted.filter(item => !kept.some(keptItem =>
+    (keptItem.assignee ?? '') === (item.assignee ?? '') &&
+    textSimilarity(keptItem.description, item.description) >= ACTION_ITEM_DUPLICATE_MIN_SIMILARITY
+  ))
+
+  const now = new Date().toISOString()
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM action_items WHERE task_id = ? AND edited = 0').bind(task.id),
+    ...fresh.map(item => env.DB.prepare(
+      `INSERT INTO action_items (id, task_id, client_id, minutes_version, assignee, description, due_date, due_text, status, timestamp_ms, edited, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`
+    ).bind(
+      crypto.randomUUID(),
+      task.id,
+      task.clientId ?? null,
+      minutes.version,
+      item.assignee ?? null,
+      item.description,
+      item.dueDate ?? null,
+      item.dueText ?? null,
+      item.status,
+      item.timestampMs ?? null,
+      now,
+      now
+    ))
+  ])
+
+  await appendTaskLog(env, task.id, {
+    level: 'info',
+    message: 'Action items extracted',
+    context: {
+      minutesVersion: minutes.version,
+      extracted: extracted.length,
+      added: fresh.length,
+      kept: kept.length
+    }
+  })
+
+  return { minutesVersion: minutes.version, extracted: extracted.length, added: fresh.length, kept: kept.length }
+}
+
+/**
+ * Extraction after minutes generation; a failure here must not fail the minutes themselves.
+ */
+async function refreshActionItems(env: Bindings, task: TaskRecord, provider: SummarizationProvider): Promise<void> {
+  try {
+    await extractActionItems(env, task, provider)
+  } catch (error) {
+    await appendTaskLog(env, task.id, {
+      level: 'warn',
+      message: 'Action item extraction failed',
+      context: {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+  }
+}
+
+function parseActionItemsResponse(rawText: string): ExtractedActionItem[] | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(rawText.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''))
+  } catch {
+    return null
+  }
+  if (!Array.isArray(parsed)) return null
+
+  const items: ExtractedActionItem[] = []
+  for (const entry of parsed) {
+    if (!entry || typeof entry !== 'object') return null
+    const { assignee, description, dueDate, dueText, status, timestamp } = entry as Record<string, unknown>
+    if (typeof description !== 'string' || !description.trim()) continue
+    const text = (value: unknown) =>
+      typeof value === 'string' && value.trim() ? value.trim().slice(0, ACTION_ITEM_TEXT_MAX_LENGTH) : undefined
+    items.push({
+      assignee: text(assignee),
+      description: description.trim().slice(0, ACTION_ITEM_TEXT_MAX_LENGTH),
+      dueDate: typeof dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(dueDate) ? dueDate : undefined,
+      dueText: text(dueText),
+      status: status === 'in_progress' || status === 'done' ? status : 'open',
+      timestampMs: typeof timestamp === 'string' ? getTimestampMs(timestamp) ?? undefined : undefined
+    })
+  }
+  return items
+}
+
+/**
+ * Purge audio and transcripts past their retention (client override, else the global setting).
+ * Tasks on legal hold are never selected. Each purge is recorded in retention_purges and audit_events.
+ */
+async function runRetentionPurge(
+  env: Bindings,
+  options: {
+    now: Date
+    triggeredBy: 'scheduled' | 'manual'
+    dryRun?: boolean
+  }
+): Promise<{ purged: RetentionPurgeResult[]; candidates: Array<{ taskId: string; kind: RetentionPurgeKind; retention: string }>; failed: Array<{ taskId: string; kind: RetentionPurgeKind; error: string }> }> {
+  const config = getRuntimeConfig(env)
+  const now = options.now.toISOString()
+
+  const selectExpired = (kind: RetentionPurgeKind) => {
+    const column = kind === 'audio' ? 'audio_retention_days' : 'transcript_retention_years'
+    const unit = kind === 'audio' ? 'days' : 'years'
+    const purgedColumn = kind === 'audio' ? 'audio_purged_at' : 'content_purged_at'
+    const fallback = kind === 'audio' ? config.audioRetentionDays : config.transcriptRetentionYears
+    // COALESCE(...) is NULL when neither the client nor the global policy sets a period, so nothing matches
+    return env.DB.prepare(
+      `SELECT tasks.id, tasks.client_id, tasks.audio_purged_at, COALESCE(clients.${column}, ?) AS period
+       FROM tasks LEFT JOIN clients ON clients.id = tasks.client_id
+       WHERE tasks.legal_hold = 0
+         AND tasks.${purgedColumn} IS NULL
+         AND tasks.created_at < strftime('%Y-%m-%dT%H:%M:%fZ', ?, '-' || COALESCE(clients.${column}, ?) || ' ${unit}')
+       ORDER BY tasks.created_at
+       LIMIT ?`
+    ).bind(fallback, now, fallback, RETENTION_PURGE_BATCH_SIZE).all<{ id: string; client_id: string | null; audio_purged_at: string | null; period: number }>()
+  }
+
+  const [expiredAudio, expiredTranscripts] = await Promise.all([selectExpired('audio'), selectExpired('transcript')])
+  const candidates = [
+    ...(expiredAudio.results || []).map(row => ({ row, kind: 'audio' as const, retention: `${row.period} days` })),
+    ...(expiredTranscripts.results || []).map(row => ({ row, kind: 'transcript' as const, retention: `${row.period} years` }))
+  ]
+
+  const report = {
+    purged: [] as RetentionPurgeResult[],
+    candidates: candidates.map(({ row, kind, retention }) => ({ taskId: row.id, kind, retention })),
+    failed: [] as Array<{ taskId: string; kind: RetentionPurgeKind; error: string }>
+  }
+  if (options.dryRun) {
+    return report
+  }
+
+  for (const { row, kind, retention } of candidates) {
+    try {
+      // Transcript expiry removes any audio that is still around as well
+      const r2ObjectsDeleted = kind === 'audio' || !row.audio_purged_at ? await purgeTaskAudio(env, row.id, now) : 0
+      const rowsDeleted = kind === 'transcript' ? await purgeTaskContent(env, row.id, now) : 0
+      const result: RetentionPurgeResult = {
+        taskId: row.id,
+        clientId: row.client_id ?? undefined,
+        kind,
+        retention,
+        r2ObjectsDeleted,
+        rowsDeleted
+      }
+
+      await env.DB.prepare(
+        `INSERT INTO retention_purges (task_id, client_id, kind, retention, r2_objects_deleted, rows_deleted, triggered_by, purged_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(row.id, row.client_id, kind, retention, r2ObjectsDeleted, rowsDeleted, options.triggeredBy, now).run()
+      await recordAuditEvent(env, {
+        action: `retention.purge_${kind}`,
+        taskId: row.id,
+        clientId: row.client_id ?? undefined,
+        method: options.triggeredBy === 'scheduled' ? 'CRON' : 'POST',
+        path: options.triggeredBy === 'scheduled' ? 'scheduled' : '/api/admin/retention/run',
+        status: 200,
+        details: { retention, r2ObjectsDeleted, rowsDeleted }
+      })
+      await appendTaskLog(env, row.id, {
+        level: 'info',
+        message: `Retention purge (${kind})`,
+        context: { retention, r2ObjectsDeleted, rowsDeleted, triggeredBy: options.triggeredBy }
+      })
+      report.purged.push(result)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`Retention purge failed for ${row.id}`, error)
+      report.failed.push({ taskId: row.id, kind, error: errorMessage })
+    }
+  }
+
+  return report
+}
+
+/**
+ * Garbage-collect chunk audio: tasks completed more than the grace period ago keep only their original
+ * (merged.webm), and task prefixes with no tasks row (deleted outside deleteTask) are removed entirely.
+ */
+async function runChunkAudioSweep(env: Bindings, options: { now: Date; dryRun?: boolean }): Promise<ChunkAudioSweepReport> {
+  const graceDays = getRuntimeConfig(env).chunkAudioGraceDays
+  const now = options.now.toISOString()
+
+  const finished = await env.DB.prepare(
+    `SELECT id FROM tasks
+     WHERE status = 'completed'
+       AND chunk_audio_purged_at IS NULL
+       AND audio_purged_at IS NULL
+       AND completed_at <= strftime('%Y-%m-%dT%H:%M:%fZ', ?, '-' || ? || ' days')
+     ORDER BY completed_at
+     LIMIT ?`
+  ).bind(now, graceDays, CHUNK_AUDIO_SWEEP_BATCH_SIZE).all<{ id: string }>()
+
+  // Top-level prefixes are task ids; pages of 100 keep the IN (...) list under D1's bound parameter limit
+  const orphanTaskIds: string[] = []
+  let cursor: string | undefined
+  do {
+    const listed = await env.AUDIO_CHUNKS.list({ delimiter: '/', limit: 100, cursor })
+    const taskIds = listed.delimitedPrefixes.map(prefix => prefix.slice(0, -1))
+    if (taskIds.length > 0) {
+      const existing = await env.DB.prepare(
+        `SELECT id FROM tasks WHERE id IN (${taskIds.map(() => '?').join(', ')})`
+      ).bind(...taskIds).all<{ id: string }>()
+      const existingIds = new Set((existing.results || []).map(row => row.id))
+      orphanTaskIds.push(...taskIds.filter(taskId => !existingIds.has(taskId)))
+    }
+    cursor = listed.truncated ? listed.cursor : undefined
+  } while (cursor)
+
+  const report: ChunkAudioSweepReport = {
+    graceDays,
+    candidates: (finished.results || []).map(row => row.id),
+    swept: [],
+    orphans: orphanTaskIds.map(taskId => ({ taskId, objectsDeleted: 0, bytesDeleted: 0 })),
+    failed: []
   }
-  
-  return {
-    index: confirmed.chunk_index,
-    startMs: confirmed.start_ms,
-    endMs: confirmed.end_ms,
-    mimeType: confirmed.mime_type,
-    audioBase64: confirmed.audio_base64,
-    sizeBytes: confirmed.size_bytes,
-    attempts: confirmed.attempts,
-    status: confirmed.status,
-    lastError: confirmed.last_error || undefined,
-    processingBy: confirmed.processing_by || undefined,
-    retryAt: confirmed.retry_at || undefined,
-    createdAt: confirmed.created_at,
-    updatedAt: confirmed.updated_at
-  }
-}
-
-async function processChunkJob(
+  if (options.dryRun) {
+    return report
+  }
+
+  for (const taskId of report.candidates) {
+    try {
+      const { objects, bytes } = await deleteTaskObjects(env, taskId, { exceptKeys: [`${taskId}/merged.webm`] })
+      await env.DB.batch([
+        env.DB.prepare('UPDATE chunk_jobs SET audio_base64 = NULL WHERE task_id = ?').bind(taskId),
+        env.DB.prepare('UPDATE tasks SET chunk_audio_purged_at = ? WHERE id = ?').bind(now, taskId)
+      ])
+      await appendTaskLog(env, taskId, {
+        level: 'info',
+        message: 'Chunk audio removed after completion',
+        context: { objectsDeleted: objects, bytesDeleted: bytes, graceDays }
+      })
+      report.swept.push({ taskId, objectsDeleted: objects, bytesDeleted: bytes })
+    } catch (error) {
+      console.error(`Chunk audio sweep failed for ${taskId}`, error)
+      report.failed.push({ taskId, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  for (const orphan of report.orphans) {
+    try {
+      const { objects, bytes } = await deleteTaskObjects(env, orphan.taskId)
+      orphan.objectsDeleted = objects
+      orphan.bytesDeleted = bytes
+    } catch (error) {
+      console.error(`Orphaned R2 prefix cleanup failed for ${orphan.taskId}`, error)
+      report.failed.push({ taskId: orphan.taskId, error: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  }
+
+  return report
+}
+
+/**
+ * Delete every R2 object under the task prefix (merged audio and chunk audio).
+ */
+async function deleteTaskObjects(
   env: Bindings,
   taskId: string,
-  job: ChunkJobRecord,
-  config: RuntimeConfig
-): Promise<boolean> {
-  const workerId = crypto.randomUUID()
-  const claimed = await claimChunkJob(env, taskId, job.index, workerId)
-  if (!claimed) {
-    return false
-  }
+  options: { exceptKeys?: string[] } = {}
+): Promise<{ objects: number; bytes: number }> {
+  let objects = 0
+  let bytes = 0
+  let cursor: string | undefined
+  do {
+    const listed = await env.AUDIO_CHUNKS.list({ prefix: `${taskId}/`, cursor })
+    const deletable = listed.objects.filter(object => !options.exceptKeys?.includes(object.key))
+    if (deletable.length > 0) {
+      await env.AUDIO_CHUNKS.delete(deletable.map(object => object.key))
+      objects += deletable.length
+      bytes += deletable.reduce((sum, object) => sum + object.size, 0)
+    }
+    cursor = listed.truncated ? listed.cursor : undefined
+  } while (cursor)
+  return { objects, bytes }
+}
 
-  const attemptNumber = claimed.attempts + 1
-  const startedAt = Date.now()
+/**
+ * Delete the task's audio from R2 and D1, keeping transcripts. Returns the number of R2 objects deleted.
+ */
+async function purgeTaskAudio(env: Bindings, taskId: string, purgedAt: string): Promise<number> {
+  const { objects } = await deleteTaskObjects(env, taskId)
+
+  // Legacy chunk jobs kept audio inline in D1
+  await env.DB.batch([
+    env.DB.prepare('UPDATE chunk_jobs SET audio_base64 = NULL WHERE task_id = ?').bind(taskId),
+    env.DB.prepare('UPDATE tasks SET audio_purged_at = ? WHERE id = ?').bind(purgedAt, taskId)
+  ])
+  return objects
+}
 
-  await saveChunkState(env, taskId, {
-    index: claimed.index,
-    status: 'processing',
-    attempts: attemptNumber,
-    updatedAt: new Date().toISOString(),
-    lastError: claimed.lastError
+/**
+ * Remove a task completely: R2 objects first (so a failure leaves the task visible for a retry),
+ * then every D1 row in one batch. audit_events and retention_purges are kept as the record of deletion.
+ */
+async function deleteTask(env: Bindings, task: TaskRecord, request: AuditRequest): Promise<TaskDeletionReport> {
+  // Parts of unfinished multipart uploads are not listed under the prefix, so abort them explicitly
+  const activeUploads = await env.DB.prepare(
+    "SELECT r2_key, r2_upload_id FROM uploads WHERE task_id = ? AND status = 'uploading'"
+  ).bind(task.id).all<{ r2_key: string; r2_upload_id: string }>()
+  for (const upload of activeUploads.results ?? []) {
+    await env.AUDIO_CHUNKS.resumeMultipartUpload(upload.r2_key, upload.r2_upload_id).abort().catch(() => undefined)
+  }
+  const { objects, bytes } = await deleteTaskObjects(env, task.id)
+  const usage = await getTaskUsageStatsContribution(env, task.id)
+
+  const tables = [
+    'chunks',
+    'chunk_states',
+    'chunk_jobs',
+    'transcripts',
+    'transcript_segments',
+    'transcript_revisions',
+    'speakers',
+    'minutes',
+    'minutes_versions',
+    'action_items',
+    'task_logs',
+    'upload_parts',
+    'uploads'
+  ]
+  // The usage_stats triggers only count inserts, so the counters are taken back out before the rows they are based on go
+  const usageStatements = buildUsageStatsDeductions(env, task.id, usage)
+  const results = await env.DB.batch([
+    ...usageStatements,
+    ...tables.map(table => env.DB.prepare(`DELETE FROM ${table} WHERE task_id = ?`).bind(task.id)),
+    env.DB.prepare('DELETE FROM tasks WHERE id = ?').bind(task.id)
+  ])
+  const rowsDeleted: Record<string, number> = {}
+  ;[...tables, 'tasks'].forEach((table, index) => {
+    rowsDeleted[table] = results[usageStatements.length + index].meta.changes ?? 0
   })
 
-  const apiKey = env.GEMINI_API_KEY
-  if (!apiKey) {
-    await handleChunkJobFailure(
-      env,
-      taskId,
-      claimed,
-      attemptNumber,
-      'Gemini API key is not configured',
-      config,
-      false
+  const report: TaskDeletionReport = {
+    taskId: task.id,
+    filename: task.filename,
+    clientId: task.clientId,
+    r2ObjectsDeleted: objects,
+    r2BytesDeleted: bytes,
+    rowsDeleted,
+    usageStatsDeducted: usage,
+    deletedAt: new Date().toISOString()
+  }
+  await recordAuditEvent(env, {
+    ...request,
+    action: 'task.delete',
+    taskId: task.id,
+    clientId: task.clientId,
+    status: 200,
+    details: {
+      filename: task.filename,
+      r2ObjectsDeleted: objects,
+      r2BytesDeleted: bytes,
+      rowsDeleted,
+      usageStatsDeducted: usage
+    }
+  })
+  return report
+}
+
+async function getTaskUsageStatsContribution(env: Bindings, taskId: string): Promise<UsageStatsDeduction> {
+  const row = await env.DB.prepare(
+    `SELECT
+       (SELECT COUNT(*) FROM tasks WHERE id = ?) as tasks,
+       (SELECT COALESCE(duration_ms, 0) FROM tasks WHERE id = ?) as audio_duration_ms,
+       (SELECT COUNT(*) FROM chunk_states WHERE task_id = ? AND status = 'completed') as chunks_processed,
+       (SELECT COALESCE(SUM(LENGTH(text)), 0) FROM chunks WHERE task_id = ?) as transcript_characters,
+       (SELECT COUNT(*) FROM transcript_revisions WHERE task_id = ? AND source = 'ai') as transcripts_generated,
+       (SELECT COUNT(*) FROM minutes_versions WHERE task_id = ? AND source = 'ai') as minutes_generated`
+  ).bind(taskId, taskId, taskId, taskId, taskId, taskId).first<Record<string, number | null>>()
+  return {
+    tasks: row?.tasks ?? 0,
+    audioDurationMs: row?.audio_duration_ms ?? 0,
+    chunksProcessed: row?.chunks_processed ?? 0,
+    transcriptCharacters: row?.transcript_characters ?? 0,
+    // Every merge inserts into transcripts (counted by the trigger) and appends an 'ai' revision
+    transcriptsGenerated: row?.transcripts_generated ?? 0,
+    minutesGenerated: row?.minutes_generated ?? 0
+  }
+}
+
+/**
+ * Statements that subtract a task's contribution from the counters. Daily rows are matched on the date each
+ * row was counted (the triggers use DATE('now') at insert time, which the rows' created_at/updated_at record).
+ */
+function buildUsageStatsDeductions(env: Bindings, taskId: string, usage: UsageStatsDeduction): D1PreparedStatement[] {
+  const daily = [
+    { column: 'chunks_processed', source: 'chunk_states', value: 'COUNT(*)', dateColumn: 'updated_at', filter: "AND status = 'completed'" },
+    { column: 'transcript_characters', source: 'chunks', value: 'COALESCE(SUM(LENGTH(text)), 0)', dateColumn: 'created_at', filter: '' },
+    { column: 'transcripts_generated', source: 'transcript_revisions', value: 'COUNT(*)', dateColumn: 'created_at', filter: "AND source = 'ai'" },
+    { column: 'minutes_generated', source: 'minutes_versions', value: 'COUNT(*)', dateColumn: 'created_at', filter: "AND source = 'ai'" }
+  ]
+  return [
+    env.DB.prepare(
+      `UPDATE usage_stats SET
+         total_tasks = MAX(0, total_tasks - ?),
+         total_audio_duration_ms = MAX(0, total_audio_duration_ms - ?),
+         total_chunks_processed = MAX(0, total_chunks_processed - ?),
+         total_transcript_characters = MAX(0, total_transcript_characters - ?),
+         total_transcripts_generated = MAX(0, total_transcripts_generated - ?),
+         total_minutes_generated = MAX(0, total_minutes_generated - ?),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE id = 1`
+    ).bind(
+      usage.tasks,
+      usage.audioDurationMs,
+      usage.chunksProcessed,
+      usage.transcriptCharacters,
+      usage.transcriptsGenerated,
+      usage.minutesGenerated
+    ),
+    env.DB.prepare(
+      `UPDATE daily_usage_stats SET
+         tasks_count = MAX(0, tasks_count - ?),
+         audio_duration_ms = MAX(0, audio_duration_ms - ?),
+         updated_at = CURRENT_TIMESTAMP
+       WHERE date = (SELECT DATE(created_at) FROM tasks WHERE id = ?)`
+    ).bind(usage.tasks, usage.audioDurationMs, taskId),
+    ...daily.map(({ column, source, value, dateColumn, filter }) =>
+      env.DB.prepare(
+        `UPDATE daily_usage_stats SET
+           ${column} = MAX(0, ${column} - (
+             SELECT ${value} FROM ${source} WHERE task_id = ? ${filter} AND DATE(${dateColumn}) = daily_usage_stats.date
+           )),
+           updated_at = CURRENT_TIMESTAMP
+         WHERE date IN (SELECT DATE(${dateColumn}) FROM ${source} WHERE task_id = ? ${filter})`
+      ).bind(taskId, taskId)
     )
-    return false
+  ]
+}
+
+/**
+ * Delete transcript and minutes content for a task. The task row stays as a record that the meeting took place.
+ */
+async function purgeTaskContent(env: Bindings, taskId: string, purgedAt: string): Promise<number> {
+  const tables = [
+    'chunks',
+    'transcripts',
+    'transcript_segments',
+    'transcript_revisions',
+    'speakers',
+    'minutes',
+    'minutes_versions',
+    'action_items'
+  ]
+  const results = await env.DB.batch([
+    ...tables.map(table => env.DB.prepare(`DELETE FROM ${table} WHERE task_id = ?`).bind(taskId)),
+    env.DB.prepare('UPDATE tasks SET content_purged_at = ? WHERE id = ?').bind(purgedAt, taskId)
+  ])
+  return results.slice(0, tables.length).reduce((sum, result) => sum + (result.meta.changes ?? 0), 0)
+}
+
+/**
+ * Japanese fiscal year label for a meeting date, e.g. a March year-end client met in 2026-05 → 2027年3月期.
+ */
+function getFiscalYearEnd(meetingDate: string, fiscalYearEndMonth: number): { year: number; label: string } {
+  const date = new Date(meetingDate)
+  const month = date.getUTCMonth() + 1
+  const year = month <= fiscalYearEndMonth ? date.getUTCFullYear() : date.getUTCFullYear() + 1
+  return { year, label: `${year}年${fiscalYearEndMonth}月期` }
+}
+
+/**
+ * Rebuild the chunk jobs of a task from its stored original and queue them. The previous transcript stays
+ * readable (and recorded as a revision) until the new merge replaces it; minutes are already versioned.
+ * Recognized containers are cut on the audio timeline; anything else falls back to byte slices with the same
+ * overlap as the browser upload. Chunks go under a fresh prefix so queue messages from an earlier run can be
+ * told apart and skipped.
+ */
+async function reprocessTask(
+  env: Bindings,
+  task: TaskRecord,
+  original: R2Object,
+  options: { model?: string; chunkSizeBytes: number }
+): Promise<{ taskId: string; totalChunks: number; model: string; chunkSizeBytes: number; archivedTranscriptRevision: number | null; archivedMinutesVersion: number | null }> {
+  const taskId = task.id
+  const durationMs = task.durationMs ?? 0
+  const mimeType = original.httpMetadata?.contentType || 'audio/webm'
+  const extension = mimeType.split('/')[1]?.split(';')[0] || 'webm'
+
+  const transcript = await env.DB.prepare(
+    'SELECT content FROM transcripts WHERE task_id = ?'
+  ).bind(taskId).first<{ content: string }>()
+  if (transcript) {
+    await ensureTranscriptBaseline(env, taskId, transcript.content)
   }
+  const archivedTranscriptRevision = transcript ? await getLatestTranscriptRevision(env, taskId) : null
+  const minutesVersion = await env.DB.prepare(
+    'SELECT MAX(version) as version FROM minutes_versions WHERE task_id = ?'
+  ).bind(taskId).first<{ version: number | null }>()
+  const archivedMinutesVersion = minutesVersion?.version ?? null
+
+  // Drop the previous run's chunk results and any chunk audio still in R2 (the original stays)
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM chunks WHERE task_id = ?').bind(taskId),
+    env.DB.prepare('DELETE FROM chunk_jobs WHERE task_id = ?').bind(taskId),
+    env.DB.prepare('DELETE FROM chunk_states WHERE task_id = ?').bind(taskId),
+    env.DB.prepare('DELETE FROM transcript_segments WHERE task_id = ?').bind(taskId)
+  ])
+  await deleteTaskObjects(env, taskId, { exceptKeys: [original.key] })
 
-  const previousChunk = claimed.index > 0 ? await getChunk(env, taskId, claimed.index - 1) : null
-  const previousContext = previousChunk ? previousChunk.text.slice(-1500) : ''
+  const config = getRuntimeConfig(env)
+  const overlapMs = config.overlapSeconds * 1000
+  const layout = await analyzeAudioContainer(createR2RangeReader(env, original))
+  const plans = layout
+    ? planContainerChunks(layout, { chunkDurationMs: getContainerChunkDurationMs(layout, config, options.chunkSizeBytes), overlapMs })
+    : planByteChunks(original.size, durationMs, { chunkSizeBytes: options.chunkSizeBytes, overlapMs })
+  const totalChunks = plans.length
+  const now = new Date().toISOString()
+
+  await env.DB.prepare(
+    "UPDATE tasks SET total_chunks = ?, processed_chunks = 0, status = 'transcribing', error = NULL, merge_on_complete = 1, chunk_audio_purged_at = NULL, updated_at = ? WHERE id = ?"
+  ).bind(totalChunks, now, taskId).run()
+
+  await queueAudioChunks(env, taskId, original, plans, {
+    mimeType: layout?.mimeType ?? mimeType,
+    extension: layout?.extension ?? extension,
+    keyPrefix: `reprocess-${Date.now().toString(36)}`,
+    model: options.model
+  })
 
+  const model = options.model ?? (await getModelSettings(env, task)).transcriptionModel
   await appendTaskLog(env, taskId, {
     level: 'info',
-    message: 'Chunk transcription started',
+    message: 'Task reprocess queued from original audio',
     context: {
-      chunkIndex: claimed.index,
-      attempt: attemptNumber
+      totalChunks,
+      chunkSizeBytes: options.chunkSizeBytes,
+      overlapMs,
+      chunking: layout ? layout.format : 'bytes',
+      model,
+      archivedTranscriptRevision,
+      archivedMinutesVersion
     }
   })
 
+  return {
+    taskId,
+    totalChunks,
+    model,
+    chunkSizeBytes: options.chunkSizeBytes,
+    archivedTranscriptRevision,
+    archivedMinutesVersion
+  }
+}
+
+/**
+ * Merge from the queue consumer once the last chunk of a server-side job completes.
+ * The flag is cleared atomically so concurrent consumers merge only once; a blocked merge sets it again
+ * so that retrying the failed chunk triggers the merge.
+ */
+async function mergeTaskWhenComplete(env: Bindings, taskId: string): Promise<void> {
   try {
-    const transcription = await callGeminiFlashTranscription(env, taskId, {
-      apiKey,
-      audioBase64: claimed.audioBase64,
-      mimeType: claimed.mimeType,
-      chunkIndex: claimed.index,
-      chunkStartMs: claimed.startMs,
-      chunkEndMs: claimed.endMs,
-      previousContext
+    const claimed = await env.DB.prepare(
+      `UPDATE tasks SET merge_on_complete = 0
+       WHERE id = ? AND merge_on_complete = 1
+         AND total_chunks <= (SELECT COUNT(*) FROM chunk_states WHERE task_id = ? AND status = 'completed')
+         AND NOT EXISTS (SELECT 1 FROM chunk_states WHERE task_id = ? AND status != 'completed')`
+    ).bind(taskId, taskId, taskId).run()
+    if (!claimed.meta.changes) return
+
+    const task = await getTask(env, taskId)
+    if (!task) return
+    const result = await mergeTaskTranscript(env, task)
+    if (!result.ok) {
+      await env.DB.prepare('UPDATE tasks SET merge_on_complete = 1 WHERE id = ?').bind(taskId).run()
+      await appendTaskLog(env, taskId, {
+        level: 'warn',
+        message: 'Automatic transcript merge blocked',
+        context: result.body
+      })
+    }
+  } catch (error) {
+    await env.DB.prepare('UPDATE tasks SET merge_on_complete = 1 WHERE id = ?').bind(taskId).run().catch(() => {})
+    await appendTaskLog(env, taskId, {
+      level: 'error',
+      message: 'Automatic transcript merge failed',
+      context: {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+  }
+}
+
+/**
+ * Merge every chunk into the transcript, then auto-generate minutes.
+ * Shared by the merge route (browser uploads) and the queue consumer (server-side reprocess).
+ */
+async function mergeTaskTranscript(env: Bindings, task: TaskRecord): Promise<TranscriptMergeResult> {
+  const taskId = task.id
+  const summary = await getChunkSummary(env, taskId)
+  const totalChunks = task.totalChunks
+  const pendingChunks = (summary.processing ?? 0) + (summary.queued ?? 0)
+  const completedChunks = summary.completed ?? 0
+  const summaryTotal = summary.total ?? 0
+
+  if ((summary.error ?? 0) > 0) {
+    await appendTaskLog(env, taskId, {
+      level: 'warn',
+      message: 'Transcript merge blocked: chunk errors remain',
+      context: {
+        summary
+      }
+    })
+    return {
+      ok: false,
+      status: 409,
+      body: {
+        error: '一部のチャンクの文字起こしに失敗しました。失敗したチャンクを再試行してください。',
+        chunkSummary: summary
+      }
+    }
+  }
+
+  if (totalChunks === 0) {
+    return { ok: false, status: 400, body: { error: 'マージするチャンクがありません' } }
+  }
+
+  if (pendingChunks > 0 || completedChunks < totalChunks || summaryTotal < totalChunks) {
+    await appendTaskLog(env, taskId, {
+      level: 'info',
+      message: 'Transcript merge deferred: chunks still pending',
+      context: {
+        summary
+      }
     })
+    return {
+      ok: false,
+      status: 409,
+      body: {
+        error: 'Transcription is not complete yet',
+        chunkSummary: summary
+      }
+    }
+  }
+
+  await appendTaskLog(env, taskId, {
+    level: 'info',
+    message: 'Transcript merge started',
+    context: {
+      totalChunks: task.totalChunks
+    }
+  })
+
+  const chunkRecords: ChunkRecord[] = []
+  for (let i = 0; i < task.totalChunks; i++) {
+    const record = await getChunk(env, taskId, i)
+    if (!record) {
+      // Get existing state from DB
+      const stateResult = await env.DB.prepare(
+        'SELECT status, updated_at FROM chunk_states WHERE task_id = ? AND chunk_index = ?'
+      ).bind(taskId, i).first<{ status: ChunkJobStatus, updated_at: string }>()
+      
+      await saveChunkState(env, taskId, {
+        index: i,
+        status: 'error',
+        attempts: 0,
+        updatedAt: new Date().toISOString(),
+        lastError: 'Chunk missing before merge'
+      })
+      await appendTaskLog(env, taskId, {
+        level: 'error',
+        message: 'Transcript merge failed: chunk missing',
+        context: {
+          chunkIndex: i
+        }
+      })
+      const updatedSummary = await getChunkSummary(env, taskId)
+      return {
+        ok: false,
+        status: 409,
+        body: {
+          error: `Missing chunk ${i}. Please reprocess this chunk.`,
+          chunkIndex: i,
+          chunkSummary: updatedSummary
+        }
+      }
+    }
+    chunkRecords.push(record)
+  }
+
+  const result = mergeChunks(chunkRecords)
+  const now = new Date().toISOString()
+
+  // Register speakers and apply names already assigned by staff
+  const speakers = await syncTaskSpeakers(env, taskId, result.speakers)
+  const transcript = applySpeakerNames(result.merged, speakers)
+  
+  // Save transcript to D1
+  await env.DB.prepare(
+    'INSERT OR REPLACE INTO transcripts (task_id, content, created_at) VALUES (?, ?, ?)'
+  ).bind(taskId, transcript, now).run()
+
+  // Replace per-chunk segments with the merged, speaker-reconciled segments
+  await replaceTranscriptSegments(env, taskId, result.segments)
+
+  // Every merge appends an AI revision so that earlier edits stay recoverable
+  await saveTranscriptRevision(env, taskId, {
+    content: transcript,
+    source: 'ai',
+    diff: []
+  })
+
+  // Update task status
+  await env.DB.prepare(
+    'UPDATE tasks SET processed_chunks = ?, status = ?, updated_at = ? WHERE id = ?'
+  ).bind(totalChunks, 'transcribed', now, taskId).run()
+  await appendTaskLog(env, taskId, {
+    level: 'info',
+    message: 'Transcript merge completed',
+    context: {
+      totalChunks: task.totalChunks,
+      skippedLines: result.debug.skippedLines.length,
+      chunkInfo: result.debug.chunkInfo,
+      segments: result.segments.length,
+      speakers: speakers.length,
+      speakerMappings: result.debug.speakerMappings
+    }
+  })
+  
+  // Auto-generate minutes after transcript merge
+  try {
+    const models = await getModelSettings(env, task)
+    const provider = getSummarizationProvider(env, task.summarizationProvider, models.minutesModel)
+    const budget = provider?.name === 'gemini' ? await checkBudget(env, taskId, { operation: 'minutes' }) : null
+    if (budget?.state === 'exceeded') {
+      // The task stays 'transcribed'; minutes can be generated from the UI once the cap is raised
+      await appendTaskLog(env, taskId, {
+        level: 'warn',
+        message: 'Minutes auto-generation skipped (API budget exceeded)'
+      })
+    } else if (provider) {
+      await appendTaskLog(env, taskId, {
+        level: 'info',
+        message: 'Auto-generating minutes after transcript merge',
+        context: { provider: provider.name }
+      })
+      
+      const defaultTemplate = await getMinutesTemplate(env, MINUTES_PROMPT_TEMPLATE_ID)
+      const minutesContent = await provider.summarize(env, taskId, {
+        transcript,
+        filename: task.filename,
+        durationMs: task.durationMs,
+        template: defaultTemplate ?? undefined,
+        variables: buildMinutesTemplateVariables(task, task.clientId ? await getClient(env, task.clientId) : null, undefined)
+      })
+      
+      const saved = await saveMinutesVersion(env, taskId, {
+        content: minutesContent,
+        source: 'ai',
+        model: provider.model,
+        templateId: MINUTES_PROMPT_TEMPLATE_ID
+      })
+      
+      await env.DB.prepare(
+        'UPDATE tasks SET status = ?, updated_at = ? WHERE id = ?'
+      ).bind('completed', now, taskId).run()
+      
+      await appendTaskLog(env, taskId, {
+        level: 'info',
+        message: 'Minutes auto-generation completed',
+        context: {
+          minutesLength: minutesContent.length,
+          version: saved.version.version,
+          isCurrent: saved.isCurrent
+        }
+      })
 
-    const nowIso = new Date().toISOString()
-    const chunkRecord: ChunkRecord = {
-      index: claimed.index,
-      startMs: claimed.startMs,
-      endMs: claimed.endMs,
-      text: transcription,
-      createdAt: nowIso
+      if (saved.isCurrent) {
+        await refreshActionItems(env, task, provider)
+      }
     }
-
-    // Save chunk to D1
-    await env.DB.prepare(
-      'INSERT INTO chunks (task_id, chunk_index, start_ms, end_ms, text, created_at) VALUES (?, ?, ?, ?, ?, ?)'
-    ).bind(taskId, claimed.index, claimed.startMs, claimed.endMs, transcription, nowIso).run()
-    
-    // Delete job
-    await env.DB.prepare(
-      'DELETE FROM chunk_jobs WHERE task_id = ? AND chunk_index = ?'
-    ).bind(taskId, claimed.index).run()
-
-    await saveChunkState(env, taskId, {
-      index: claimed.index,
-      status: 'completed',
-      attempts: attemptNumber,
-      updatedAt: nowIso
-    })
-
+  } catch (error) {
+    // Log error but don't fail the merge
     await appendTaskLog(env, taskId, {
-      level: 'info',
-      message: 'Chunk transcription stored',
+      level: 'warn',
+      message: 'Minutes auto-generation failed',
       context: {
-        chunkIndex: claimed.index,
-        attempts: attemptNumber,
-        textLength: transcription.length,
-        durationMs: Date.now() - startedAt
+        error: error instanceof Error ? error.message : 'Unknown error'
       }
     })
+  }
 
-    await updateTaskProgress(env, taskId)
-    return true
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error'
-    await handleChunkJobFailure(env, taskId, claimed, attemptNumber, message, config, true)
-    return false
+  return {
+    ok: true,
+    transcript,
+    speakers,
+    debug: result.debug
   }
 }
 
-async function handleChunkJobFailure(
+async function getChunk(env: Bindings, taskId: string, index: number): Promise<ChunkRecord | null> {
+  const result = await env.DB.prepare(
+    'SELECT chunk_index, start_ms, end_ms, text, raw_response, silent, model, created_at FROM chunks WHERE task_id = ? AND chunk_index = ?'
+  ).bind(taskId, index).first<{
+    chunk_index: number
+    start_ms: number
+    end_ms: number
+    text: string
+    raw_response: string | null
+    silent: number
+    model: string | null
+    created_at: string
+  }>()
+  
+  if (!result) return null
+  
+  return {
+    index: result.chunk_index,
+    startMs: result.start_ms,
+    endMs: result.end_ms,
+    text: result.text,
+    rawResponse: result.raw_response ? JSON.parse(result.raw_response) : undefined,
+    silent: result.silent === 1 || undefined,
+    model: result.model || undefined,
+    createdAt: result.created_at
+  }
+}
+
+async function replaceTranscriptSegments(
   env: Bindings,
   taskId: string,
-  job: ChunkJobRecord,
-  attemptNumber: number,
-  message: string,
-  config: RuntimeConfig,
-  allowRetry: boolean
-) {
-  const nowIso = new Date().toISOString()
-  const retryable = allowRetry && attemptNumber < config.chunkJobMaxAttempts
-  const nextStatus: ChunkJobStatus = retryable ? 'queued' : 'error'
-  const retryDelayMs = retryable ? getBackoffDelay(attemptNumber) : 0
-  const retryAt = retryable ? new Date(Date.now() + retryDelayMs).toISOString() : null
-  const errorMessage = truncateString(message, 200)
-
-  // Update job in D1
-  await env.DB.prepare(
-    'UPDATE chunk_jobs SET attempts = ?, status = ?, last_error = ?, processing_by = NULL, retry_at = ?, updated_at = ? WHERE task_id = ? AND chunk_index = ?'
-  ).bind(attemptNumber, nextStatus, errorMessage, retryAt, nowIso, taskId, job.index).run()
-  
-  await saveChunkState(env, taskId, {
-    index: job.index,
-    status: nextStatus,
-    attempts: attemptNumber,
-    updatedAt: nowIso,
-    lastError: errorMessage
-  })
+  segments: TranscriptSegment[],
+  chunkIndex?: number
+): Promise<void> {
+  const now = new Date().toISOString()
+  const deleteStatement = chunkIndex === undefined
+    ? env.DB.prepare('DELETE FROM transcript_segments WHERE task_id = ?').bind(taskId)
+    : env.DB.prepare('DELETE FROM transcript_segments WHERE task_id = ? AND chunk_index = ?').bind(taskId, chunkIndex)
+  const insertStatements = segments.map((segment) =>
+    env.DB.prepare(
+      `INSERT INTO transcript_segments (task_id, chunk_index, start_ms, end_ms, speaker, text, confidence, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(taskId, segment.chunkIndex, segment.startMs, segment.endMs, segment.speaker ?? null, segment.text, segment.confidence ?? null, now)
+  )
+  // Single batch so readers never observe a half-replaced set
+  await env.DB.batch([deleteStatement, ...insertStatements])
+}
 
-  if (retryable) {
+async function storeChunkSegments(env: Bindings, taskId: string, chunk: ChunkRecord): Promise<void> {
+  try {
+    await replaceTranscriptSegments(env, taskId, parseTranscriptSegments(chunk.text, [chunk]), chunk.index)
+  } catch (error) {
+    // Segments are rebuilt on merge, so a failure here must not fail the chunk
     await appendTaskLog(env, taskId, {
       level: 'warn',
-      message: 'Chunk transcription re-queued',
-      context: {
-        chunkIndex: job.index,
-        attempt: attemptNumber,
-        error: truncateString(message, 200),
-        retryDelayMs
-      }
-    })
-  } else {
-    await appendTaskLog(env, taskId, {
-      level: 'error',
-      message: 'Chunk transcription failed',
+      message: 'Chunk segment extraction failed',
       context: {
-        chunkIndex: job.index,
-        attempts: attemptNumber,
-        error: truncateString(message, 200)
+        chunkIndex: chunk.index,
+        error: error instanceof Error ? error.message : 'Unknown error'
       }
     })
-    await setTaskError(env, taskId, message)
   }
 }
 
-async function saveChunkState(
-  env: Bindings,
-  taskId: string,
-  state: ChunkStateRecord
-): Promise<void> {
-  await env.DB.prepare(
-    'INSERT OR REPLACE INTO chunk_states (task_id, chunk_index, status, last_error, updated_at) VALUES (?, ?, ?, ?, ?)'
-  ).bind(taskId, state.index, state.status, state.lastError || null, state.updatedAt).run()
+/**
+ * Re-derive segments after a manual edit. Chunk ownership comes from the stored chunk ranges,
+ * and display names are mapped back to their speaker labels.
+ */
+async function rebuildSegmentsFromTranscript(env: Bindings, taskId: string, content: string): Promise<void> {
+  const chunkResults = await env.DB.prepare(
+    'SELECT chunk_index, start_ms, end_ms FROM chunks WHERE task_id = ? ORDER BY chunk_index'
+  ).bind(taskId).all<{ chunk_index: number; start_ms: number; end_ms: number }>()
+  const chunks: ChunkRange[] = (chunkResults.results || []).map(row => ({
+    index: row.chunk_index,
+    startMs: row.start_ms,
+    endMs: row.end_ms
+  }))
+
+  const speakers = await getTaskSpeakers(env, taskId)
+  const labelsByName = new Map(speakers.map((speaker) => [speaker.displayName ?? speaker.label, speaker.label]))
+  const segments = parseTranscriptSegments(content, chunks).map((segment) => ({
+    ...segment,
+    speaker: segment.speaker ? labelsByName.get(segment.speaker) ?? segment.speaker : undefined
+  }))
+
+  await replaceTranscriptSegments(env, taskId, segments)
 }
 
-async function getChunkSummary(env: Bindings, taskId: string): Promise<ChunkSummary> {
-  const records = await getChunkStateRecords(env, taskId)
-  const summary: ChunkSummary = {
-    total: records.length,
-    queued: 0,
-    processing: 0,
-    completed: 0,
-    error: 0
-  }
+async function getLatestTranscriptRevision(env: Bindings, taskId: string): Promise<number> {
+  const result = await env.DB.prepare(
+    'SELECT MAX(revision) as revision FROM transcript_revisions WHERE task_id = ?'
+  ).bind(taskId).first<{ revision: number | null }>()
+  return result?.revision ?? 0
+}
 
-  for (const record of records) {
-    switch (record.status) {
-      case 'queued':
-        summary.queued += 1
-        break
-      case 'processing':
-        summary.processing += 1
-        break
-      case 'completed':
-        summary.completed += 1
-        break
-      case 'error':
-        summary.error += 1
-        break
-    }
+async function saveTranscriptRevision(
+  env: Bindings,
+  taskId: string,
+  input: {
+    content: string
+    source: TranscriptRevisionSource
+    diff: LineDiffHunk[]
+    author?: string
   }
+): Promise<TranscriptRevisionRecord> {
+  const revision = (await getLatestTranscriptRevision(env, taskId)) + 1
+  const now = new Date().toISOString()
+  await env.DB.prepare(
+    'INSERT INTO transcript_revisions (task_id, revision, content, diff, source, author, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).bind(taskId, revision, input.content, JSON.stringify(input.diff), input.source, input.author ?? null, now).run()
 
-  return summary
+  return {
+    revision,
+    source: input.source,
+    author: input.author,
+    diff: input.diff,
+    createdAt: now
+  }
 }
 
-async function getChunkStateRecords(env: Bindings, taskId: string): Promise<ChunkStateRecord[]> {
-  const results = await env.DB.prepare(
-    'SELECT chunk_index, status, last_error, updated_at FROM chunk_states WHERE task_id = ? ORDER BY chunk_index'
-  ).bind(taskId).all<{
-    chunk_index: number
-    status: ChunkJobStatus
-    last_error: string | null
-    updated_at: string
-  }>()
-  
-  if (!results.results) return []
-  
-  return results.results.map(row => ({
-    index: row.chunk_index,
-    status: row.status,
-    lastError: row.last_error || undefined,
-    updatedAt: row.updated_at,
-    attempts: 0 // Not stored in chunk_states table
-  }))
+/**
+ * Transcripts merged before revision tracking existed have no history.
+ * Record the stored content as the AI original before the first change.
+ */
+async function ensureTranscriptBaseline(env: Bindings, taskId: string, content: string): Promise<void> {
+  if ((await getLatestTranscriptRevision(env, taskId)) > 0) return
+  await saveTranscriptRevision(env, taskId, { content, source: 'ai', diff: [] })
 }
 
-async function updateTaskProgress(env: Bindings, taskId: string): Promise<TaskRecord | null> {
-  const task = await getTask(env, taskId)
-  if (!task) return null
+async function getTranscriptRevision(env: Bindings, taskId: string, revision: number): Promise<TranscriptRevisionRecord | null> {
+  const result = await env.DB.prepare(
+    'SELECT revision, content, diff, source, author, created_at FROM transcript_revisions WHERE task_id = ? AND revision = ?'
+  ).bind(taskId, revision).first<{
+    revision: number
+    content: string
+    diff: string | null
+    source: TranscriptRevisionSource
+    author: string | null
+    created_at: string
+  }>()
 
-  const summary = await getChunkSummary(env, taskId)
-  const processedChunks = summary.completed
-  const nowIso = new Date().toISOString()
+  if (!result) return null
 
-  if (task.status === 'error') {
-    await env.DB.prepare(
-      'UPDATE tasks SET processed_chunks = ?, updated_at = ? WHERE id = ?'
-    ).bind(processedChunks, nowIso, taskId).run()
-    return {
-      ...task,
-      processedChunks,
-      updatedAt: nowIso
-    }
+  return {
+    revision: result.revision,
+    source: result.source,
+    author: result.author || undefined,
+    diff: result.diff ? JSON.parse(result.diff) : [],
+    content: result.content,
+    createdAt: result.created_at
   }
+}
 
-  let status: TaskStatus = task.status
-  if (processedChunks >= task.totalChunks && task.totalChunks > 0) {
-    status = 'transcribed'
-  } else if (processedChunks > 0 && status === 'initialized') {
-    status = 'transcribing'
-  } else if (processedChunks > 0 && status !== 'completed') {
-    status = 'transcribing'
+/**
+ * Append a minutes version. It becomes the current minutes unless a final version is marked,
+ * so regeneration never destroys an edited or approved draft.
+ */
+async function saveMinutesVersion(
+  env: Bindings,
+  taskId: string,
+  input: {
+    content: string
+    source: MinutesVersionSource
+    model?: string
+    templateId?: string
+    author?: string
   }
+): Promise<{ version: MinutesVersionRecord; isCurrent: boolean }> {
+  const latest = await env.DB.prepare(
+    'SELECT MAX(version) as version, MAX(is_final) as has_final FROM minutes_versions WHERE task_id = ?'
+  ).bind(taskId).first<{ version: number | null; has_final: number | null }>()
+  const versionNumber = (latest?.version ?? 0) + 1
+  const now = new Date().toISOString()
 
   await env.DB.prepare(
-    'UPDATE tasks SET processed_chunks = ?, status = ?, updated_at = ? WHERE id = ?'
-  ).bind(processedChunks, status, nowIso, taskId).run()
-  
+    `INSERT INTO minutes_versions (task_id, version, content, source, model, template_id, author, is_final, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?)`
+  ).bind(taskId, versionNumber, input.content, input.source, input.model ?? null, input.templateId ?? null, input.author ?? null, now).run()
+
+  const isCurrent = !latest?.has_final
+  if (isCurrent) {
+    await setCurrentMinutes(env, taskId, input.content, versionNumber, now, input.source === 'ai', input.model)
+  }
+
   return {
-    ...task,
-    processedChunks,
-    status,
-    updatedAt: nowIso
+    version: {
+      version: versionNumber,
+      source: input.source,
+      model: input.model,
+      templateId: input.templateId,
+      author: input.author,
+      isFinal: false,
+      createdAt: now
+    },
+    isCurrent
   }
 }
 
-async function getTask(env: Bindings, taskId: string): Promise<TaskRecord | null> {
+async function setCurrentMinutes(
+  env: Bindings,
+  taskId: string,
+  content: string,
+  version: number,
+  createdAt: string,
+  generated: boolean,
+  model?: string
+): Promise<void> {
+  if (generated) {
+    // INSERT keeps the usage_stats minutes trigger counting generations
+    await env.DB.prepare(
+      'INSERT OR REPLACE INTO minutes (task_id, content, created_at, version, model) VALUES (?, ?, ?, ?, ?)'
+    ).bind(taskId, content, createdAt, version, model ?? null).run()
+    return
+  }
+  const updated = await env.DB.prepare(
+    'UPDATE minutes SET content = ?, created_at = ?, version = ?, model = ? WHERE task_id = ?'
+  ).bind(content, createdAt, version, model ?? null, taskId).run()
+  if (updated.meta.changes === 0) {
+    await env.DB.prepare(
+      'INSERT INTO minutes (task_id, content, created_at, version, model) VALUES (?, ?, ?, ?, ?)'
+    ).bind(taskId, content, createdAt, version, model ?? null).run()
+  }
+}
+
+async function getMinutesVersion(env: Bindings, taskId: string, version: number): Promise<MinutesVersionRecord | null> {
   const result = await env.DB.prepare(
-    'SELECT id, filename, total_chunks, processed_chunks, duration_ms, status, error, created_at, updated_at FROM tasks WHERE id = ?'
-  ).bind(taskId).first<{
-    id: string
-    filename: string | null
-    total_chunks: number
-    processed_chunks: number
-    duration_ms: number | null
-    status: TaskStatus
-    error: string | null
+    'SELECT version, content, source, model, template_id, author, is_final, created_at FROM minutes_versions WHERE task_id = ? AND version = ?'
+  ).bind(taskId, version).first<{
+    version: number
+    content: string
+    source: MinutesVersionSource
+    model: string | null
+    template_id: string | null
+    author: string | null
+    is_final: number
     created_at: string
-    updated_at: string
   }>()
-  
+
   if (!result) return null
-  
+
   return {
-    id: result.id,
-    filename: result.filename || undefined,
-    totalChunks: result.total_chunks,
-    processedChunks: result.processed_chunks,
-    durationMs: result.duration_ms || undefined,
-    status: result.status,
-    error: result.error || undefined,
-    createdAt: result.created_at,
-    updatedAt: result.updated_at
+    version: result.version,
+    source: result.source,
+    model: result.model || undefined,
+    templateId: result.template_id || undefined,
+    author: result.author || undefined,
+    isFinal: result.is_final === 1,
+    content: result.content,
+    createdAt: result.created_at
+  }
+}
+
+type MinutesTemplateRow = {
+  id: string
+  name: string
+  description: string | null
+  meeting_type: MinutesMeetingType
+  client_id: string | null
+  instructions: string
+  is_builtin: number
+  created_at: string
+  updated_at: string
+}
+
+async function getMinutesTemplate(env: Bindings, templateId: string): Promise<MinutesTemplateRecord | null> {
+  const result = await env.DB.prepare(
+    'SELECT id, name, description, meeting_type, client_id, instructions, is_builtin, created_at, updated_at FROM minutes_templates WHERE id = ?'
+  ).bind(templateId).first<MinutesTemplateRow>()
+  return result ? toMinutesTemplateRecord(result) : null
+}
+
+function toMinutesTemplateRecord(row: MinutesTemplateRow): MinutesTemplateRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    meetingType: row.meeting_type,
+    clientId: row.client_id || undefined,
+    instructions: row.instructions,
+    isBuiltin: row.is_builtin === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+/**
+ * Validate a template payload. Fields omitted on update keep their current value.
+ */
+function parseMinutesTemplateInput(
+  payload: any,
+  current?: MinutesTemplateRecord
+): { value: Omit<MinutesTemplateRecord, 'id' | 'isBuiltin' | 'createdAt' | 'updatedAt'> } | { error: string } {
+  const name = typeof payload?.name === 'string' ? payload.name.trim() : current?.name ?? ''
+  if (!name || name.length > MINUTES_TEMPLATE_NAME_MAX_LENGTH) {
+    return { error: `nameは${MINUTES_TEMPLATE_NAME_MAX_LENGTH}文字以内で指定してください` }
+  }
+  const instructions = typeof payload?.instructions === 'string' ? payload.instructions.replace(/\r\n/g, '\n').trim() : current?.instructions ?? ''
+  if (!instructions || instructions.length > MINUTES_TEMPLATE_INSTRUCTIONS_MAX_LENGTH) {
+    return { error: `instructionsは${MINUTES_TEMPLATE_INSTRUCTIONS_MAX_LENGTH}文字以内で指定してください` }
   }
+  const meetingType = payload?.meetingType ?? current?.meetingType ?? 'general'
+  if (!MINUTES_MEETING_TYPES.includes(meetingType)) {
+    return { error: `meetingTypeは ${MINUTES_MEETING_TYPES.join(' / ')} のいずれかを指定してください` }
+  }
+  const description = payload?.description === null
+    ? undefined
+    : typeof payload?.description === 'string' ? payload.description.trim() || undefined : current?.description
+  const clientId = payload?.clientId === null
+    ? undefined
+    : typeof payload?.clientId === 'string' ? payload.clientId.trim() || undefined : current?.clientId
+
+  return { value: { name, description, meetingType, clientId, instructions } }
 }
 
-async function getChunk(env: Bindings, taskId: string, index: number): Promise<ChunkRecord | null> {
-  const result = await env.DB.prepare(
-    'SELECT chunk_index, start_ms, end_ms, text, raw_response, created_at FROM chunks WHERE task_id = ? AND chunk_index = ?'
-  ).bind(taskId, index).first<{
-    chunk_index: number
-    start_ms: number
-    end_ms: number
-    text: string
-    raw_response: string | null
+async function getTaskSpeakers(env: Bindings, taskId: string): Promise<SpeakerRecord[]> {
+  const results = await env.DB.prepare(
+    'SELECT label, display_name, first_seen_ms, utterance_count, created_at, updated_at FROM speakers WHERE task_id = ? ORDER BY first_seen_ms, label'
+  ).bind(taskId).all<{
+    label: string
+    display_name: string | null
+    first_seen_ms: number | null
+    utterance_count: number
     created_at: string
+    updated_at: string
   }>()
-  
-  if (!result) return null
-  
-  return {
-    index: result.chunk_index,
-    startMs: result.start_ms,
-    endMs: result.end_ms,
-    text: result.text,
-    rawResponse: result.raw_response ? JSON.parse(result.raw_response) : undefined,
-    createdAt: result.created_at
+
+  if (!results.results) return []
+
+  return results.results.map(row => ({
+    label: row.label,
+    displayName: row.display_name || undefined,
+    firstSeenMs: row.first_seen_ms ?? undefined,
+    utteranceCount: row.utterance_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }))
+}
+
+async function syncTaskSpeakers(env: Bindings, taskId: string, stats: SpeakerStat[]): Promise<SpeakerRecord[]> {
+  const now = new Date().toISOString()
+  // display_name is preserved so that renames survive a re-merge
+  for (const stat of stats) {
+    await env.DB.prepare(
+      `INSERT INTO speakers (task_id, label, display_name, first_seen_ms, utterance_count, created_at, updated_at)
+       VALUES (?, ?, NULL, ?, ?, ?, ?)
+       ON CONFLICT(task_id, label) DO UPDATE SET
+         first_seen_ms = excluded.first_seen_ms,
+         utterance_count = excluded.utterance_count,
+         updated_at = excluded.updated_at`
+    ).bind(taskId, stat.label, stat.firstSeenMs, stat.utteranceCount, now, now).run()
   }
+  return getTaskSpeakers(env, taskId)
 }
 
 async function setTaskError(env: Bindings, taskId: string, message: string) {
@@ -2139,6 +6502,89 @@ async function appendTaskLog(env: Bindings, taskId: string, entry: TaskLogInput)
   }
 }
 
+/**
+ * Token accounting for one Gemini response (error responses too, with zero tokens). Like appendTaskLog,
+ * a failure here is only logged so it never fails the API call being recorded.
+ */
+async function recordApiCall(
+  env: Bindings,
+  taskId: string,
+  call: {
+    kind: ApiCallKind
+    model: string
+    chunkIndex?: number
+    status: number
+    latencyMs: number
+    usage?: GeminiUsageMetadata
+  }
+): Promise<void> {
+  try {
+    const usage = call.usage ?? {}
+    const promptTokens = usage.promptTokenCount ?? 0
+    const audioTokens = (usage.promptTokensDetails ?? [])
+      .filter(detail => detail.modality === 'AUDIO')
+      .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0)
+    const candidateTokens = usage.candidatesTokenCount ?? 0
+    const thoughtsTokens = usage.thoughtsTokenCount ?? 0
+    const totalTokens = usage.totalTokenCount ?? promptTokens + candidateTokens + thoughtsTokens
+    const price = (await getModelPrices(env))[call.model]
+    const costUsd = price
+      ? ((promptTokens - audioTokens) * price.input +
+        audioTokens * (price.audioInput ?? price.input) +
+        (candidateTokens + thoughtsTokens) * price.output) / 1_000_000
+      : null
+
+    await env.DB.prepare(
+      `INSERT INTO api_calls (task_id, client_id, chunk_index, kind, model, status, prompt_tokens, audio_tokens, candidate_tokens, thoughts_tokens, total_tokens, cost_usd, latency_ms, created_at)
+       VALUES (?, (SELECT client_id FROM tasks WHERE id = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      taskId, taskId, call.chunkIndex ?? null, call.kind, call.model, call.status,
+      promptTokens, audioTokens, candidateTokens, thoughtsTokens, totalTokens, costUsd,
+      Math.round(call.latencyMs), new Date().toISOString()
+    ).run()
+  } catch (error) {
+    console.error('recordApiCall failed', error)
+  }
+}
+
+function buildApiCallFilter(filters: { from?: string; to?: string; clientId?: string; ownerId?: string }) {
+  const conditions: string[] = []
+  const bindings: string[] = []
+  if (filters.from) {
+    conditions.push('DATE(created_at) >= DATE(?)')
+    bindings.push(filters.from)
+  }
+  if (filters.to) {
+    conditions.push('DATE(created_at) <= DATE(?)')
+    bindings.push(filters.to)
+  }
+  if (filters.clientId) {
+    conditions.push('client_id = ?')
+    bindings.push(filters.clientId)
+  }
+  if (filters.ownerId) {
+    conditions.push('task_id IN (SELECT id FROM tasks WHERE owner_id = ?)')
+    bindings.push(filters.ownerId)
+  }
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', bindings }
+}
+
+function toApiCallTotals(row: Record<string, unknown> | null | undefined): ApiCallTotals {
+  const count = (key: string) => Number(row?.[key] ?? 0)
+  return {
+    calls: count('calls'),
+    errors: count('errors'),
+    promptTokens: count('prompt_tokens'),
+    audioTokens: count('audio_tokens'),
+    candidateTokens: count('candidate_tokens'),
+    thoughtsTokens: count('thoughts_tokens'),
+    totalTokens: count('total_tokens'),
+    costUsd: Math.round(count('cost_usd') * 1_000_000) / 1_000_000,
+    unpricedCalls: count('unpriced_calls'),
+    averageLatencyMs: Math.round(count('avg_latency_ms'))
+  }
+}
+
 async function getTaskLogs(env: Bindings, taskId: string, limit = 40): Promise<TaskLogEntry[]> {
   const results = await env.DB.prepare(
     'SELECT timestamp, level, message, context FROM task_logs WHERE task_id = ? ORDER BY timestamp DESC LIMIT ?'
@@ -2173,64 +6619,833 @@ function sanitizeLogContext(context?: Record<string, unknown>): Record<string, u
       sanitized[key] = truncateString(JSON.stringify(value), 180)
     }
   }
-  return Object.keys(sanitized).length > 0 ? sanitized : undefined
-}
+  return Object.keys(sanitized).length > 0 ? sanitized : undefined
+}
+
+function truncateString(value: string, max = 300): string {
+  if (!value) return ''
+  return value.length > max ? `${value.slice(0, max)}…` : value
+}
+
+function isRetryableStatus(status: number): boolean {
+  return GEMINI_RETRYABLE_STATUS_CODES.has(status)
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+function getBackoffDelay(attempt: number): number {
+  const jitter = Math.floor(Math.random() * 400)
+  return GEMINI_BACKOFF_BASE_MS * 2 ** (attempt - 1) + jitter
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function parseGeminiErrorResponse(response: Response): Promise<{
+  message: string
+  status?: string
+  code?: number
+}> {
+  const text = await readResponseTextSafe(response)
+  try {
+    const parsed = JSON.parse(text) as {
+      error?: {
+        message?: string
+        status?: string
+        code?: number
+      }
+    }
+    if (parsed?.error) {
+      return {
+        message: parsed.error.message ?? text,
+        status: parsed.error.status,
+        code: parsed.error.code
+      }
+    }
+    return { message: text }
+  } catch {
+    return { message: text }
+  }
+}
+
+async function readResponseTextSafe(response: Response): Promise<string> {
+  try {
+    return await response.text()
+  } catch (error) {
+    console.warn('Failed to read response text', error)
+    return ''
+  }
+}
+
+type UploadRow = {
+  id: string
+  task_id: string
+  r2_key: string
+  r2_upload_id: string
+  filename: string | null
+  content_type: string
+  total_size: number | null
+  part_size: number
+  status: UploadStatus
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+function toUploadRecord(row: UploadRow): UploadRecord {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    r2Key: row.r2_key,
+    filename: row.filename || undefined,
+    contentType: row.content_type,
+    totalSize: row.total_size ?? undefined,
+    partSize: row.part_size,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at || undefined
+  }
+}
+
+async function getUploadRow(env: Bindings, taskId: string, uploadId: string): Promise<UploadRow | null> {
+  return env.DB.prepare(
+    'SELECT * FROM uploads WHERE id = ? AND task_id = ?'
+  ).bind(uploadId, taskId).first<UploadRow>()
+}
+
+/**
+ * Parts received so far, plus the parts still missing when the total size is known, so a client that
+ * reconnects can send only what the server does not have.
+ */
+async function getUploadProgress(env: Bindings, upload: UploadRecord): Promise<UploadProgress> {
+  const result = await env.DB.prepare(
+    'SELECT part_number, size_bytes FROM upload_parts WHERE upload_id = ? ORDER BY part_number'
+  ).bind(upload.id).all<{ part_number: number; size_bytes: number }>()
+  const parts = (result.results ?? []).map(row => ({ partNumber: row.part_number, sizeBytes: row.size_bytes }))
+  const progress: UploadProgress = {
+    ...upload,
+    parts,
+    uploadedBytes: parts.reduce((sum, part) => sum + part.sizeBytes, 0)
+  }
+  if (upload.totalSize !== undefined) {
+    const received = new Set(parts.map(part => part.partNumber))
+    progress.expectedParts = Math.ceil(upload.totalSize / upload.partSize)
+    progress.missingParts = []
+    for (let partNumber = 1; partNumber <= progress.expectedParts; partNumber++) {
+      if (!received.has(partNumber)) progress.missingParts.push(partNumber)
+    }
+  }
+  return progress
+}
+
+/**
+ * Store a request body of unknown length in R2 without buffering it whole: parts of SOURCE_UPLOAD_PART_SIZE
+ * are uploaded as they fill, and the upload is aborted if the stream fails.
+ */
+async function putStreamAsMultipart(env: Bindings, key: string, stream: ReadableStream<Uint8Array>, options: R2MultipartOptions): Promise<void> {
+  const upload = await env.AUDIO_CHUNKS.createMultipartUpload(key, options)
+  const parts: R2UploadedPart[] = []
+  const buffer = new Uint8Array(SOURCE_UPLOAD_PART_SIZE)
+  let filled = 0
+  const flush = async () => {
+    parts.push(await upload.uploadPart(parts.length + 1, buffer.slice(0, filled)))
+    filled = 0
+  }
+
+  try {
+    const reader = stream.getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      let position = 0
+      while (position < value.length) {
+        const take = Math.min(value.length - position, SOURCE_UPLOAD_PART_SIZE - filled)
+        buffer.set(value.subarray(position, position + take), filled)
+        filled += take
+        position += take
+        if (filled === SOURCE_UPLOAD_PART_SIZE) await flush()
+      }
+    }
+    if (filled > 0 || parts.length === 0) await flush()
+    await upload.complete(parts)
+  } catch (error) {
+    await upload.abort().catch(() => undefined)
+    throw error
+  }
+}
+
+type AudioByteReader = {
+  size: number
+  read(offset: number, length: number): Promise<Uint8Array>
+}
+
+/**
+ * Sequential reader over an R2 object. Reads are served from a window fetched with a range request,
+ * so scanning a long recording never holds more than AUDIO_READ_WINDOW_BYTES in memory.
+ * Returned views are only valid until the next read; copy with slice() to keep them.
+ */
+function createR2RangeReader(env: Bindings, object: R2Object): AudioByteReader {
+  let windowStart = 0
+  let windowBytes = new Uint8Array(0)
+  return {
+    size: object.size,
+    async read(offset: number, length: number): Promise<Uint8Array> {
+      const end = Math.min(object.size, offset + length)
+      if (offset >= end) return new Uint8Array(0)
+      if (offset >= windowStart && end <= windowStart + windowBytes.length) {
+        return windowBytes.subarray(offset - windowStart, end - windowStart)
+      }
+      const fetched = await env.AUDIO_CHUNKS.get(object.key, {
+        range: { offset, length: Math.min(object.size - offset, Math.max(length, AUDIO_READ_WINDOW_BYTES)) }
+      })
+      if (!fetched) {
+        throw new Error(`R2 object not found: ${object.key}`)
+      }
+      windowBytes = new Uint8Array(await fetched.arrayBuffer())
+      windowStart = offset
+      return windowBytes.subarray(0, end - offset)
+    }
+  }
+}
+
+/**
+ * Detect the container and index the places where a chunk can start or end. Returns null for formats
+ * the server cannot cut (e.g. MP4/M4A), in which case callers fall back to byte slicing or reject the upload.
+ */
+async function analyzeAudioContainer(reader: AudioByteReader): Promise<AudioContainerLayout | null> {
+  switch (detectAudioContainerFormat((await reader.read(0, 12)).slice())) {
+    case 'wav': return analyzeWav(reader)
+    case 'ogg': return analyzeOgg(reader)
+    case 'webm': return analyzeWebm(reader)
+    case 'mp3': return analyzeMp3(reader)
+    default: return null
+  }
+}
+
+function detectAudioContainerFormat(magic: Uint8Array): AudioContainerFormat | null {
+  if (magic.length < 12) return null
+  const ascii = (start: number, end: number) => String.fromCharCode(...magic.subarray(start, end))
+
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WAVE') return 'wav'
+  if (ascii(0, 4) === 'OggS') return 'ogg'
+  if (magic[0] === 0x1a && magic[1] === 0x45 && magic[2] === 0xdf && magic[3] === 0xa3) return 'webm'
+  if (ascii(0, 3) === 'ID3' || (magic[0] === 0xff && (magic[1] & 0xe0) === 0xe0)) return 'mp3'
+  return null
+}
+
+async function analyzeWav(reader: AudioByteReader): Promise<AudioContainerLayout | null> {
+  let fmt: Uint8Array | null = null
+  let offset = 12
+  while (offset + 8 <= reader.size) {
+    const head = await reader.read(offset, 8)
+    const id = String.fromCharCode(...head.subarray(0, 4))
+    const size = new DataView(head.buffer, head.byteOffset, 8).getUint32(4, true)
+
+    if (id === 'fmt ') {
+      fmt = (await reader.read(offset + 8, size)).slice()
+    } else if (id === 'data') {
+      if (!fmt || fmt.length < 16) return null
+      const fmtView = new DataView(fmt.buffer)
+      const byteRate = fmtView.getUint32(8, true)
+      const blockAlign = fmtView.getUint16(12, true)
+      if (byteRate === 0 || blockAlign === 0) return null
+
+      // Streaming writers leave the data size at 0 or 0xFFFFFFFF
+      const dataStart = offset + 8
+      const declaredEnd = size === 0 || size === 0xffffffff ? reader.size : Math.min(reader.size, dataStart + size)
+      const dataEnd = dataStart + Math.floor((declaredEnd - dataStart) / blockAlign) * blockAlign
+      const step = Math.max(blockAlign, Math.floor((byteRate * AUDIO_CUE_INTERVAL_MS) / 1000 / blockAlign) * blockAlign)
+      const toMs = (position: number) => ((position - dataStart) / byteRate) * 1000
+
+      const cues: AudioCuePoint[] = []
+      for (let position = dataStart; position < dataEnd; position += step) {
+        cues.push({ offset: position, timeMs: toMs(position) })
+      }
+      cues.push({ offset: dataEnd, timeMs: toMs(dataEnd) })
+      const wavFmt = fmt
+      const audioFormat = fmtView.getUint16(0, true)
+      const bitsPerSample = fmtView.getUint16(14, true)
+      return {
+        format: 'wav',
+        mimeType: 'audio/wav',
+        extension: 'wav',
+        durationMs: toMs(dataEnd),
+        dataStart,
+        dataEnd,
+        cues,
+        header: (length) => buildWavHeader(wavFmt, length),
+        // 1 = PCM, 0xFFFE = WAVE_FORMAT_EXTENSIBLE (PCM in practice for recorders)
+        pcmBitsPerSample: audioFormat === 1 || audioFormat === 0xfffe ? bitsPerSample : undefined
+      }
+    }
+    offset += 8 + size + (size % 2)
+  }
+  return null
+}
+
+function buildWavHeader(fmt: Uint8Array, dataLength: number): Uint8Array {
+  const header = new Uint8Array(28 + fmt.length)
+  const view = new DataView(header.buffer)
+  const writeAscii = (position: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header[position + i] = text.charCodeAt(i)
+  }
+  writeAscii(0, 'RIFF')
+  view.setUint32(4, 20 + fmt.length + dataLength, true)
+  writeAscii(8, 'WAVE')
+  writeAscii(12, 'fmt ')
+  view.setUint32(16, fmt.length, true)
+  header.set(fmt, 20)
+  writeAscii(20 + fmt.length, 'data')
+  view.setUint32(24 + fmt.length, dataLength, true)
+  return header
+}
+
+const MP3_BITRATES_KBPS: Record<string, number[]> = {
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+}
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000] // MPEG-2.5
+}
+
+function parseMp3FrameHeader(bytes: Uint8Array): { length: number; samples: number; sampleRate: number } | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || (bytes[1] & 0xe0) !== 0xe0) return null
+  const version = (bytes[1] >> 3) & 0x03
+  const layer = 4 - ((bytes[1] >> 1) & 0x03) // 1, 2 or 3; 4 is reserved
+  const bitrateIndex = bytes[2] >> 4
+  const sampleRateIndex = (bytes[2] >> 2) & 0x03
+  const padding = (bytes[2] >> 1) & 0x01
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null
+
+  const bitrate = MP3_BITRATES_KBPS[`${version === 3 ? 1 : 2}-${layer}`][bitrateIndex] * 1000
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex]
+  if (layer === 1) {
+    return { length: (Math.floor((12 * bitrate) / sampleRate) + padding) * 4, samples: 384, sampleRate }
+  }
+  const samples = layer === 3 && version !== 3 ? 576 : 1152
+  return { length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding, samples, sampleRate }
+}
+
+async function analyzeMp3(reader: AudioByteReader): Promise<AudioContainerLayout | null> {
+  let offset = 0
+  const id3 = (await reader.read(0, 10)).slice()
+  if (String.fromCharCode(...id3.subarray(0, 3)) === 'ID3') {
+    const tagSize = ((id3[6] & 0x7f) << 21) | ((id3[7] & 0x7f) << 14) | ((id3[8] & 0x7f) << 7) | (id3[9] & 0x7f)
+    offset = 10 + tagSize + (id3[5] & 0x10 ? 10 : 0)
+  }
+
+  const cues: AudioCuePoint[] = []
+  let dataStart = -1
+  let timeMs = 0
+  let lastCueMs = -Infinity
+  let resyncedBytes = 0
+  while (offset + 4 <= reader.size) {
+    const frame = parseMp3FrameHeader(await reader.read(offset, 4))
+    // After garbage, only trust a sync word that is followed by another frame
+    const confirmed = frame && (resyncedBytes === 0 || parseMp3FrameHeader(await reader.read(offset + frame.length, 4)) !== null)
+    if (!frame || !confirmed || frame.length <= 4) {
+      offset += 1
+      resyncedBytes += 1
+      if (resyncedBytes > AUDIO_MAX_RESYNC_BYTES) break
+      continue
+    }
+    resyncedBytes = 0
+    if (dataStart < 0) dataStart = offset
+    if (timeMs - lastCueMs >= AUDIO_CUE_INTERVAL_MS) {
+      cues.push({ offset, timeMs })
+      lastCueMs = timeMs
+    }
+    timeMs += (frame.samples / frame.sampleRate) * 1000
+    offset = Math.min(reader.size, offset + frame.length)
+  }
+  if (dataStart < 0 || cues.length === 0) return null
+
+  const dataEnd = offset
+  cues.push({ offset: dataEnd, timeMs })
+  return {
+    format: 'mp3',
+    mimeType: 'audio/mpeg',
+    extension: 'mp3',
+    durationMs: timeMs,
+    dataStart,
+    dataEnd,
+    cues,
+    header: () => new Uint8Array(0)
+  }
+}
+
+/**
+ * Ogg Opus/Vorbis: header pages (granule 0) are prepended to every chunk, and chunks start on pages that
+ * do not continue a packet. Time comes from the granule position of the preceding page.
+ */
+async function analyzeOgg(reader: AudioByteReader): Promise<AudioContainerLayout | null> {
+  let offset = 0
+  let sampleRate = 0
+  let preSkip = 0
+  let headerEnd = -1
+  let lastGranule = 0
+  let lastCueMs = -Infinity
+  const cues: AudioCuePoint[] = []
+  const toMs = (granule: number) => Math.max(0, ((granule - preSkip) / sampleRate) * 1000)
+
+  while (offset + 27 <= reader.size) {
+    const head = (await reader.read(offset, 27)).slice()
+    if (String.fromCharCode(...head.subarray(0, 4)) !== 'OggS') break
+    const view = new DataView(head.buffer)
+    const headerType = head[5]
+    const granule = Number(view.getBigInt64(6, true))
+    const segmentCount = head[26]
+    const segments = await reader.read(offset + 27, segmentCount)
+    if (segments.length < segmentCount) break
+    const bodyLength = segments.reduce((sum, value) => sum + value, 0)
+    const pageLength = 27 + segmentCount + bodyLength
+    if (offset + pageLength > reader.size) break
+
+    if (offset === 0) {
+      const body = (await reader.read(offset + 27 + segmentCount, Math.min(bodyLength, 19))).slice()
+      const codec = String.fromCharCode(...body.subarray(0, 8))
+      if (codec === 'OpusHead') {
+        sampleRate = 48000 // Opus granule positions always count 48 kHz samples
+        preSkip = new DataView(body.buffer).getUint16(10, true)
+      } else if (body[0] === 0x01 && String.fromCharCode(...body.subarray(1, 7)) === 'vorbis') {
+        sampleRate = new DataView(body.buffer).getUint32(12, true)
+      } else {
+        return null
+      }
+      if (sampleRate === 0) return null
+    }
+
+    if (headerEnd < 0 && granule !== 0) {
+      headerEnd = offset
+    }
+    if (headerEnd >= 0) {
+      const startMs = toMs(lastGranule)
+      if (!(headerType & 0x01) && startMs - lastCueMs >= AUDIO_CUE_INTERVAL_MS) {
+        cues.push({ offset, timeMs: startMs })
+        lastCueMs = startMs
+      }
+      if (granule >= 0) lastGranule = granule
+    }
+    offset += pageLength
+  }
+  if (headerEnd < 0 || cues.length === 0) return null
+
+  const header = (await reader.read(0, headerEnd)).slice()
+  const durationMs = toMs(lastGranule)
+  cues.push({ offset, timeMs: durationMs })
+  return {
+    format: 'ogg',
+    mimeType: 'audio/ogg',
+    extension: 'ogg',
+    durationMs,
+    dataStart: headerEnd,
+    dataEnd: offset,
+    cues,
+    header: () => header
+  }
+}
+
+const EBML_ID_SEGMENT = 0x18538067
+const EBML_ID_INFO = 0x1549a966
+const EBML_ID_TRACKS = 0x1654ae6b
+const EBML_ID_CLUSTER = 0x1f43b675
+const EBML_ID_TIMECODE_SCALE = 0x2ad7b1
+const EBML_ID_CLUSTER_TIMECODE = 0xe7
+const EBML_ID_SIMPLE_BLOCK = 0xa3
+const EBML_ID_BLOCK_GROUP = 0xa0
+const EBML_ID_BLOCK = 0xa1
+// Segment children: an unknown-size cluster ends where one of these starts
+const EBML_SEGMENT_CHILD_IDS = new Set([0x114d9b74, EBML_ID_INFO, EBML_ID_TRACKS, EBML_ID_CLUSTER, 0x1c53bb6b, 0x1941a469, 0x1043a770, 0x1254c367])
+const EBML_UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff])
+
+function readEbmlElementHeader(bytes: Uint8Array): { id: number; size: number | null; headerLength: number } | null {
+  if (bytes.length < 2) return null
+  const idLength = Math.clz32(bytes[0]) - 23
+  if (idLength < 1 || idLength > 4 || bytes.length < idLength + 1) return null
+  let id = 0
+  for (let i = 0; i < idLength; i++) id = id * 256 + bytes[i]
+
+  const sizeLength = Math.clz32(bytes[idLength]) - 23
+  if (sizeLength < 1 || sizeLength > 8 || bytes.length < idLength + sizeLength) return null
+  let size = bytes[idLength] & (0xff >> sizeLength)
+  let unknown = size === (0xff >> sizeLength)
+  for (let i = 1; i < sizeLength; i++) {
+    size = size * 256 + bytes[idLength + i]
+    unknown = unknown && bytes[idLength + i] === 0xff
+  }
+  return { id, size: unknown ? null : size, headerLength: idLength + sizeLength }
+}
+
+function readEbmlUnsigned(bytes: Uint8Array): number {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0)
+}
+
+/**
+ * WebM/Matroska: every chunk gets the EBML header, an unknown-size Segment, Info and Tracks.
+ * Chunks may start inside a cluster; a synthetic cluster header with the original cluster timecode is
+ * inserted so the relative block timecodes stay valid.
+ */
+async function analyzeWebm(reader: AudioByteReader): Promise<AudioContainerLayout | null> {
+  const ebml = readEbmlElementHeader(await reader.read(0, 12))
+  if (!ebml || ebml.size === null) return null
+  const ebmlHeader = (await reader.read(0, ebml.headerLength + ebml.size)).slice()
+
+  const segment = readEbmlElementHeader(await reader.read(ebmlHeader.length, 12))
+  if (!segment || segment.id !== EBML_ID_SEGMENT) return null
+  const segmentStart = ebmlHeader.length + segment.headerLength
+  const segmentEnd = segment.size === null ? reader.size : Math.min(reader.size, segmentStart + segment.size)
+
+  let info: Uint8Array | null = null
+  let tracks: Uint8Array | null = null
+  let timecodeScale = 1_000_000
+  let dataStart = -1
+  let lastCueMs = -Infinity
+  let lastBlockMs = 0
+  const cues: AudioCuePoint[] = []
+
+  const readBlockTimecode = async (position: number): Promise<number | null> => {
+    const bytes = await reader.read(position, 8)
+    const trackNumberLength = Math.clz32(bytes[0]) - 23
+    if (trackNumberLength < 1 || trackNumberLength > 4 || bytes.length < trackNumberLength + 2) return null
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.length).getInt16(trackNumberLength, false)
+  }
+
+  let offset = segmentStart
+  while (offset < segmentEnd) {
+    const element = readEbmlElementHeader(await reader.read(offset, 12))
+    if (!element) break
+    const bodyStart = offset + element.headerLength
+
+    if (element.id === EBML_ID_INFO && element.size !== null) {
+      info = (await reader.read(offset, element.headerLength + element.size)).slice()
+      let position = element.headerLength
+      while (position < info.length) {
+        const child = readEbmlElementHeader(info.subarray(position, position + 12))
+        if (!child || child.size === null) break
+        if (child.id === EBML_ID_TIMECODE_SCALE) {
+          timecodeScale = readEbmlUnsigned(info.subarray(position + child.headerLength, position + child.headerLength + child.size))
+        }
+        position += child.headerLength + child.size
+      }
+    } else if (element.id === EBML_ID_TRACKS && element.size !== null) {
+      tracks = (await reader.read(offset, element.headerLength + element.size)).slice()
+    } else if (element.id === EBML_ID_CLUSTER) {
+      if (dataStart < 0) dataStart = offset
+      const clusterEnd = element.size === null ? segmentEnd : Math.min(segmentEnd, bodyStart + element.size)
+      let clusterTimecode = 0
+      let firstBlock = true
+      let position = bodyStart
+      while (position < clusterEnd) {
+        const child = readEbmlElementHeader(await reader.read(position, 12))
+        if (!child || EBML_SEGMENT_CHILD_IDS.has(child.id)) break
+        const childBody = position + child.headerLength
+        if (child.id === EBML_ID_CLUSTER_TIMECODE && child.size !== null) {
+          clusterTimecode = readEbmlUnsigned(await reader.read(childBody, child.size))
+        } else if (child.id === EBML_ID_SIMPLE_BLOCK || child.id === EBML_ID_BLOCK_GROUP) {
+          let relative: number | null = null
+          if (child.id === EBML_ID_SIMPLE_BLOCK) {
+            relative = await readBlockTimecode(childBody)
+          } else {
+            const block = readEbmlElementHeader(await reader.read(childBody, 12))
+            if (block?.id === EBML_ID_BLOCK) relative = await readBlockTimecode(childBody + block.headerLength)
+          }
+          if (relative !== null) {
+            const timeMs = ((clusterTimecode + relative) * timecodeScale) / 1_000_000
+            if (timeMs - lastCueMs >= AUDIO_CUE_INTERVAL_MS) {
+              cues.push(firstBlock
+                ? { offset, timeMs }
+                : { offset: position, timeMs, prefix: buildWebmClusterHeader(clusterTimecode) })
+              lastCueMs = timeMs
+            }
+            lastBlockMs = Math.max(lastBlockMs, timeMs)
+            firstBlock = false
+          }
+        }
+        if (child.size === null) break
+        position = childBody + child.size
+      }
+      offset = Math.max(position, bodyStart)
+      continue
+    }
+
+    if (element.size === null) break
+    offset = bodyStart + element.size
+  }
+  if (!info || !tracks || dataStart < 0 || cues.length === 0) return null
+
+  const dataEnd = Math.min(offset, segmentEnd)
+  const header = concatBytes([ebmlHeader, new Uint8Array([0x18, 0x53, 0x80, 0x67]), EBML_UNKNOWN_SIZE, info, tracks])
+  cues.push({ offset: dataEnd, timeMs: lastBlockMs + WEBM_LAST_BLOCK_DURATION_MS })
+  return {
+    format: 'webm',
+    mimeType: 'audio/webm',
+    extension: 'webm',
+    durationMs: lastBlockMs + WEBM_LAST_BLOCK_DURATION_MS,
+    dataStart,
+    dataEnd,
+    cues,
+    header: () => header
+  }
+}
+
+function buildWebmClusterHeader(timecode: number): Uint8Array {
+  const bytes = new Uint8Array(4 + EBML_UNKNOWN_SIZE.length + 10)
+  bytes.set([0x1f, 0x43, 0xb6, 0x75], 0)
+  bytes.set(EBML_UNKNOWN_SIZE, 4)
+  bytes[12] = EBML_ID_CLUSTER_TIMECODE
+  bytes[13] = 0x88 // 8-byte unsigned
+  new DataView(bytes.buffer).setBigUint64(14, BigInt(timecode), false)
+  return bytes
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+function createMemoryReader(bytes: Uint8Array): AudioByteReader {
+  return {
+    size: bytes.length,
+    async read(offset: number, length: number): Promise<Uint8Array> {
+      return bytes.subarray(offset, Math.min(bytes.length, offset + length))
+    }
+  }
+}
+
+/**
+ * Check a chunk before it is sent to Gemini: the container must parse, its audio must roughly cover
+ * startMs–endMs, and silence is detected so that breaks in a meeting do not produce hallucinated text.
+ * Silence is measured as RMS on PCM WAV; compressed Opus/Vorbis audio cannot be decoded here, so its
+ * bitrate between cues is used instead (encoders drop to a few bytes per frame on silence). Both are measured
+ * per AUDIO_SILENCE_WINDOW_MS window and a chunk is silent only if every window is. MP3 is only validated.
+ * Chunks in other formats (browser byte slices) are passed through unchecked.
+ */
+async function preflightAudioChunk(
+  bytes: Uint8Array,
+  expected: { startMs: number; endMs: number; sizeBytes: number }
+): Promise<AudioPreflightResult> {
+  if (bytes.length === 0) {
+    return { status: 'corrupt', reason: 'Chunk audio is empty' }
+  }
+  if (expected.sizeBytes > 0 && bytes.length < expected.sizeBytes) {
+    return { status: 'corrupt', reason: `Chunk audio is truncated (${bytes.length} of ${expected.sizeBytes} bytes)` }
+  }
+
+  const format = detectAudioContainerFormat(bytes.subarray(0, 12))
+  if (!format) {
+    return { status: 'unchecked' }
+  }
+  const layout = await analyzeAudioContainer(createMemoryReader(bytes))
+  if (!layout) {
+    return { status: 'corrupt', format, reason: `Chunk audio is not a valid ${format.toUpperCase()} stream` }
+  }
+
+  // WebM and Ogg chunks keep the timestamps of the source; an Ogg chunk's first page has no known start,
+  // so its duration is measured from the second cue (underestimates by at most one page)
+  const firstCue = layout.format === 'ogg' && layout.cues.length > 2 ? layout.cues[1] : layout.cues[0]
+  const measuredDurationMs = Math.max(0, Math.round(layout.durationMs - firstCue.timeMs))
+  const expectedDurationMs = expected.endMs - expected.startMs
+  if (expectedDurationMs >= AUDIO_PREFLIGHT_MIN_DURATION_MS && measuredDurationMs < expectedDurationMs * AUDIO_PREFLIGHT_MIN_DURATION_RATIO) {
+    return {
+      status: 'corrupt',
+      format,
+      measuredDurationMs,
+      reason: `Chunk audio lasts ${measuredDurationMs}ms but ${expectedDurationMs}ms was expected`
+    }
+  }
 
-function truncateString(value: string, max = 300): string {
-  if (!value) return ''
-  return value.length > max ? `${value.slice(0, max)}…` : value
+  if (layout.pcmBitsPerSample === 16 && layout.durationMs > 0) {
+    const samples = new Int16Array(bytes.slice(layout.dataStart, layout.dataEnd).buffer)
+    const windowSamples = Math.max(1, Math.round((samples.length / layout.durationMs) * AUDIO_SILENCE_WINDOW_MS))
+    let peakRms = 0
+    for (let start = 0; start < samples.length; start += windowSamples) {
+      const window = samples.subarray(start, start + windowSamples)
+      let sumOfSquares = 0
+      for (const sample of window) sumOfSquares += sample * sample
+      peakRms = Math.max(peakRms, Math.sqrt(sumOfSquares / window.length) / 32768)
+    }
+    const rmsDbfs = peakRms > 0 ? Math.round(20 * Math.log10(peakRms) * 10) / 10 : -Infinity
+    return { status: rmsDbfs <= AUDIO_SILENCE_MAX_RMS_DBFS ? 'silent' : 'ok', format, measuredDurationMs, rmsDbfs }
+  }
+  if ((layout.format === 'webm' || layout.format === 'ogg') && measuredDurationMs > 0) {
+    const averageBitrate = Math.round(((layout.dataEnd - layout.dataStart) * 8) / (measuredDurationMs / 1000))
+    const peakBitrate = measurePeakCueBitrate(layout.cues.slice(layout.cues.indexOf(firstCue)))
+    return {
+      status: peakBitrate <= AUDIO_SILENCE_MAX_OPUS_BITRATE ? 'silent' : 'ok',
+      format,
+      measuredDurationMs,
+      averageBitrate,
+      peakBitrate
+    }
+  }
+  return { status: 'ok', format, measuredDurationMs }
 }
 
-function isRetryableStatus(status: number): boolean {
-  return GEMINI_RETRYABLE_STATUS_CODES.has(status)
+/**
+ * Highest bitrate over consecutive cue intervals merged into windows of at least AUDIO_SILENCE_WINDOW_MS
+ * (a shorter remainder at the end is added to the last window).
+ */
+function measurePeakCueBitrate(cues: AudioCuePoint[]): number {
+  const windows: Array<{ bytes: number; durationMs: number }> = []
+  let windowStart = cues[0]
+  for (let i = 1; i < cues.length; i++) {
+    const durationMs = cues[i].timeMs - windowStart.timeMs
+    if (durationMs >= AUDIO_SILENCE_WINDOW_MS || i === cues.length - 1) {
+      const window = { bytes: cues[i].offset - windowStart.offset, durationMs }
+      const last = windows[windows.length - 1]
+      if (last && durationMs < AUDIO_SILENCE_WINDOW_MS) {
+        last.bytes += window.bytes
+        last.durationMs += window.durationMs
+      } else {
+        windows.push(window)
+      }
+      windowStart = cues[i]
+    }
+  }
+  return windows.reduce((peak, window) => (
+    window.durationMs > 0 ? Math.max(peak, Math.round((window.bytes * 8) / (window.durationMs / 1000))) : peak
+  ), 0)
 }
 
-function isAbortError(error: unknown): boolean {
-  return error instanceof Error && error.name === 'AbortError'
+/**
+ * Time-based chunks snapped to cue points. Each chunk overlaps the previous one by overlapMs, and a short
+ * tail (under AUDIO_MIN_TAIL_MS) is folded into the last chunk instead of becoming its own chunk.
+ */
+function planContainerChunks(layout: AudioContainerLayout, options: { chunkDurationMs: number; overlapMs: number }): AudioChunkPlan[] {
+  const { cues } = layout
+  const lastCue = cues[cues.length - 1]
+  const cueAtOrBefore = (timeMs: number) => {
+    let low = 0
+    let high = cues.length - 1
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (cues[mid].timeMs <= timeMs) low = mid
+      else high = mid - 1
+    }
+    return cues[low]
+  }
+  const cueAtOrAfter = (timeMs: number) => cues.find(cue => cue.timeMs >= timeMs) ?? lastCue
+
+  const plans: AudioChunkPlan[] = []
+  for (let uniqueStartMs = 0; uniqueStartMs < layout.durationMs; uniqueStartMs += options.chunkDurationMs) {
+    const startCue = plans.length === 0 ? cues[0] : cueAtOrBefore(Math.max(0, uniqueStartMs - options.overlapMs))
+    const uniqueEndMs = uniqueStartMs + options.chunkDurationMs
+    const endCue = layout.durationMs - uniqueEndMs < AUDIO_MIN_TAIL_MS ? lastCue : cueAtOrAfter(uniqueEndMs)
+    if (endCue.offset <= startCue.offset) continue
+
+    const length = endCue.offset - startCue.offset
+    plans.push({
+      startMs: Math.round(startCue.timeMs),
+      endMs: Math.round(endCue.timeMs),
+      prefix: concatBytes([layout.header(length), startCue.prefix ?? new Uint8Array(0)]),
+      offset: startCue.offset,
+      length
+    })
+    if (endCue === lastCue) break
+  }
+  return plans
 }
 
-function getBackoffDelay(attempt: number): number {
-  const jitter = Math.floor(Math.random() * 400)
-  return GEMINI_BACKOFF_BASE_MS * 2 ** (attempt - 1) + jitter
+/**
+ * Fallback for containers the server cannot parse: byte slices with the overlap estimated from the
+ * average bitrate, the same way the browser upload splits files.
+ */
+function planByteChunks(sizeBytes: number, durationMs: number, options: { chunkSizeBytes: number; overlapMs: number }): AudioChunkPlan[] {
+  const overlapBytes = Math.round((sizeBytes / durationMs) * options.overlapMs)
+  const totalChunks = Math.ceil(sizeBytes / options.chunkSizeBytes)
+  const plans: AudioChunkPlan[] = []
+  for (let index = 0; index < totalChunks; index++) {
+    const chunkStartByte = index === 0 ? 0 : Math.max(0, index * options.chunkSizeBytes - overlapBytes)
+    const chunkEndByte = Math.min(sizeBytes, (index + 1) * options.chunkSizeBytes)
+    plans.push({
+      startMs: Math.max(0, Math.round((chunkStartByte / sizeBytes) * durationMs)),
+      endMs: Math.min(durationMs, Math.round((chunkEndByte / sizeBytes) * durationMs)),
+      prefix: new Uint8Array(0),
+      offset: chunkStartByte,
+      length: chunkEndByte - chunkStartByte
+    })
+  }
+  return plans
 }
 
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms))
+/**
+ * Chunk length for a parsed container: CHUNK_DURATION_SECONDS, shortened so that a chunk stays within
+ * chunkSizeBytes at the recording's average bitrate (but never below AUDIO_MIN_CHUNK_DURATION_MS
+ * unless that would exceed MAX_CHUNK_SIZE_BYTES).
+ */
+function getContainerChunkDurationMs(layout: AudioContainerLayout, config: RuntimeConfig, chunkSizeBytes: number): number {
+  const bytesPerMs = (layout.dataEnd - layout.dataStart) / Math.max(1, layout.durationMs)
+  const maxDurationMs = config.chunkDurationSeconds * 1000
+  if (bytesPerMs <= 0) return maxDurationMs
+  const bySize = Math.max(chunkSizeBytes / bytesPerMs, Math.min(AUDIO_MIN_CHUNK_DURATION_MS, MAX_CHUNK_SIZE_BYTES / bytesPerMs))
+  return Math.max(1000, Math.floor(Math.min(maxDurationMs, bySize)))
 }
 
-async function parseGeminiErrorResponse(response: Response): Promise<{
-  message: string
-  status?: string
-  code?: number
-}> {
-  const text = await readResponseTextSafe(response)
-  try {
-    const parsed = JSON.parse(text) as {
-      error?: {
-        message?: string
-        status?: string
-        code?: number
-      }
+/**
+ * Write each planned chunk to R2 (prefix + byte range of the source) and queue it for transcription.
+ */
+async function queueAudioChunks(
+  env: Bindings,
+  taskId: string,
+  source: R2Object,
+  plans: AudioChunkPlan[],
+  options: { mimeType: string; extension: string; keyPrefix: string; model?: string }
+): Promise<void> {
+  const now = new Date().toISOString()
+  for (const [index, plan] of plans.entries()) {
+    const slice = await env.AUDIO_CHUNKS.get(source.key, { range: { offset: plan.offset, length: plan.length } })
+    if (!slice) {
+      throw new Error(`R2 object not found: ${source.key}`)
     }
-    if (parsed?.error) {
-      return {
-        message: parsed.error.message ?? text,
-        status: parsed.error.status,
-        code: parsed.error.code
+    const body = concatBytes([plan.prefix, new Uint8Array(await slice.arrayBuffer())])
+    const r2Key = `${taskId}/${options.keyPrefix}/${index}.${options.extension}`
+    await env.AUDIO_CHUNKS.put(r2Key, body, {
+      httpMetadata: { contentType: options.mimeType },
+      customMetadata: {
+        taskId,
+        chunkIndex: String(index),
+        startMs: String(plan.startMs),
+        endMs: String(plan.endMs),
+        sizeBytes: String(body.length)
       }
-    }
-    return { message: text }
-  } catch {
-    return { message: text }
-  }
-}
+    })
 
-async function readResponseTextSafe(response: Response): Promise<string> {
-  try {
-    return await response.text()
-  } catch (error) {
-    console.warn('Failed to read response text', error)
-    return ''
+    await env.DB.prepare(
+      `INSERT OR REPLACE INTO chunk_jobs
+       (task_id, chunk_index, start_ms, end_ms, mime_type, r2_key, size_bytes, model, attempts, status, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, 'queued', ?, ?)`
+    ).bind(taskId, index, plan.startMs, plan.endMs, options.mimeType, r2Key, body.length, options.model ?? null, now, now).run()
+    await saveChunkState(env, taskId, {
+      index,
+      status: 'queued',
+      attempts: 0,
+      updatedAt: now
+    })
+    await env.TRANSCRIPTION_QUEUE.send({
+      taskId,
+      chunkIndex: index,
+      r2Key,
+      startMs: plan.startMs,
+      endMs: plan.endMs,
+      mimeType: options.mimeType,
+      sizeBytes: body.length,
+      model: options.model
+    })
   }
 }
 
@@ -2332,86 +7547,353 @@ function detectIfAlreadyCorrected(text: string, chunkStartMs: number): boolean {
         break
       }
     }
-    
-    if (isMonotonic) {
-      return true  // Already corrected
+    
+    if (isMonotonic) {
+      return true  // Already corrected
+    }
+  }
+  
+  // Rule 4: If first timestamp is significantly after chunk start (beyond tolerance), 
+  // but still reasonable (within chunk), assume AI already corrected
+  // This handles cases where AI outputs timestamps like [2092, 2157, 2160, ...]
+  if (firstTimestamp >= chunkStartSeconds && firstTimestamp <= chunkStartSeconds + 300) {
+    return true  // Likely already corrected
+  }
+  
+  // Default: apply correction
+  return false
+}
+
+function correctTimestamps(text: string, chunkStartMs: number): string {
+  const offsetSeconds = Math.floor(chunkStartMs / 1000)
+  
+  // First, sanitize abnormal formats
+  text = sanitizeTimestamp(text)
+  
+  // Check if AI already output corrected timestamps
+  if (offsetSeconds === 0) {
+    // Chunk 0 doesn't need correction
+    return text
+  }
+  
+  const isAlreadyCorrected = detectIfAlreadyCorrected(text, chunkStartMs)
+  
+  if (isAlreadyCorrected) {
+    // AI already output correct timestamps, skip correction
+    return text
+  }
+  
+  // Match MM:SS or HH:MM:SS at line start (with optional whitespace)
+  const timestampPattern = /^(\s*)(\d{1,2}):(\d{2})(?::(\d{2}))?(\s+)/gm
+  
+  const corrected = text.replace(timestampPattern, (match, leadingSpace, p1, p2, p3, trailingSpace) => {
+    let totalSeconds = 0
+    
+    if (p3) {
+      // HH:MM:SS format
+      totalSeconds = parseInt(p1) * 3600 + parseInt(p2) * 60 + parseInt(p3)
+    } else {
+      // MM:SS format
+      totalSeconds = parseInt(p1) * 60 + parseInt(p2)
+    }
+    
+    // Add offset
+    const correctedSeconds = totalSeconds + offsetSeconds
+    
+    // Reformat
+    const hours = Math.floor(correctedSeconds / 3600)
+    const minutes = Math.floor((correctedSeconds % 3600) / 60)
+    const seconds = correctedSeconds % 60
+    
+    if (hours > 0) {
+      return `${leadingSpace}${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${trailingSpace}`
+    } else {
+      return `${leadingSpace}${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${trailingSpace}`
+    }
+  })
+  
+  return corrected
+}
+
+type TranscriptionRequest = Omit<TranscriptionParams, 'apiKey' | 'model'>
+
+type SummarizationRequest = {
+  transcript: string
+  filename?: string
+  durationMs?: number
+  template?: Pick<MinutesTemplateRecord, 'id' | 'instructions'>
+  variables?: Record<string, string>
+}
+
+/**
+ * Speech-to-text engine for one chunk. Implementations return "MM:SS 話者: 発言" lines with timestamps
+ * absolute to the meeting, which is what mergeChunks expects.
+ */
+type TranscriptionProvider = {
+  name: TranscriptionProviderName
+  model: string
+  transcribe: (env: Bindings, taskId: string, request: TranscriptionRequest) => Promise<string>
+}
+
+/**
+ * Minutes and action item generation from the merged transcript. `model` is recorded on minutes versions.
+ */
+type SummarizationProvider = {
+  name: SummarizationProviderName
+  model: string
+  summarize: (env: Bindings, taskId: string, request: SummarizationRequest) => Promise<string>
+  extractActionItems: (env: Bindings, taskId: string, request: { minutes: string; meetingDate: string }) => Promise<ExtractedActionItem[]>
+}
+
+/**
+ * Provider for a task: the task's own choice, else TRANSCRIPTION_PROVIDER. `geminiModel` comes from
+ * getModelSettings (or a retry override); the other engines have their own model. Returns null when the
+ * provider's API key is not configured.
+ */
+function getTranscriptionProvider(
+  env: Bindings,
+  name: TranscriptionProviderName | undefined,
+  geminiModel: string
+): TranscriptionProvider | null {
+  const providerName = name ?? getRuntimeConfig(env).transcriptionProvider
+  const model = getTranscriptionModelName(env, providerName, geminiModel)
+  switch (providerName) {
+    case 'mock':
+      return { name: 'mock', model, transcribe: async (_env, _taskId, request) => buildMockTranscription(request) }
+    case 'whisper': {
+      const apiKey = env.OPENAI_API_KEY
+      if (!apiKey) return null
+      return { name: 'whisper', model, transcribe: (env, taskId, request) => callWhisperTranscription(env, taskId, { ...request, model, apiKey }) }
+    }
+    case 'gemini': {
+      const apiKey = env.GEMINI_API_KEY
+      if (!apiKey) return null
+      return {
+        name: 'gemini',
+        model,
+        transcribe: (env, taskId, request) => callGeminiFlashTranscription(env, taskId, { ...request, model, apiKey })
+      }
+    }
+  }
+}
+
+function getSummarizationProvider(
+  env: Bindings,
+  name: SummarizationProviderName | undefined,
+  geminiModel: string
+): SummarizationProvider | null {
+  const providerName = name ?? getRuntimeConfig(env).summarizationProvider
+  const model = getSummarizationModelName(providerName, geminiModel)
+  switch (providerName) {
+    case 'mock':
+      return {
+        name: 'mock',
+        model,
+        summarize: async (_env, _taskId, request) => buildMockMinutes(request),
+        extractActionItems: async () => [{ assignee: '話者A', description: '（モック）次回までに資料を準備する', status: 'open' }]
+      }
+    case 'gemini': {
+      const apiKey = env.GEMINI_API_KEY
+      if (!apiKey) return null
+      return {
+        name: 'gemini',
+        model,
+        summarize: (env, taskId, request) => callGeminiMinutes(env, taskId, { ...request, model, apiKey }),
+        extractActionItems: (env, taskId, request) => callGeminiActionItems(env, taskId, { ...request, model, apiKey })
+      }
+    }
+  }
+}
+
+function getTranscriptionModelName(env: Bindings, provider: TranscriptionProviderName, geminiModel: string): string {
+  switch (provider) {
+    case 'mock':
+      return 'mock'
+    case 'whisper':
+      return env.WHISPER_MODEL || WHISPER_DEFAULT_MODEL
+    case 'gemini':
+      return geminiModel
+  }
+}
+
+function getSummarizationModelName(provider: SummarizationProviderName, geminiModel: string): string {
+  return provider === 'gemini' ? geminiModel : 'mock'
+}
+
+type TranscriptionParams = {
+  apiKey: string
+  audioBase64: string
+  mimeType: string
+  chunkIndex: number
+  chunkStartMs: number
+  chunkEndMs: number
+  previousContext?: string
+  model: string
+  instructions?: string
+}
+
+async function callGeminiFlashTranscription(
+  env: Bindings,
+  taskId: string,
+  params: TranscriptionParams
+): Promise<string> {
+  const config = getRuntimeConfig(env)
+  if (config.transcriptionOutputMode === 'json') {
+    const transcript = await callGeminiFlashTranscriptionJson(env, taskId, params)
+    if (transcript !== null) {
+      return transcript
+    }
+    await appendTaskLog(env, taskId, {
+      level: 'warn',
+      message: 'Gemini Flash JSON transcription invalid, falling back to text mode',
+      context: {
+        chunkIndex: params.chunkIndex
+      }
+    })
+  }
+  return callGeminiFlashTranscriptionText(env, taskId, params)
+}
+
+/**
+ * JSON mode: Gemini returns utterances with offsets relative to the chunk,
+ * and absolute timestamps are computed here from chunkStartMs.
+ * Returns null when the response does not match the schema so the caller can fall back.
+ */
+async function callGeminiFlashTranscriptionJson(
+  env: Bindings,
+  taskId: string,
+  params: TranscriptionParams
+): Promise<string | null> {
+  const {
+    apiKey,
+    audioBase64,
+    mimeType,
+    chunkIndex,
+    chunkStartMs,
+    chunkEndMs,
+    previousContext = '',
+    instructions
+  } = params
+  const chunkDurationSeconds = Math.max(0, Math.round((chunkEndMs - chunkStartMs) / 1000))
+
+  const systemInstruction = {
+    role: 'system',
+    parts: [
+      {
+        text: [
+          'あなたはプロの文字起こし担当者です。以下の音声ファイルを**一言一句、省略せずに完全に**文字起こししてください。',
+          '',
+          '【厳守事項】',
+          '1. **要約は絶対に禁止です。** 「えー」「あー」などのフィラーや、言い淀みも含めて全て書き起こしてください。',
+          '2. 内容を勝手に編集したり、カットしたりしないでください。',
+          '3. 発言ごとに1要素とし、JSON配列で出力してください。',
+          '4. offsetSeconds は**この音声ファイルの先頭からの経過秒数**です。0 から始め、会議全体の時刻は加算しないでください。',
+          '5. speaker は「話者A」「話者B」のように表記し、前のコンテキストに登場した話者と同じ人物には同じラベルを使ってください。',
+          '6. 発言が無い場合は空の配列を返してください。'
+        ].join('\n')
+      }
+    ]
+  }
+
+  const contextText = previousContext
+    ? `Previous context (do not repeat, only use for continuity):\n${previousContext}\n`
+    : 'No previous context.'
+
+  const userParts = [
+    {
+      text: [
+        `Chunk metadata:`,
+        `- Index: ${chunkIndex}`,
+        `- Duration (seconds): ${chunkDurationSeconds}`,
+        '',
+        contextText,
+        '',
+        ...(instructions ? [`Additional instructions for this chunk:\n${instructions}`, ''] : []),
+        'Transcribe the attached audio chunk. offsetSeconds must be relative to the start of this audio (0 to the duration above).'
+      ].join('\n')
+    },
+    {
+      inline_data: {
+        mime_type: mimeType,
+        data: audioBase64
+      }
+    }
+  ]
+
+  const requestBody = JSON.stringify({
+    system_instruction: systemInstruction,
+    contents: [
+      {
+        role: 'user',
+        parts: userParts
+      }
+    ],
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: TRANSCRIPTION_RESPONSE_SCHEMA
     }
-  }
-  
-  // Rule 4: If first timestamp is significantly after chunk start (beyond tolerance), 
-  // but still reasonable (within chunk), assume AI already corrected
-  // This handles cases where AI outputs timestamps like [2092, 2157, 2160, ...]
-  if (firstTimestamp >= chunkStartSeconds && firstTimestamp <= chunkStartSeconds + 300) {
-    return true  // Likely already corrected
-  }
-  
-  // Default: apply correction
-  return false
+  })
+
+  const rawText = await sendGeminiTranscriptionRequest(env, taskId, { apiKey, chunkIndex, requestBody, model: params.model })
+  const transcript = parseJsonTranscription(rawText, chunkStartMs, chunkEndMs)
+
+  await appendTaskLog(env, taskId, {
+    level: transcript === null ? 'warn' : 'info',
+    message: transcript === null
+      ? `Chunk ${chunkIndex}: JSON transcription failed validation`
+      : `Chunk ${chunkIndex}: JSON transcription parsed`,
+    context: {
+      chunkIndex,
+      chunkStartSec: Math.floor(chunkStartMs / 1000),
+      chunkEndSec: Math.floor(chunkEndMs / 1000),
+      rawLength: rawText.length,
+      transcriptLength: transcript?.length
+    }
+  })
+
+  return transcript
 }
 
-function correctTimestamps(text: string, chunkStartMs: number): string {
-  const offsetSeconds = Math.floor(chunkStartMs / 1000)
-  
-  // First, sanitize abnormal formats
-  text = sanitizeTimestamp(text)
-  
-  // Check if AI already output corrected timestamps
-  if (offsetSeconds === 0) {
-    // Chunk 0 doesn't need correction
-    return text
+/**
+ * Validate a JSON transcription response and render it as "MM:SS 話者名: 発言内容" lines.
+ */
+function parseJsonTranscription(rawText: string, chunkStartMs: number, chunkEndMs: number): string | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(rawText.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''))
+  } catch {
+    return null
   }
-  
-  const isAlreadyCorrected = detectIfAlreadyCorrected(text, chunkStartMs)
-  
-  if (isAlreadyCorrected) {
-    // AI already output correct timestamps, skip correction
-    return text
+  if (!Array.isArray(parsed)) return null
+
+  const maxOffsetSeconds = (chunkEndMs - chunkStartMs) / 1000 + JSON_TRANSCRIPTION_OFFSET_TOLERANCE_SECONDS
+  const utterances: Array<{ offsetSeconds: number; speaker: string; text: string }> = []
+
+  for (const item of parsed) {
+    if (!item || typeof item !== 'object') return null
+    const { offsetSeconds, speaker, text } = item as Record<string, unknown>
+    if (typeof offsetSeconds !== 'number' || !Number.isFinite(offsetSeconds) || typeof text !== 'string') return null
+    // Offsets beyond the chunk mean Gemini used meeting-absolute time; let the text path handle it
+    if (offsetSeconds < 0 || offsetSeconds > maxOffsetSeconds) return null
+    const normalizedText = text.replace(/\s*\r?\n\s*/g, ' ').trim()
+    if (!normalizedText) continue
+    const normalizedSpeaker = typeof speaker === 'string' ? speaker.replace(/[:：\r\n]/g, '').trim() : ''
+    utterances.push({ offsetSeconds, speaker: normalizedSpeaker || '話者不明', text: normalizedText })
   }
-  
-  // Match MM:SS or HH:MM:SS at line start (with optional whitespace)
-  const timestampPattern = /^(\s*)(\d{1,2}):(\d{2})(?::(\d{2}))?(\s+)/gm
-  
-  const corrected = text.replace(timestampPattern, (match, leadingSpace, p1, p2, p3, trailingSpace) => {
-    let totalSeconds = 0
-    
-    if (p3) {
-      // HH:MM:SS format
-      totalSeconds = parseInt(p1) * 3600 + parseInt(p2) * 60 + parseInt(p3)
-    } else {
-      // MM:SS format
-      totalSeconds = parseInt(p1) * 60 + parseInt(p2)
-    }
-    
-    // Add offset
-    const correctedSeconds = totalSeconds + offsetSeconds
-    
-    // Reformat
-    const hours = Math.floor(correctedSeconds / 3600)
-    const minutes = Math.floor((correctedSeconds % 3600) / 60)
-    const seconds = correctedSeconds % 60
-    
-    if (hours > 0) {
-      return `${leadingSpace}${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${trailingSpace}`
-    } else {
-      return `${leadingSpace}${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}${trailingSpace}`
-    }
-  })
-  
-  return corrected
+
+  return utterances
+    .sort((a, b) => a.offsetSeconds - b.offsetSeconds)
+    .map((utterance) => {
+      const timestamp = formatTimestampFromMs(chunkStartMs + Math.floor(utterance.offsetSeconds) * 1000)
+      return `${timestamp} ${utterance.speaker}: ${utterance.text}`
+    })
+    .join('\n')
 }
 
-async function callGeminiFlashTranscription(
+async function callGeminiFlashTranscriptionText(
   env: Bindings,
   taskId: string,
-  params: {
-    apiKey: string
-    audioBase64: string
-    mimeType: string
-    chunkIndex: number
-    chunkStartMs: number
-    chunkEndMs: number
-    previousContext?: string
-  }
+  params: TranscriptionParams
 ): Promise<string> {
   const {
     apiKey,
@@ -2420,7 +7902,8 @@ async function callGeminiFlashTranscription(
     chunkIndex,
     chunkStartMs,
     chunkEndMs,
-    previousContext = ''
+    previousContext = '',
+    instructions
   } = params
 
   // Calculate start time in MM:SS or HH:MM:SS format
@@ -2442,6 +7925,7 @@ async function callGeminiFlashTranscription(
           '1. **要約は絶対に禁止です。** 「えー」「あー」などのフィラーや、言い淀みも含めて全て書き起こしてください。',
           '2. 内容を勝手に編集したり、カットしたりしないでください。',
           '3. 形式は "MM:SS 話者名: 発言内容" としてください。',
+          '   話者名は「話者A」「話者B」のように表記し、前のコンテキストに登場した話者と同じ人物には同じラベルを使ってください。',
           '',
           '【タイムスタンプの重要ルール】',
           `4. この音声チャンクは会議開始から ${startTimeFormatted} の時点から始まります。`,
@@ -2478,6 +7962,7 @@ async function callGeminiFlashTranscription(
         '',
         contextText,
         '',
+        ...(instructions ? [`Additional instructions for this chunk:\n${instructions}`, ''] : []),
         '**Format requirement:** MM:SS Speaker: Content (or HH:MM:SS if over 1 hour)',
         '**NO milliseconds allowed.** Use only MM:SS or HH:MM:SS format.',
         '',
@@ -2489,20 +7974,257 @@ async function callGeminiFlashTranscription(
         mime_type: mimeType,
         data: audioBase64
       }
-    }
-  ]
+    }
+  ]
+
+  const requestBody = JSON.stringify({
+    system_instruction: systemInstruction,
+    contents: [
+      {
+        role: 'user',
+        parts: userParts
+      }
+    ]
+  })
+
+  const rawText = await sendGeminiTranscriptionRequest(env, taskId, { apiKey, chunkIndex, requestBody, model: params.model })
+  const rawTranscript = rawText.trim()
+  
+  // Extract first few timestamps for debugging
+  const extractFirstTimestamps = (text: string, count: number = 5): number[] => {
+    const timestamps: number[] = []
+    const lines = text.split('\n')
+    for (const line of lines.slice(0, 20)) {
+      const ts = getTimestampMs(line)
+      if (ts !== null) {
+        timestamps.push(Math.floor(ts / 1000))  // Convert to seconds
+        if (timestamps.length >= count) break
+      }
+    }
+    return timestamps
+  }
+  
+  const firstTimestampsRaw = extractFirstTimestamps(rawTranscript, 5)
+  
+  // Apply timestamp correction (hybrid approach with double-correction prevention)
+  const correctedTranscript = correctTimestamps(rawTranscript, chunkStartMs)
+  
+  const firstTimestampsCorrected = extractFirstTimestamps(correctedTranscript, 5)
+  const correctionApplied = rawTranscript !== correctedTranscript
+  
+  // Detailed logging for debugging
+  await appendTaskLog(env, taskId, {
+    level: 'info',
+    message: correctionApplied 
+      ? `Chunk ${chunkIndex}: Timestamps corrected` 
+      : `Chunk ${chunkIndex}: No correction needed (AI output already correct)`,
+    context: {
+      chunkIndex,
+      chunkStartSec: Math.floor(chunkStartMs / 1000),
+      chunkEndSec: Math.floor(chunkEndMs / 1000),
+      firstTimestampsRaw,
+      firstTimestampsCorrected,
+      correctionApplied,
+      rawLength: rawTranscript.length,
+      correctedLength: correctedTranscript.length
+    }
+  })
+  
+  return correctedTranscript
+}
+
+async function sendGeminiTranscriptionRequest(
+  env: Bindings,
+  taskId: string,
+  params: {
+    apiKey: string
+    chunkIndex: number
+    requestBody: string
+    model: string
+  }
+): Promise<string> {
+  const { apiKey, chunkIndex, requestBody, model } = params
+  const url = `${GEMINI_API_BASE}/v1beta/models/${model}:generateContent?key=${apiKey}`
+  let lastError: Error | null = null
+
+  for (let attempt = 1; attempt <= GEMINI_FLASH_MAX_RETRIES; attempt++) {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), GEMINI_FLASH_TIMEOUT_MS)
+
+    try {
+      await appendTaskLog(env, taskId, {
+        level: 'info',
+        message: 'Gemini Flash transcription request',
+        context: {
+          chunkIndex,
+          attempt,
+          model
+        }
+      })
+
+      const requestStartedAt = Date.now()
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: requestBody,
+        signal: controller.signal
+      })
+
+      if (response.ok) {
+        const data = (await response.json()) as GeminiGenerateContentResponse
+        await recordApiCall(env, taskId, {
+          kind: 'transcription',
+          model,
+          chunkIndex,
+          status: response.status,
+          latencyMs: Date.now() - requestStartedAt,
+          usage: data.usageMetadata
+        })
+        const text = extractCandidateText(data)
+        if (!text) {
+          throw new Error('Gemini Flash returned no transcription text')
+        }
+        return text
+      }
+
+      const errorDetails = await parseGeminiErrorResponse(response)
+      await recordApiCall(env, taskId, {
+        kind: 'transcription',
+        model,
+        chunkIndex,
+        status: response.status,
+        latencyMs: Date.now() - requestStartedAt
+      })
+      const retryable = isRetryableStatus(response.status)
+      const context = {
+        chunkIndex,
+        attempt,
+        status: response.status,
+        errorStatus: errorDetails.status,
+        errorCode: errorDetails.code,
+        errorMessage: truncateString(errorDetails.message, 200)
+      }
+
+      if (!retryable || attempt === GEMINI_FLASH_MAX_RETRIES) {
+        await appendTaskLog(env, taskId, {
+          level: 'error',
+          message: 'Gemini Flash transcription failed',
+          context
+        })
+        throw new Error(`Gemini Flash API error: ${response.status} ${errorDetails.message}`)
+      }
+
+      await appendTaskLog(env, taskId, {
+        level: 'warn',
+        message: 'Gemini Flash transcription retry scheduled',
+        context
+      })
+      lastError = new Error(`Gemini Flash API error: ${response.status} ${errorDetails.message}`)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      const retryable =
+        isAbortError(error) ||
+        error instanceof TypeError ||
+        /timeout/i.test(errorMessage)
+
+      if (!retryable || attempt === GEMINI_FLASH_MAX_RETRIES) {
+        await appendTaskLog(env, taskId, {
+          level: 'error',
+          message: 'Gemini Flash transcription exception',
+          context: {
+            chunkIndex,
+            attempt,
+            error: truncateString(errorMessage, 200)
+          }
+        })
+        throw new Error(`Gemini Flash API error: ${errorMessage}`)
+      }
+
+      await appendTaskLog(env, taskId, {
+        level: 'warn',
+        message: 'Gemini Flash transcription transient exception',
+        context: {
+          chunkIndex,
+          attempt,
+          error: truncateString(errorMessage, 200)
+        }
+      })
+      lastError = error instanceof Error ? error : new Error(errorMessage)
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    if (attempt < GEMINI_FLASH_MAX_RETRIES) {
+      await sleep(getBackoffDelay(attempt))
+    }
+  }
+
+  throw lastError ?? new Error('Gemini Flash API error: Unknown failure')
+}
+
+async function callGeminiMinutes(
+  env: Bindings,
+  taskId: string,
+  params: SummarizationRequest & { apiKey: string; model: string }
+): Promise<string> {
+  const {
+    apiKey,
+    model,
+    transcript,
+    filename,
+    durationMs,
+    template = { id: MINUTES_PROMPT_TEMPLATE_ID, instructions: DEFAULT_MINUTES_TEMPLATE_INSTRUCTIONS },
+    variables = {}
+  } = params
+  const meetingLengthMinutes = durationMs ? Math.round(durationMs / 60000) : undefined
+
+  const systemInstruction = {
+    role: 'system',
+    parts: [
+      {
+        text: [
+          'You are an assistant that creates structured meeting minutes for Japanese tax accountant offices.',
+          'Summaries must be precise, concise, and action-oriented.',
+          'Respond in Japanese unless the transcript is clearly in another language.',
+          '',
+          'Format requirements:',
+          '- Use emoji icons for each section',
+          '- Use clear section headers with spacing',
+          '- Use bullet points for lists',
+          '- Use tables for TODO items',
+          '- Include timestamps for important events',
+          '',
+          renderMinutesTemplate(template.instructions, variables)
+        ].join('\n')
+      }
+    ]
+  }
+
+  const userTextLines = [
+    filename ? `議事録タイトル候補: ${filename}` : undefined,
+    meetingLengthMinutes ? `会議の想定長さ: 約${meetingLengthMinutes}分` : undefined,
+    '以下がタイムスタンプ付き全文です。これを基に議事録を作成してください。',
+    '---',
+    transcript
+  ].filter(Boolean) as string[]
 
   const requestBody = JSON.stringify({
     system_instruction: systemInstruction,
     contents: [
       {
         role: 'user',
-        parts: userParts
+        parts: [
+          {
+            text: userTextLines.join('\n')
+          }
+        ]
       }
     ]
   })
 
-  const url = `${GEMINI_API_BASE}/v1beta/models/${GEMINI_FLASH_MODEL}:generateContent?key=${apiKey}`
+  const url = `${GEMINI_API_BASE}/v1beta/models/${model}:generateContent?key=${apiKey}`
   let lastError: Error | null = null
 
   for (let attempt = 1; attempt <= GEMINI_FLASH_MAX_RETRIES; attempt++) {
@@ -2512,13 +8234,17 @@ async function callGeminiFlashTranscription(
     try {
       await appendTaskLog(env, taskId, {
         level: 'info',
-        message: 'Gemini Flash transcription request',
+        message: 'Gemini minutes request',
         context: {
-          chunkIndex,
-          attempt
+          attempt,
+          model,
+          filename,
+          meetingLengthMinutes,
+          templateId: template.id
         }
       })
 
+      const requestStartedAt = Date.now()
       const response = await fetch(url, {
         method: 'POST',
         headers: {
@@ -2530,60 +8256,38 @@ async function callGeminiFlashTranscription(
 
       if (response.ok) {
         const data = (await response.json()) as GeminiGenerateContentResponse
+        await recordApiCall(env, taskId, {
+          kind: 'minutes',
+          model,
+          status: response.status,
+          latencyMs: Date.now() - requestStartedAt,
+          usage: data.usageMetadata
+        })
         const text = extractCandidateText(data)
         if (!text) {
-          throw new Error('Gemini Flash returned no transcription text')
-        }
-        const rawTranscript = text.trim()
-        
-        // Extract first few timestamps for debugging
-        const extractFirstTimestamps = (text: string, count: number = 5): number[] => {
-          const timestamps: number[] = []
-          const lines = text.split('\n')
-          for (const line of lines.slice(0, 20)) {
-            const ts = getTimestampMs(line)
-            if (ts !== null) {
-              timestamps.push(Math.floor(ts / 1000))  // Convert to seconds
-              if (timestamps.length >= count) break
-            }
-          }
-          return timestamps
+          throw new Error('Gemini returned no minutes text')
         }
-        
-        const firstTimestampsRaw = extractFirstTimestamps(rawTranscript, 5)
-        
-        // Apply timestamp correction (hybrid approach with double-correction prevention)
-        const correctedTranscript = correctTimestamps(rawTranscript, chunkStartMs)
-        
-        const firstTimestampsCorrected = extractFirstTimestamps(correctedTranscript, 5)
-        const correctionApplied = rawTranscript !== correctedTranscript
-        
-        // Detailed logging for debugging
+        const trimmed = text.trim()
         await appendTaskLog(env, taskId, {
           level: 'info',
-          message: correctionApplied 
-            ? `Chunk ${chunkIndex}: Timestamps corrected` 
-            : `Chunk ${chunkIndex}: No correction needed (AI output already correct)`,
+          message: 'Gemini minutes success',
           context: {
-            chunkIndex,
             attempt,
-            chunkStartSec: Math.floor(chunkStartMs / 1000),
-            chunkEndSec: Math.floor(chunkEndMs / 1000),
-            firstTimestampsRaw,
-            firstTimestampsCorrected,
-            correctionApplied,
-            rawLength: rawTranscript.length,
-            correctedLength: correctedTranscript.length
+            minutesLength: trimmed.length
           }
         })
-        
-        return correctedTranscript
+        return trimmed
       }
 
       const errorDetails = await parseGeminiErrorResponse(response)
+      await recordApiCall(env, taskId, {
+        kind: 'minutes',
+        model,
+        status: response.status,
+        latencyMs: Date.now() - requestStartedAt
+      })
       const retryable = isRetryableStatus(response.status)
       const context = {
-        chunkIndex,
         attempt,
         status: response.status,
         errorStatus: errorDetails.status,
@@ -2594,18 +8298,18 @@ async function callGeminiFlashTranscription(
       if (!retryable || attempt === GEMINI_FLASH_MAX_RETRIES) {
         await appendTaskLog(env, taskId, {
           level: 'error',
-          message: 'Gemini Flash transcription failed',
+          message: 'Gemini minutes failed',
           context
         })
-        throw new Error(`Gemini Flash API error: ${response.status} ${errorDetails.message}`)
+        throw new Error(`Gemini API error: ${response.status} ${errorDetails.message}`)
       }
 
       await appendTaskLog(env, taskId, {
         level: 'warn',
-        message: 'Gemini Flash transcription retry scheduled',
+        message: 'Gemini minutes retry scheduled',
         context
       })
-      lastError = new Error(`Gemini Flash API error: ${response.status} ${errorDetails.message}`)
+      lastError = new Error(`Gemini API error: ${response.status} ${errorDetails.message}`)
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       const retryable =
@@ -2616,21 +8320,19 @@ async function callGeminiFlashTranscription(
       if (!retryable || attempt === GEMINI_FLASH_MAX_RETRIES) {
         await appendTaskLog(env, taskId, {
           level: 'error',
-          message: 'Gemini Flash transcription exception',
+          message: 'Gemini minutes exception',
           context: {
-            chunkIndex,
             attempt,
             error: truncateString(errorMessage, 200)
           }
         })
-        throw new Error(`Gemini Flash API error: ${errorMessage}`)
+        throw new Error(`Gemini API error: ${errorMessage}`)
       }
 
       await appendTaskLog(env, taskId, {
         level: 'warn',
-        message: 'Gemini Flash transcription transient exception',
+        message: 'Gemini minutes transient exception',
         context: {
-          chunkIndex,
           attempt,
           error: truncateString(errorMessage, 200)
         }
@@ -2645,87 +8347,36 @@ async function callGeminiFlashTranscription(
     }
   }
 
-  throw lastError ?? new Error('Gemini Flash API error: Unknown failure')
+  throw lastError ?? new Error('Gemini API error: Unknown failure')
 }
 
-async function callGeminiMinutes(
+async function callGeminiActionItems(
   env: Bindings,
   taskId: string,
   params: {
     apiKey: string
-    transcript: string
-    filename?: string
-    durationMs?: number
+    model: string
+    minutes: string
+    meetingDate: string
   }
-): Promise<string> {
-  const { apiKey, transcript, filename, durationMs } = params
-  const meetingLengthMinutes = durationMs ? Math.round(durationMs / 60000) : undefined
+): Promise<ExtractedActionItem[]> {
+  const { apiKey, model, minutes, meetingDate } = params
 
   const systemInstruction = {
     role: 'system',
     parts: [
       {
         text: [
-          'You are an assistant that creates structured meeting minutes for Japanese tax accountant offices.',
-          'Summaries must be precise, concise, and action-oriented.',
-          'Respond in Japanese unless the transcript is clearly in another language.',
-          '',
-          'Format requirements:',
-          '- Use emoji icons for each section',
-          '- Use clear section headers with spacing',
-          '- Use bullet points for lists',
-          '- Use tables for TODO items',
-          '- Include timestamps for important events',
-          '',
-          'Required sections:',
-          '',
-          '📋 会議の要約',
-          '(Brief overview of the meeting in 2-3 sentences)',
-          '',
-          '💡 主要な議題',
-          '(Bullet list of main topics discussed)',
-          '• Topic 1',
-          '• Topic 2',
-          '• Topic 3',
-          '',
-          '✅ 決定事項',
-          '(Bullet list of decisions made)',
-          '• Decision 1',
-          '• Decision 2',
-          '',
-          '📝 TODO',
-          '(Table format with assignee and deadline)',
-          '| 担当者 | タスク内容 | 期限 | ステータス |',
-          '| --- | --- | --- | --- |',
-          '| 山田 | レポート作成 | 2/15 | 未着手 |',
-          '',
-          '⚠️ 懸念点・リスク',
-          '(Bullet list of concerns and risks)',
-          '• Risk 1',
-          '• Risk 2',
-          '',
-          '🔄 次回までのフォローアップ',
-          '(Actions to take before next meeting)',
-          '• Action 1',
-          '• Action 2',
-          '',
-          '⏰ 重要タイムライン',
-          '(Key timestamps from the transcript)',
-          '• 00:05 - Event 1',
-          '• 00:15 - Event 2'
+          'You extract action items (TODO) from Japanese meeting minutes of a tax accountant office.',
+          'Use the 📝 TODO table first, then any other clearly assigned follow-up actions. Do not invent items.',
+          `The meeting was held on ${meetingDate}. Resolve deadlines such as "2/15" or "月末" to YYYY-MM-DD relative to that date; leave dueDate empty when no date can be determined.`,
+          'Map ステータス: 未着手 → open, 進行中/対応中 → in_progress, 完了 → done.',
+          'Return an empty array when there are no action items.'
         ].join('\n')
       }
     ]
   }
 
-  const userTextLines = [
-    filename ? `議事録タイトル候補: ${filename}` : undefined,
-    meetingLengthMinutes ? `会議の想定長さ: 約${meetingLengthMinutes}分` : undefined,
-    '以下がタイムスタンプ付き全文です。これを基に議事録を作成してください。',
-    '---',
-    transcript
-  ].filter(Boolean) as string[]
-
   const requestBody = JSON.stringify({
     system_instruction: systemInstruction,
     contents: [
@@ -2733,14 +8384,18 @@ async function callGeminiMinutes(
         role: 'user',
         parts: [
           {
-            text: userTextLines.join('\n')
+            text: minutes
           }
         ]
       }
-    ]
+    ],
+    generationConfig: {
+      responseMimeType: 'application/json',
+      responseSchema: ACTION_ITEMS_RESPONSE_SCHEMA
+    }
   })
 
-  const url = `${GEMINI_API_BASE}/v1beta/models/${GEMINI_FLASH_MODEL}:generateContent?key=${apiKey}`
+  const url = `${GEMINI_API_BASE}/v1beta/models/${model}:generateContent?key=${apiKey}`
   let lastError: Error | null = null
 
   for (let attempt = 1; attempt <= GEMINI_FLASH_MAX_RETRIES; attempt++) {
@@ -2750,14 +8405,15 @@ async function callGeminiMinutes(
     try {
       await appendTaskLog(env, taskId, {
         level: 'info',
-        message: 'Gemini 2.5 Flash minutes request',
+        message: 'Gemini action items request',
         context: {
           attempt,
-          filename,
-          meetingLengthMinutes
+          model,
+          minutesLength: minutes.length
         }
       })
 
+      const requestStartedAt = Date.now()
       const response = await fetch(url, {
         method: 'POST',
         headers: {
@@ -2769,23 +8425,27 @@ async function callGeminiMinutes(
 
       if (response.ok) {
         const data = (await response.json()) as GeminiGenerateContentResponse
-        const text = extractCandidateText(data)
-        if (!text) {
-          throw new Error('Gemini 2.5 Flash returned no minutes text')
-        }
-        const trimmed = text.trim()
-        await appendTaskLog(env, taskId, {
-          level: 'info',
-          message: 'Gemini 2.5 Flash minutes success',
-          context: {
-            attempt,
-            minutesLength: trimmed.length
-          }
+        await recordApiCall(env, taskId, {
+          kind: 'action_items',
+          model,
+          status: response.status,
+          latencyMs: Date.now() - requestStartedAt,
+          usage: data.usageMetadata
         })
-        return trimmed
+        const items = parseActionItemsResponse(extractCandidateText(data) ?? '')
+        if (!items) {
+          throw new Error('Gemini returned invalid action items')
+        }
+        return items
       }
 
       const errorDetails = await parseGeminiErrorResponse(response)
+      await recordApiCall(env, taskId, {
+        kind: 'action_items',
+        model,
+        status: response.status,
+        latencyMs: Date.now() - requestStartedAt
+      })
       const retryable = isRetryableStatus(response.status)
       const context = {
         attempt,
@@ -2798,18 +8458,18 @@ async function callGeminiMinutes(
       if (!retryable || attempt === GEMINI_FLASH_MAX_RETRIES) {
         await appendTaskLog(env, taskId, {
           level: 'error',
-          message: 'Gemini 2.5 Flash minutes failed',
+          message: 'Gemini action items failed',
           context
         })
-        throw new Error(`Gemini 2.5 Flash API error: ${response.status} ${errorDetails.message}`)
+        throw new Error(`Gemini API error: ${response.status} ${errorDetails.message}`)
       }
 
       await appendTaskLog(env, taskId, {
         level: 'warn',
-        message: 'Gemini 2.5 Flash minutes retry scheduled',
+        message: 'Gemini action items retry scheduled',
         context
       })
-      lastError = new Error(`Gemini 2.5 Flash API error: ${response.status} ${errorDetails.message}`)
+      lastError = new Error(`Gemini API error: ${response.status} ${errorDetails.message}`)
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       const retryable =
@@ -2820,18 +8480,18 @@ async function callGeminiMinutes(
       if (!retryable || attempt === GEMINI_FLASH_MAX_RETRIES) {
         await appendTaskLog(env, taskId, {
           level: 'error',
-          message: 'Gemini 2.5 Flash minutes exception',
+          message: 'Gemini action items exception',
           context: {
             attempt,
             error: truncateString(errorMessage, 200)
           }
         })
-        throw new Error(`Gemini 2.5 Flash API error: ${errorMessage}`)
+        throw new Error(`Gemini API error: ${errorMessage}`)
       }
 
       await appendTaskLog(env, taskId, {
         level: 'warn',
-        message: 'Gemini 2.5 Flash minutes transient exception',
+        message: 'Gemini action items transient exception',
         context: {
           attempt,
           error: truncateString(errorMessage, 200)
@@ -2847,13 +8507,131 @@ async function callGeminiMinutes(
     }
   }
 
-  throw lastError ?? new Error('Gemini 2.5 Flash API error: Unknown failure')
+  throw lastError ?? new Error('Gemini API error: Unknown failure')
+}
+
+/**
+ * OpenAI-compatible /audio/transcriptions (Whisper). Segment offsets are relative to the chunk, so absolute
+ * timestamps are computed from chunkStartMs as in JSON mode. Whisper has no speaker diarization.
+ */
+async function callWhisperTranscription(
+  env: Bindings,
+  taskId: string,
+  params: TranscriptionParams
+): Promise<string> {
+  const { apiKey, model, audioBase64, mimeType, chunkIndex, chunkStartMs, previousContext = '', instructions } = params
+  const url = `${(env.OPENAI_API_BASE || OPENAI_API_BASE).replace(/\/+$/, '')}/audio/transcriptions`
+  const audio = base64UrlToBytes(audioBase64)
+  const extension = mimeType.split('/')[1]?.split(';')[0] || 'webm'
+  let lastError: Error | null = null
+
+  for (let attempt = 1; attempt <= WHISPER_MAX_RETRIES; attempt++) {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), WHISPER_TIMEOUT_MS)
+
+    try {
+      await appendTaskLog(env, taskId, {
+        level: 'info',
+        message: 'Whisper transcription request',
+        context: { chunkIndex, attempt, model }
+      })
+
+      const form = new FormData()
+      form.append('file', new Blob([audio], { type: mimeType }), `chunk-${chunkIndex}.${extension}`)
+      form.append('model', model)
+      form.append('language', 'ja')
+      form.append('response_format', 'verbose_json')
+      // Whisper only reads the last ~224 tokens of the prompt
+      const prompt = [instructions, previousContext.slice(-500)].filter(Boolean).join('\n')
+      if (prompt) form.append('prompt', prompt)
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}` },
+        body: form,
+        signal: controller.signal
+      })
+
+      if (response.ok) {
+        const data = (await response.json()) as { text?: string; segments?: Array<{ start: number; text: string }> }
+        const segments = data.segments ?? (data.text ? [{ start: 0, text: data.text }] : [])
+        return segments
+          .map(segment => ({ offsetMs: Math.max(0, Math.floor(segment.start) * 1000), text: segment.text.replace(/\s+/g, ' ').trim() }))
+          .filter(segment => segment.text)
+          .map(segment => `${formatTimestampFromMs(chunkStartMs + segment.offsetMs)} 話者不明: ${segment.text}`)
+          .join('\n')
+      }
+
+      const errorText = truncateString(await response.text().catch(() => ''), 200)
+      if (!isRetryableStatus(response.status) || attempt === WHISPER_MAX_RETRIES) {
+        await appendTaskLog(env, taskId, {
+          level: 'error',
+          message: 'Whisper transcription failed',
+          context: { chunkIndex, attempt, status: response.status, errorMessage: errorText }
+        })
+        throw new Error(`Whisper API error: ${response.status} ${errorText}`)
+      }
+      lastError = new Error(`Whisper API error: ${response.status} ${errorText}`)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      const retryable = isAbortError(error) || error instanceof TypeError || /timeout/i.test(errorMessage)
+      if (!retryable || attempt === WHISPER_MAX_RETRIES) {
+        throw new Error(errorMessage.startsWith('Whisper API error') ? errorMessage : `Whisper API error: ${errorMessage}`)
+      }
+      lastError = error instanceof Error ? error : new Error(errorMessage)
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    await appendTaskLog(env, taskId, {
+      level: 'warn',
+      message: 'Whisper transcription retry scheduled',
+      context: { chunkIndex, attempt, error: truncateString(lastError.message, 200) }
+    })
+    await sleep(getBackoffDelay(attempt))
+  }
+
+  throw lastError ?? new Error('Whisper API error: Unknown failure')
+}
+
+/**
+ * Offline transcription for tests and local development: one utterance every MOCK_UTTERANCE_INTERVAL_MS
+ * of meeting time. Text depends only on the absolute time, so overlapping chunks agree with each other.
+ */
+function buildMockTranscription(request: TranscriptionRequest): string {
+  const lines: string[] = []
+  const firstMs = Math.ceil(request.chunkStartMs / MOCK_UTTERANCE_INTERVAL_MS) * MOCK_UTTERANCE_INTERVAL_MS
+  for (let timeMs = firstMs; timeMs < request.chunkEndMs; timeMs += MOCK_UTTERANCE_INTERVAL_MS) {
+    const turn = Math.floor(timeMs / MOCK_UTTERANCE_INTERVAL_MS)
+    const timestamp = formatTimestampFromMs(timeMs)
+    lines.push(`${timestamp} ${turn % 2 === 0 ? '話者A' : '話者B'}: モック発言${turn + 1}（${timestamp}）`)
+  }
+  return lines.join('\n')
+}
+
+function buildMockMinutes(request: SummarizationRequest): string {
+  const lines = request.transcript.split(/\r?\n/).filter(line => getTimestampMs(line) !== null)
+  return [
+    '## 📋 要約',
+    `- （モック）${request.filename ?? '会議'}の議事録です。発言${lines.length}件。`,
+    '',
+    '## 📝 TODO',
+    '| 担当者 | 内容 | 期限 | ステータス |',
+    '|--------|------|------|------------|',
+    '| 話者A | （モック）次回までに資料を準備する | - | 未着手 |',
+    '',
+    '## ⏰ タイムライン',
+    ...lines.slice(0, 5).map(line => `- ${line}`)
+  ].join('\n')
 }
 
-function mergeChunks(chunks: ChunkRecord[]): { merged: string; debug: { skippedLines: Array<{ chunkIndex: number; timestamp: string; threshold: string; line: string }>; chunkInfo: Array<{ index: number; startMs: number; endMs: number; lineCount: number; firstTimestamp: string | null; lastTimestamp: string | null }> } } {
-  const sorted = [...chunks].sort((a, b) => a.index - b.index)
+function mergeChunks(chunks: ChunkRecord[]): { merged: string; segments: TranscriptSegment[]; speakers: SpeakerStat[]; debug: { skippedLines: Array<{ chunkIndex: number; timestamp: string; threshold: string; line: string }>; chunkInfo: Array<{ index: number; startMs: number; endMs: number; lineCount: number; firstTimestamp: string | null; lastTimestamp: string | null }>; speakerMappings: SpeakerLabelMapping[] } } {
+  // チャンクごとにバラバラな話者ラベルを、オーバーラップ区間の発言を手掛かりに統一
+  const reconciled = reconcileChunkSpeakers([...chunks].sort((a, b) => a.index - b.index))
+  const sorted = reconciled.chunks
   let thresholdMs = 0
   const lines: string[] = []
+  const segments: TranscriptSegment[] = []
   const skippedLines: Array<{
     chunkIndex: number
     timestamp: string
@@ -2884,12 +8662,22 @@ function mergeChunks(chunks: ChunkRecord[]): { merged: string; debug: { skippedL
         }
         thresholdMs = Math.max(thresholdMs, timestampMs)
         lines.push(line.trimEnd())
+        segments.push({
+          chunkIndex: chunk.index,
+          startMs: timestampMs,
+          endMs: timestampMs,
+          ...splitSegmentLine(line.trimEnd())
+        })
       } else {
         if (lines.length > 0) {
           lines[lines.length - 1] = `${lines[lines.length - 1]}\n${line}`
         } else {
           lines.push(line)
         }
+        const lastSegment = segments[segments.length - 1]
+        if (lastSegment && line.trim()) {
+          lastSegment.text = `${lastSegment.text}\n${line.trim()}`
+        }
       }
     }
     // 修正: chunk.endMs ではなく chunk.startMs を使用
@@ -2922,13 +8710,360 @@ function mergeChunks(chunks: ChunkRecord[]): { merged: string; debug: { skippedL
     })
   }
 
+  const merged = lines.join('\n')
+
   return { 
-    merged: lines.join('\n'),
+    merged,
+    segments: finalizeSegmentEnds(segments, sorted),
+    speakers: collectSpeakerStats(merged),
     debug: {
       skippedLines,
-      chunkInfo
+      chunkInfo,
+      speakerMappings: reconciled.mappings
+    }
+  }
+}
+
+/**
+ * Split one chunk transcript into segments (used when a single chunk completes).
+ */
+type ChunkRange = Pick<ChunkRecord, 'index' | 'startMs' | 'endMs'>
+
+function parseTranscriptSegments(text: string, chunks: ChunkRange[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = []
+  // The owning chunk is the last one that starts at or before the utterance
+  const resolveChunkIndex = (timestampMs: number) =>
+    chunks.reduce((owner, chunk) => (chunk.startMs <= timestampMs ? chunk.index : owner), chunks[0]?.index ?? 0)
+  for (const line of text.split(/\r?\n/)) {
+    const timestampMs = getTimestampMs(line)
+    if (timestampMs !== null) {
+      segments.push({
+        chunkIndex: resolveChunkIndex(timestampMs),
+        startMs: timestampMs,
+        endMs: timestampMs,
+        ...splitSegmentLine(line.trimEnd())
+      })
+    } else if (segments.length > 0 && line.trim()) {
+      const lastSegment = segments[segments.length - 1]
+      lastSegment.text = `${lastSegment.text}\n${line.trim()}`
+    }
+  }
+  return finalizeSegmentEnds(segments, chunks)
+}
+
+function splitSegmentLine(line: string): { speaker?: string; text: string } {
+  const speakerMatch = line.match(SPEAKER_LINE_PATTERN)
+  if (speakerMatch) {
+    return { speaker: speakerMatch[2].trim(), text: speakerMatch[4].trim() }
+  }
+  return { text: line.replace(TIMESTAMP_PATTERN, '').trim() }
+}
+
+/**
+ * A segment ends where the next one starts; the last segment of a chunk ends with the chunk.
+ */
+function finalizeSegmentEnds(segments: TranscriptSegment[], chunks: ChunkRange[]): TranscriptSegment[] {
+  const chunkEnds = new Map(chunks.map((chunk) => [chunk.index, chunk.endMs]))
+  return segments.map((segment, i) => {
+    const next = segments[i + 1]
+    const endMs = next && next.chunkIndex === segment.chunkIndex
+      ? next.startMs
+      : Math.min(next?.startMs ?? Infinity, chunkEnds.get(segment.chunkIndex) ?? segment.startMs)
+    return { ...segment, endMs: Math.max(segment.startMs, endMs) }
+  })
+}
+
+/**
+ * Align speaker labels across chunks.
+ * Each chunk is diarized independently, so "話者A" in one chunk may be "話者B" in the next.
+ * Utterances transcribed twice inside the overlap window are paired by timestamp and text
+ * similarity, and the labels of the later chunk are rewritten to the earlier chunk's labels.
+ */
+function reconcileChunkSpeakers(sorted: ChunkRecord[]): { chunks: ChunkRecord[]; mappings: SpeakerLabelMapping[] } {
+  const result: ChunkRecord[] = []
+  const mappings: SpeakerLabelMapping[] = []
+  const knownLabels = new Set<string>()
+
+  for (const chunk of sorted) {
+    const previous = result[result.length - 1]
+    const utterances = parseSpeakerLines(chunk.text)
+
+    if (!previous) {
+      utterances.forEach((utterance) => knownLabels.add(utterance.speaker))
+      result.push(chunk)
+      continue
+    }
+
+    const windowStartMs = chunk.startMs - SPEAKER_MATCH_TOLERANCE_MS
+    const windowEndMs = previous.endMs + SPEAKER_MATCH_TOLERANCE_MS
+    const inWindow = (timestampMs: number) => timestampMs >= windowStartMs && timestampMs <= windowEndMs
+    const previousOverlap = parseSpeakerLines(previous.text).filter((utterance) => inWindow(utterance.timestampMs))
+    const currentOverlap = utterances.filter((utterance) => inWindow(utterance.timestampMs))
+
+    // currentLabel -> (previousLabel -> votes)
+    const votes = new Map<string, Map<string, number>>()
+    for (const utterance of currentOverlap) {
+      let best: { speaker: string; score: number } | null = null
+      for (const candidate of previousOverlap) {
+        if (Math.abs(candidate.timestampMs - utterance.timestampMs) > SPEAKER_MATCH_TOLERANCE_MS) continue
+        const score = textSimilarity(candidate.text, utterance.text)
+        if (score >= SPEAKER_MATCH_MIN_SIMILARITY && (!best || score > best.score)) {
+          best = { speaker: candidate.speaker, score }
+        }
+      }
+      if (!best) continue
+      const counter = votes.get(utterance.speaker) ?? new Map<string, number>()
+      counter.set(best.speaker, (counter.get(best.speaker) ?? 0) + 1)
+      votes.set(utterance.speaker, counter)
+    }
+
+    // Strongest evidence first so that two labels never collapse into one
+    const candidates: Array<{ from: string; to: string; count: number }> = []
+    for (const [from, counter] of votes) {
+      for (const [to, count] of counter) {
+        candidates.push({ from, to, count })
+      }
+    }
+    candidates.sort((a, b) => b.count - a.count)
+
+    const mapping: Record<string, string> = {}
+    const assignedTargets = new Set<string>()
+    for (const candidate of candidates) {
+      if (candidate.from in mapping || assignedTargets.has(candidate.to)) continue
+      mapping[candidate.from] = candidate.to
+      assignedTargets.add(candidate.to)
+    }
+
+    // Labels without overlap evidence keep their name unless it is now taken by a mapped label
+    const unmapped = [...new Set(utterances.map((utterance) => utterance.speaker))].filter((label) => !(label in mapping))
+    const collisions = unmapped.filter((label) => assignedTargets.has(label))
+    for (const label of unmapped) {
+      if (assignedTargets.has(label)) continue
+      mapping[label] = label
+      assignedTargets.add(label)
+    }
+    for (const label of collisions) {
+      mapping[label] = nextSpeakerLabel(new Set([...knownLabels, ...assignedTargets]))
+      assignedTargets.add(mapping[label])
+    }
+
+    Object.values(mapping).forEach((label) => knownLabels.add(label))
+    const changed = Object.fromEntries(Object.entries(mapping).filter(([from, to]) => from !== to))
+    if (Object.keys(changed).length > 0) {
+      mappings.push({ chunkIndex: chunk.index, mapping: changed })
+    }
+
+    result.push({
+      ...chunk,
+      text: relabelSpeakers(chunk.text, (label) => mapping[label] ?? label)
+    })
+  }
+
+  return { chunks: result, mappings }
+}
+
+function parseSpeakerLines(text: string): Array<{ timestampMs: number; speaker: string; text: string }> {
+  const utterances: Array<{ timestampMs: number; speaker: string; text: string }> = []
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(SPEAKER_LINE_PATTERN)
+    if (!match) continue
+    const timestampMs = getTimestampMs(line)
+    if (timestampMs === null) continue
+    utterances.push({ timestampMs, speaker: match[2].trim(), text: match[4].trim() })
+  }
+  return utterances
+}
+
+function relabelSpeakers(text: string, rename: (label: string) => string): string {
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const match = line.match(SPEAKER_LINE_PATTERN)
+      if (!match) return line
+      const [, prefix, speaker, separator, rest] = match
+      const renamed = rename(speaker.trim())
+      return renamed === speaker.trim() ? line : `${prefix}${renamed}${separator}${rest}`
+    })
+    .join('\n')
+}
+
+/**
+ * Replace a speaker name in free text (minutes) only where it stands as a whole token, e.g. `話者1:`, `**話者1**`, `【話者1】`
+ * or `話者1、話者2`, so that renaming 話者1 leaves 話者10 and ordinary words alone.
+ */
+function renameSpeakerInText(text: string, previousName: string, displayName: string): string {
+  const escaped = previousName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const pattern = new RegExp(`(?<=^|[\\s*【「『（(、・,])${escaped}(?=[*:：】」』）)、・,\\s]|$)`, 'gm')
+  return text.replace(pattern, () => displayName)
+}
+
+function nextSpeakerLabel(used: Set<string>): string {
+  for (let i = 0; i < 26; i++) {
+    const label = `話者${String.fromCharCode(65 + i)}`
+    if (!used.has(label)) return label
+  }
+  let n = 27
+  while (used.has(`話者${n}`)) n++
+  return `話者${n}`
+}
+
+function collectSpeakerStats(transcript: string): SpeakerStat[] {
+  const stats = new Map<string, SpeakerStat>()
+  for (const utterance of parseSpeakerLines(transcript)) {
+    const stat = stats.get(utterance.speaker) ?? { label: utterance.speaker, firstSeenMs: null, utteranceCount: 0 }
+    stat.utteranceCount += 1
+    if (stat.firstSeenMs === null || utterance.timestampMs < stat.firstSeenMs) {
+      stat.firstSeenMs = utterance.timestampMs
+    }
+    stats.set(utterance.speaker, stat)
+  }
+  return [...stats.values()].sort((a, b) => (a.firstSeenMs ?? 0) - (b.firstSeenMs ?? 0))
+}
+
+/**
+ * Line diff without LCS: trims the common prefix and suffix and reports the rest as one hunk.
+ * Cheap enough for multi-hour transcripts within the Workers CPU budget.
+ */
+function diffTranscriptLines(before: string, after: string): LineDiffHunk[] {
+  if (before === after) return []
+  const beforeLines = before.split('\n')
+  const afterLines = after.split('\n')
+  let prefix = 0
+  while (prefix < beforeLines.length && prefix < afterLines.length && beforeLines[prefix] === afterLines[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < beforeLines.length - prefix &&
+    suffix < afterLines.length - prefix &&
+    beforeLines[beforeLines.length - 1 - suffix] === afterLines[afterLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+  return [{
+    line: prefix + 1,
+    removed: beforeLines.slice(prefix, beforeLines.length - suffix),
+    added: afterLines.slice(prefix, afterLines.length - suffix)
+  }]
+}
+
+/**
+ * LCS line diff for short documents such as minutes. Falls back to the prefix/suffix diff
+ * when the comparison table would be too large.
+ */
+function diffLinesDetailed(before: string, after: string): LineDiffHunk[] {
+  if (before === after) return []
+  const a = before.split('\n')
+  const b = after.split('\n')
+  if ((a.length + 1) * (b.length + 1) > LINE_DIFF_MAX_CELLS) {
+    return diffTranscriptLines(before, after)
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const hunks: LineDiffHunk[] = []
+  let current: LineDiffHunk | null = null
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null
+      i++
+      j++
+      continue
+    }
+    if (!current) {
+      current = { line: i + 1, removed: [], added: [] }
+      hunks.push(current)
+    }
+    if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      current.added.push(b[j++])
+    } else {
+      current.removed.push(a[i++])
+    }
+  }
+  return hunks
+}
+
+/**
+ * Replace {{name}} placeholders. Unknown placeholders become empty so they never reach the prompt verbatim.
+ */
+function renderMinutesTemplate(instructions: string, variables: Record<string, string>): string {
+  return instructions.replace(MINUTES_TEMPLATE_PLACEHOLDER_PATTERN, (_, name: string) => variables[name] ?? '')
+}
+
+function buildMinutesTemplateVariables(task: TaskRecord, client: ClientRecord | null, overrides: unknown): Record<string, string> {
+  const variables: Record<string, string> = {
+    filename: task.filename ?? '',
+    meetingDate: task.createdAt.slice(0, 10),
+    durationMinutes: task.durationMs ? String(Math.round(task.durationMs / 60000)) : ''
+  }
+  if (client) {
+    variables.clientName = client.name
+    variables.clientCode = client.code ?? ''
+    variables.assignedStaff = client.assignedStaff ?? ''
+    if (client.fiscalYearEndMonth) {
+      const fiscalYear = getFiscalYearEnd(task.createdAt, client.fiscalYearEndMonth)
+      variables.fiscalYear = String(fiscalYear.year)
+      variables.fiscalYearEnd = fiscalYear.label
+    }
+  }
+  if (overrides && typeof overrides === 'object') {
+    for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+      if (typeof value === 'string' || typeof value === 'number') {
+        variables[key] = truncateString(String(value), 200)
+      }
+    }
+  }
+  return variables
+}
+
+/**
+ * Author recorded on revisions, minutes versions and action items. Always the signed-in user, never client input.
+ */
+function getRevisionAuthor(user: UserRecord): string {
+  return `${user.displayName || user.email} (${user.id})`.slice(0, REVISION_AUTHOR_MAX_LENGTH)
+}
+
+/**
+ * Character-bigram Dice coefficient (0..1). Works for Japanese text without tokenization.
+ */
+function textSimilarity(a: string, b: string): number {
+  const normalize = (value: string) => value.replace(/[\s、。，．,.!?！？「」]/g, '')
+  const left = normalize(a)
+  const right = normalize(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+  const bigrams = (value: string) => {
+    const counts = new Map<string, number>()
+    for (let i = 0; i < Math.max(1, value.length - 1); i++) {
+      const gram = value.slice(i, i + 2)
+      counts.set(gram, (counts.get(gram) ?? 0) + 1)
     }
+    return counts
+  }
+  const leftGrams = bigrams(left)
+  const rightGrams = bigrams(right)
+  let intersection = 0
+  let total = 0
+  for (const count of leftGrams.values()) total += count
+  for (const [gram, count] of rightGrams) {
+    total += count
+    intersection += Math.min(count, leftGrams.get(gram) ?? 0)
   }
+  return total > 0 ? (2 * intersection) / total : 0
+}
+
+function applySpeakerNames(transcript: string, speakers: SpeakerRecord[]): string {
+  const names = new Map(speakers.filter((speaker) => speaker.displayName).map((speaker) => [speaker.label, speaker.displayName as string]))
+  if (names.size === 0) return transcript
+  return relabelSpeakers(transcript, (label) => names.get(label) ?? label)
 }
 
 function formatTimestampFromMs(ms: number): string {
@@ -2968,10 +9103,19 @@ function extractCandidateText(response: GeminiGenerateContentResponse): string |
   return textPart?.text ?? null
 }
 
+type GeminiUsageMetadata = {
+  promptTokenCount?: number
+  candidatesTokenCount?: number
+  thoughtsTokenCount?: number
+  totalTokenCount?: number
+  promptTokensDetails?: Array<{ modality?: string; tokenCount?: number }>
+}
+
 type GeminiGenerateContentResponse = {
   candidates?: Array<{
     content?: {
       parts?: Array<{ text?: string }>
     }
   }>
+  usageMetadata?: GeminiUsageMetadata
 }